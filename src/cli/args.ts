@@ -0,0 +1,29 @@
+/**
+ * `--key value` and `--key=value` pairs; anything else is a usage error.
+ */
+export const parseArgs = (argv: string[], usage: string): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const token = argv[index];
+    if (!token.startsWith('--')) {
+      throw new Error(`Unexpected argument "${token}"\n${usage}`);
+    }
+    const [key, inline] = token.slice(2).split('=', 2);
+    const value = inline ?? argv[index + 1];
+    if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+      throw new Error(`Missing value for --${key}\n${usage}`);
+    }
+    if (inline === undefined) index++;
+    args[key] = value;
+  }
+  return args;
+};
+
+export const parsePositive = (value: string | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+};
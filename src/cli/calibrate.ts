@@ -0,0 +1,148 @@
+/*
+ * Fit confidence calibration for one provider and model version from labeled feedback.
+ *
+ *   curl -H "Authorization: Bearer $ADMIN_TOKEN" "$API/analysis/feedback/export" > feedback.jsonl
+ *   npm run calibrate -- --manifest feedback.jsonl --provider gemini --model gemini-3-flash-preview
+ *
+ * Writes src/templates/calibration/<provider>/<model>.json by default (commit it and rebuild
+ * so the server ships it), or --out. Prints the in-sample Brier score and calibration error
+ * before and after; check them on held-out data with `npm run evaluate`.
+ */
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { computeCalibration, SamplePrediction } from '../utils/evaluationMetrics';
+import type { DatasetManifestRecord } from '../utils/feedbackDataset';
+import {
+  calibrateProbability,
+  CalibrationMapping,
+  CalibrationParameters,
+  CalibrationSample,
+  fitIsotonic,
+  fitPlatt,
+  parseCalibrationParameters,
+  samplesFromManifest,
+} from '../utils/calibration';
+import { calibrationFileName } from '../services/calibrationService';
+import type { MediaType } from '../types/analysis';
+import { parseArgs, parsePositive } from './args';
+
+const USAGE =
+  'Usage: calibrate --manifest feedback.jsonl --provider gemini [--model gemini-3-flash-preview] ' +
+  '[--media-type image|audio] [--method platt|isotonic] [--min-samples 100] [--bins 10] [--out file.json]';
+
+const SOURCE_ROOT = path.resolve(__dirname, '../../src/templates/calibration');
+
+const readManifest = (filePath: string): DatasetManifestRecord[] =>
+  fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+
+// The model version most represented in the export, when --model is omitted.
+const dominantModel = (records: DatasetManifestRecord[], provider: string): string | null => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const predictions = record.predicted?.providers?.length
+      ? record.predicted.providers
+      : [{ provider: record.predicted?.provider, model: record.predicted?.model }];
+    predictions
+      .filter((prediction) => prediction.provider === provider && prediction.model)
+      .forEach(({ model }) => counts.set(model as string, (counts.get(model as string) ?? 0) + 1));
+  });
+  const ranked = Array.from(counts.entries()).sort((left, right) => right[1] - left[1]);
+  return ranked[0]?.[0] ?? null;
+};
+
+const scoreReport = (samples: CalibrationSample[], bins: number, mapping?: CalibrationMapping) =>
+  computeCalibration(
+    samples.map((sample, index): SamplePrediction => {
+      const probability = mapping ? calibrateProbability(mapping, sample.probability) : sample.probability;
+      return {
+        id: String(index),
+        label: sample.isAI ? 'ai' : 'real',
+        status: 'ok',
+        predictedLabel: probability >= 0.5 ? 'ai' : 'real',
+        aiScore: probability * 100,
+      };
+    }),
+    bins
+  );
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2), USAGE);
+  if (!args.manifest || !args.provider) {
+    throw new Error(`--manifest and --provider are required\n${USAGE}`);
+  }
+  const method = args.method || 'platt';
+  if (method !== 'platt' && method !== 'isotonic') {
+    throw new Error('--method must be platt or isotonic');
+  }
+  const mediaType = (args['media-type'] || 'image') as MediaType;
+  if (mediaType !== 'image' && mediaType !== 'audio') {
+    throw new Error('--media-type must be image or audio');
+  }
+
+  const records = readManifest(args.manifest);
+  const model = args.model || dominantModel(records, args.provider);
+  if (!model) {
+    throw new Error(`No predictions from provider "${args.provider}" in ${args.manifest}`);
+  }
+  const samples = samplesFromManifest(records, args.provider, model, mediaType);
+  const minSamples = parsePositive(args['min-samples'], 'min-samples', 100);
+  if (samples.length < minSamples) {
+    throw new Error(
+      `Only ${samples.length} labeled ${mediaType} samples for ${args.provider}/${model}; need ${minSamples}`
+    );
+  }
+  if (samples.every((sample) => sample.isAI) || samples.every((sample) => !sample.isAI)) {
+    throw new Error('Calibration needs both AI and real labels');
+  }
+
+  const outFile = path.resolve(
+    args.out || path.join(SOURCE_ROOT, args.provider, calibrationFileName(model, mediaType))
+  );
+  const previous = fs.existsSync(outFile)
+    ? parseCalibrationParameters(JSON.parse(fs.readFileSync(outFile, 'utf-8')))
+    : null;
+
+  const mapping = method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+  const parameters: CalibrationParameters = {
+    provider: args.provider,
+    model,
+    mediaType,
+    version: (previous?.version ?? 0) + 1,
+    fittedAt: new Date().toISOString(),
+    samples: samples.length,
+    ...mapping,
+  };
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, `${JSON.stringify(parameters, null, 2)}\n`);
+
+  const bins = parsePositive(args.bins, 'bins', 10);
+  const before = scoreReport(samples, bins);
+  const after = scoreReport(samples, bins, mapping);
+  logger.info(
+    {
+      outFile,
+      provider: args.provider,
+      model,
+      mediaType,
+      method,
+      version: parameters.version,
+      samples: samples.length,
+      before: { brierScore: before.brierScore, expectedCalibrationError: before.expectedCalibrationError },
+      after: { brierScore: after.brierScore, expectedCalibrationError: after.expectedCalibrationError },
+    },
+    'Calibration parameters written'
+  );
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error({ err: error }, 'Calibration failed');
+    process.exit(2);
+  });
@@ -0,0 +1,174 @@
+/*
+ * Offline evaluation of the detector pipeline against a labeled dataset.
+ *
+ *   npm run evaluate -- --dataset ./eval/manifest.jsonl --providers gemini --record ./eval/gemini.jsonl
+ *   npm run evaluate -- --dataset ./eval/manifest.jsonl --providers gemini --replay ./eval/gemini.jsonl \
+ *     --min-accuracy 0.85 --max-ece 0.1
+ *
+ * Writes report.json, metrics.csv, confusion.csv, calibration.csv and predictions.csv to --out
+ * (default ./evaluation-report). Exits with 1 when a --min-... or --max-ece threshold is missed
+ * and with 2 when the run itself fails.
+ */
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ClassificationMetrics, toCsv } from '../utils/evaluationMetrics';
+import { detectorService } from '../services/detectorService';
+import { ensembleService } from '../services/ensembleService';
+import { analysisRegistryService } from '../services/analysisRegistryService';
+import { evaluationService, EvaluationReport } from '../services/evaluationService';
+import {
+  loadRecordings,
+  RecordedDetectorProvider,
+  RecordingDetectorProvider,
+} from '../services/recordedDetectorProvider';
+import type { DetectorProvider } from '../types/analysis';
+import { parseArgs, parsePositive } from './args';
+
+type Thresholds = Partial<Record<'accuracy' | 'precision' | 'recall' | 'f1', number>> & { ece?: number };
+
+const USAGE =
+  'Usage: evaluate --dataset <dir|manifest.jsonl> [--providers a,b] [--strategy weighted_average] ' +
+  '[--profile forensic-v2] [--language en] [--replay recordings.jsonl | --record recordings.jsonl] ' +
+  '[--out dir] [--bins 10] [--concurrency 2] [--min-accuracy 0.9] [--min-precision] [--min-recall] ' +
+  '[--min-f1] [--max-ece]';
+
+const parseRatio = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new Error(`--${name} must be a number between 0 and 1`);
+  }
+  return parsed;
+};
+
+/**
+ * Live providers by default; `--replay` swaps each for its recorded responses and
+ * `--record` captures live responses for later replays.
+ */
+const resolveProviders = (args: Record<string, string>): DetectorProvider[] => {
+  if (args.replay && args.record) {
+    throw new Error('--replay and --record are mutually exclusive');
+  }
+  if (args.replay) {
+    const recordings = loadRecordings(args.replay);
+    const recordedNames = Array.from(new Set(recordings.map((recording) => recording.provider)));
+    const names = args.providers ? args.providers.split(',').map((name) => name.trim()) : recordedNames;
+    return names.map((name) => {
+      const provider = new RecordedDetectorProvider(name, recordings);
+      if (!provider.isConfigured()) {
+        throw new Error(`No recordings for provider "${name}" in ${args.replay}`);
+      }
+      return provider;
+    });
+  }
+
+  const providers = detectorService.resolveAll(args.providers);
+  if (!args.record) return providers;
+  fs.mkdirSync(path.dirname(path.resolve(args.record)), { recursive: true });
+  fs.writeFileSync(args.record, '');
+  return providers.map((provider) => new RecordingDetectorProvider(provider, args.record));
+};
+
+const writeReport = (outDir: string, report: EvaluationReport) => {
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  fs.writeFileSync(
+    path.join(outDir, 'metrics.csv'),
+    toCsv(Object.keys(report.metrics) as Array<keyof ClassificationMetrics>, [report.metrics])
+  );
+  const matrix = report.confusionMatrix;
+  fs.writeFileSync(
+    path.join(outDir, 'confusion.csv'),
+    toCsv(
+      ['actual', 'predicted_ai', 'predicted_real'],
+      [
+        { actual: 'ai', predicted_ai: matrix.truePositive, predicted_real: matrix.falseNegative },
+        { actual: 'real', predicted_ai: matrix.falsePositive, predicted_real: matrix.trueNegative },
+      ]
+    )
+  );
+  fs.writeFileSync(
+    path.join(outDir, 'calibration.csv'),
+    toCsv(['lower', 'upper', 'count', 'meanPredicted', 'observedAiRate'], report.calibration.bins)
+  );
+  fs.writeFileSync(
+    path.join(outDir, 'predictions.csv'),
+    toCsv(
+      ['id', 'label', 'status', 'predictedLabel', 'aiScore', 'confidenceScore', 'detectedModel', 'error'],
+      report.predictions
+    )
+  );
+};
+
+const checkThresholds = (report: EvaluationReport, thresholds: Thresholds): string[] => {
+  const failures: string[] = [];
+  (['accuracy', 'precision', 'recall', 'f1'] as const).forEach((metric) => {
+    const minimum = thresholds[metric];
+    if (minimum === undefined) return;
+    const value = report.metrics[metric];
+    if (value === null || value < minimum) {
+      failures.push(`${metric} ${value ?? 'n/a'} < ${minimum}`);
+    }
+  });
+  if (thresholds.ece !== undefined) {
+    const ece = report.calibration.expectedCalibrationError;
+    if (ece === null || ece > thresholds.ece) {
+      failures.push(`expectedCalibrationError ${ece ?? 'n/a'} > ${thresholds.ece}`);
+    }
+  }
+  return failures;
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2), USAGE);
+  if (!args.dataset) {
+    throw new Error(`--dataset is required\n${USAGE}`);
+  }
+
+  const samples = evaluationService.loadDataset(args.dataset);
+  if (!samples.length) {
+    throw new Error(`No labeled samples found in ${args.dataset}`);
+  }
+  const thresholds: Thresholds = {
+    accuracy: parseRatio(args['min-accuracy'], 'min-accuracy'),
+    precision: parseRatio(args['min-precision'], 'min-precision'),
+    recall: parseRatio(args['min-recall'], 'min-recall'),
+    f1: parseRatio(args['min-f1'], 'min-f1'),
+    ece: parseRatio(args['max-ece'], 'max-ece'),
+  };
+  const profile = analysisRegistryService.resolveNamed(
+    args.profile || config.analysis.profiles.default,
+    args.language
+  );
+  const report = await evaluationService.run(args.dataset, samples, {
+    providers: resolveProviders(args),
+    strategy: ensembleService.resolveStrategy(args.strategy),
+    profile,
+    concurrency: parsePositive(args.concurrency, 'concurrency', config.analysis.batch.concurrency),
+    calibrationBins: parsePositive(args.bins, 'bins', 10),
+  });
+
+  const outDir = path.resolve(args.out || 'evaluation-report');
+  writeReport(outDir, report);
+
+  const failures = checkThresholds(report, thresholds);
+  logger.info(
+    {
+      outDir,
+      metrics: report.metrics,
+      expectedCalibrationError: report.calibration.expectedCalibrationError,
+      failures,
+    },
+    failures.length ? 'Evaluation below thresholds' : 'Evaluation completed'
+  );
+  return failures.length ? 1 : 0;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    logger.error({ err: error }, 'Evaluation failed');
+    process.exit(2);
+  });
@@ -54,6 +54,25 @@ const parseCorsOrigins = (): string[] => {
   return Array.from(origins);
 };
 
+const parseList = (raw: string | undefined): string[] =>
+  (raw || '')
+    .split(',')
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value.length > 0);
+
+// Format: "gemini:2,openai:1"
+const parseWeights = (raw: string | undefined): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  parseList(raw).forEach(entry => {
+    const [name, value] = entry.split(':');
+    const weight = Number(value);
+    if (name && Number.isFinite(weight) && weight > 0) {
+      weights[name] = weight;
+    }
+  });
+  return weights;
+};
+
 const deleteLogsDir = process.env.DELETE_ACCOUNT_LOG_DIR || path.join(process.cwd(), 'logs');
 
 export const config = {
@@ -94,6 +113,8 @@ export const config = {
     maxFailedAttempts: Number(process.env.MAX_FAILED_ATTEMPTS || 5),
     lockoutDurationMinutes: Number(process.env.LOCKOUT_DURATION_MINUTES || 30),
     passwordResetTokenTtlHours: Number(process.env.PASSWORD_RESET_TTL_HOURS || 1),
+    adminUserIds: parseList(process.env.ADMIN_USER_IDS),
+    adminEmails: parseList(process.env.ADMIN_EMAILS),
   },
   api: {
     baseUrl: process.env.API_BASE_URL || 'https://ai-or-real-backend.onrender.com',
@@ -113,6 +134,137 @@ export const config = {
       baseUrl: process.env.TTS_BASE_URL || 'https://google-auth-e4er.onrender.com',
     },
   },
+  analysis: {
+    defaultProvider: process.env.ANALYSIS_PROVIDER || 'gemini',
+    // Off in production unless enabled: picking (or fanning out to) expensive providers still
+    // costs the caller a single quota unit.
+    allowProviderOverride:
+      process.env.ANALYSIS_ALLOW_PROVIDER_OVERRIDE === 'true' || process.env.NODE_ENV !== 'production',
+    stubEnabled:
+      process.env.ANALYSIS_STUB_ENABLED === 'true' || process.env.NODE_ENV !== 'production',
+    gemini: {
+      apiKey: process.env.GEMINI_API_KEY || '',
+      model: process.env.GEMINI_MODEL || 'gemini-3-flash-preview',
+      baseUrl: process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta',
+      timeoutMs: Number(process.env.GEMINI_TIMEOUT_MS || 60000),
+    },
+    openai: {
+      model: process.env.OPENAI_VISION_MODEL || 'gpt-4o',
+      timeoutMs: Number(process.env.OPENAI_TIMEOUT_MS || 60000),
+    },
+    ensemble: {
+      providers: parseList(process.env.ANALYSIS_ENSEMBLE_PROVIDERS),
+      strategy: process.env.ANALYSIS_ENSEMBLE_STRATEGY || 'weighted_average',
+      weights: parseWeights(process.env.ANALYSIS_ENSEMBLE_WEIGHTS),
+    },
+    cache: {
+      enabled: process.env.ANALYSIS_CACHE_ENABLED !== 'false',
+      scope: process.env.ANALYSIS_CACHE_SCOPE === 'global' ? 'global' : 'user',
+      ttlSeconds: Number(process.env.ANALYSIS_CACHE_TTL_SECONDS || 24 * 60 * 60),
+      perceptual: process.env.ANALYSIS_CACHE_PERCEPTUAL === 'true',
+    },
+    similarity: {
+      maxDistance: Number(process.env.ANALYSIS_SIMILARITY_MAX_DISTANCE || 10),
+      candidateLimit: Number(process.env.ANALYSIS_SIMILARITY_CANDIDATE_LIMIT || 200),
+    },
+    jobs: {
+      // Async jobs run on the instance that queued them; ones that have not moved for this
+      // long (e.g. after a restart) are failed and their quota released.
+      staleAfterSeconds: Number(process.env.ANALYSIS_JOB_STALE_SECONDS || 15 * 60),
+      sweepIntervalMs: Number(process.env.ANALYSIS_JOB_SWEEP_INTERVAL_MS || 5 * 60 * 1000),
+      sweepBatchSize: Number(process.env.ANALYSIS_JOB_SWEEP_BATCH || 50),
+    },
+    batch: {
+      maxItems: Number(process.env.ANALYSIS_BATCH_MAX_ITEMS || 20),
+      concurrency: Number(process.env.ANALYSIS_BATCH_CONCURRENCY || 3),
+    },
+    image: {
+      allowedFormats: parseList(process.env.ANALYSIS_IMAGE_ALLOWED_FORMATS || 'jpeg,png,webp,heic'),
+      maxBytes: Number(process.env.ANALYSIS_IMAGE_MAX_BYTES || 10 * 1024 * 1024),
+      maxPixels: Number(process.env.ANALYSIS_IMAGE_MAX_PIXELS || 50_000_000),
+      maxDimension: Number(process.env.ANALYSIS_IMAGE_MAX_DIMENSION || 2048),
+      jpegQuality: Number(process.env.ANALYSIS_IMAGE_JPEG_QUALITY || 0.9),
+    },
+    video: {
+      allowedFormats: parseList(process.env.ANALYSIS_VIDEO_ALLOWED_FORMATS || 'mp4,mov,webm,gif'),
+      maxBytes: Number(process.env.ANALYSIS_VIDEO_MAX_BYTES || 25 * 1024 * 1024),
+      maxDurationSeconds: Number(process.env.ANALYSIS_VIDEO_MAX_DURATION_SECONDS || 60),
+      maxFrames: Number(process.env.ANALYSIS_VIDEO_MAX_FRAMES || 8),
+      secondsPerFrame: Number(process.env.ANALYSIS_VIDEO_SECONDS_PER_FRAME || 2),
+      timeoutMs: Number(process.env.ANALYSIS_VIDEO_TIMEOUT_MS || 30000),
+      ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+      ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    },
+    audio: {
+      allowedFormats: parseList(process.env.ANALYSIS_AUDIO_ALLOWED_FORMATS || 'mp3,wav,ogg,flac,m4a,webm'),
+      maxBytes: Number(process.env.ANALYSIS_AUDIO_MAX_BYTES || 10 * 1024 * 1024),
+      maxDurationSeconds: Number(process.env.ANALYSIS_AUDIO_MAX_DURATION_SECONDS || 120),
+      timeoutMs: Number(process.env.ANALYSIS_AUDIO_TIMEOUT_MS || 30000),
+      ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+      ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    },
+    calibration: {
+      enabled: process.env.ANALYSIS_CALIBRATION_ENABLED !== 'false',
+      // Overrides the bundled `templates/calibration` directory.
+      directory: process.env.ANALYSIS_CALIBRATION_DIR || '',
+    },
+    feedback: {
+      // Upper bound on rows per labeled-dataset export.
+      exportMaxRows: Number(process.env.ANALYSIS_FEEDBACK_EXPORT_MAX_ROWS || 50000),
+    },
+    history: {
+      restoreWindowDays: Number(process.env.ANALYSIS_HISTORY_RESTORE_DAYS || 30),
+      purgeBatchSize: Number(process.env.ANALYSIS_HISTORY_PURGE_BATCH || 200),
+    },
+    share: {
+      maxExpiryDays: Number(process.env.ANALYSIS_SHARE_MAX_EXPIRY_DAYS || 365),
+      thumbnailUrlTtlSeconds: Number(process.env.ANALYSIS_SHARE_THUMBNAIL_TTL_SECONDS || 900),
+      thumbnailMaxDimension: Number(process.env.ANALYSIS_SHARE_THUMBNAIL_MAX_DIMENSION || 512),
+      maxLinksPerAnalysis: Number(process.env.ANALYSIS_SHARE_MAX_LINKS || 10),
+    },
+    prompts: {
+      defaultLocale: process.env.ANALYSIS_PROMPT_DEFAULT_LOCALE || 'en',
+    },
+    profiles: {
+      default: process.env.ANALYSIS_PROFILE || 'forensic-v2',
+      // Format: "forensic-v2:20" (percent of users per profile)
+      experiment: parseWeights(process.env.ANALYSIS_PROFILE_EXPERIMENT),
+      // Voice clips use their own prompt and schema and are not part of experiments.
+      audio: process.env.ANALYSIS_AUDIO_PROFILE || 'voice-v1',
+    },
+    fetch: {
+      timeoutMs: Number(process.env.ANALYSIS_FETCH_TIMEOUT_MS || 10000),
+      maxRedirects: Number(process.env.ANALYSIS_FETCH_MAX_REDIRECTS || 3),
+      allowedContentTypes: parseList(
+        process.env.ANALYSIS_FETCH_ALLOWED_CONTENT_TYPES ||
+          'image/jpeg,image/png,image/webp,image/heic,image/heif'
+      ),
+    },
+  },
+  http: {
+    maxRetries: Number(process.env.HTTP_RETRY_MAX || 2),
+    baseDelayMs: Number(process.env.HTTP_RETRY_BASE_DELAY_MS || 500),
+    maxDelayMs: Number(process.env.HTTP_RETRY_MAX_DELAY_MS || 8000),
+    failureThreshold: Number(process.env.HTTP_BREAKER_FAILURE_THRESHOLD || 5),
+    resetTimeoutMs: Number(process.env.HTTP_BREAKER_RESET_MS || 30000),
+  },
+  webhooks: {
+    allowHttp: process.env.WEBHOOK_ALLOW_HTTP === 'true' || process.env.NODE_ENV !== 'production',
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS || 10000),
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8),
+    retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS || 30),
+    retryMaxSeconds: Number(process.env.WEBHOOK_RETRY_MAX_SECONDS || 6 * 60 * 60),
+    // How often due retries are picked up.
+    sweepIntervalMs: Number(process.env.WEBHOOK_SWEEP_INTERVAL_MS || 60000),
+    sweepBatchSize: Number(process.env.WEBHOOK_SWEEP_BATCH || 50),
+    deliveryRetentionDays: Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || 30),
+  },
+  apiKeys: {
+    maxPerUser: Number(process.env.API_KEY_MAX_PER_USER || 10),
+    // Verified keys are remembered this long per instance, so argon2 does not run on every
+    // request; a revocation reaches other instances within this window.
+    verifyCacheSeconds: Number(process.env.API_KEY_VERIFY_CACHE_SECONDS || 60),
+  },
   revenueCat: {
     apiKey: process.env.REVENUECAT_API_KEY || '',
     baseUrl: process.env.REVENUECAT_BASE_URL || 'https://api.revenuecat.com',
@@ -0,0 +1,144 @@
+export type AnalysisSchemaDefinition = {
+  name: string;
+  version: number;
+  // Gemini-style response schema; providers convert it as needed.
+  definition: Record<string, any>;
+};
+
+export type AnalysisProfile = {
+  name: string;
+  // Directory under `src/templates/prompts`; each locale file carries its own version.
+  promptTemplate: string;
+  schema: { name: string; version: number };
+};
+
+const FORENSIC_SCHEMA_V1 = {
+  type: 'OBJECT',
+  properties: {
+    isAI: { type: 'BOOLEAN', description: 'Whether the image is AI generated' },
+    confidenceScore: { type: 'NUMBER', description: 'Confidence score between 0 and 100' },
+    detectedModel: { type: 'STRING', description: "The likely model or 'Camera' if real" },
+    verdict: { type: 'STRING', description: 'A short forensic verdict summary' },
+    findings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          title: { type: 'STRING' },
+          description: { type: 'STRING' },
+          type: { type: 'STRING' },
+          status: { type: 'STRING', enum: ['alert', 'secure'] },
+        },
+        required: ['title', 'description', 'type', 'status'],
+      },
+    },
+    probabilityBreakdown: {
+      type: 'OBJECT',
+      properties: {
+        gan: { type: 'NUMBER' },
+        diffusion: { type: 'NUMBER' },
+        organic: { type: 'NUMBER' },
+      },
+      required: ['gan', 'diffusion', 'organic'],
+    },
+    technicalSpecs: {
+      type: 'OBJECT',
+      properties: {
+        dimensions: { type: 'STRING' },
+        colorSpace: { type: 'STRING' },
+        modelId: { type: 'STRING' },
+        entropy: { type: 'STRING' },
+      },
+      required: ['dimensions', 'colorSpace', 'modelId', 'entropy'],
+    },
+  },
+  required: [
+    'isAI',
+    'confidenceScore',
+    'detectedModel',
+    'verdict',
+    'findings',
+    'probabilityBreakdown',
+    'technicalSpecs',
+  ],
+};
+
+const REGION_SCHEMA = {
+  type: 'OBJECT',
+  description:
+    'Optional. Where the image shows synthetic artifacts. Omit entirely unless you can localize them. ' +
+    'Coordinates are fractions (0-1) of the image width/height from the top-left corner.',
+  properties: {
+    boxes: {
+      type: 'ARRAY',
+      description: 'Bounding boxes around suspicious regions, at most 20',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          x: { type: 'NUMBER' },
+          y: { type: 'NUMBER' },
+          width: { type: 'NUMBER' },
+          height: { type: 'NUMBER' },
+          score: { type: 'NUMBER', description: 'AI likelihood for this region between 0 and 100' },
+          label: { type: 'STRING', description: 'Short artifact name, e.g. "warped text"' },
+        },
+        required: ['x', 'y', 'width', 'height', 'score'],
+      },
+    },
+    grid: {
+      type: 'OBJECT',
+      description: 'Coarse grid of per-tile AI likelihood (0-100), row-major, rows * cols scores',
+      properties: {
+        rows: { type: 'INTEGER' },
+        cols: { type: 'INTEGER' },
+        scores: { type: 'ARRAY', items: { type: 'NUMBER' } },
+      },
+      required: ['rows', 'cols', 'scores'],
+    },
+  },
+};
+
+// v1 plus optional region annotations.
+const FORENSIC_SCHEMA_V2 = {
+  ...FORENSIC_SCHEMA_V1,
+  properties: { ...FORENSIC_SCHEMA_V1.properties, regions: REGION_SCHEMA },
+};
+
+// Voice clips: the breakdown is reused as gan = neural vocoder / voice conversion,
+// diffusion = text-to-speech synthesis, organic = recorded human speech.
+const VOICE_SCHEMA_V1 = {
+  type: 'OBJECT',
+  properties: {
+    isAI: { type: 'BOOLEAN', description: 'Whether the voice is synthetic or cloned' },
+    confidenceScore: { type: 'NUMBER', description: 'Confidence score between 0 and 100' },
+    detectedModel: { type: 'STRING', description: "The likely voice synthesis system or 'Human' if real" },
+    verdict: { type: 'STRING', description: 'A short forensic verdict summary' },
+    findings: FORENSIC_SCHEMA_V1.properties.findings,
+    probabilityBreakdown: {
+      type: 'OBJECT',
+      properties: {
+        gan: { type: 'NUMBER', description: 'Neural vocoder or voice conversion likelihood' },
+        diffusion: { type: 'NUMBER', description: 'Text-to-speech synthesis likelihood' },
+        organic: { type: 'NUMBER', description: 'Recorded human speech likelihood' },
+      },
+      required: ['gan', 'diffusion', 'organic'],
+    },
+  },
+  required: ['isAI', 'confidenceScore', 'detectedModel', 'verdict', 'findings', 'probabilityBreakdown'],
+};
+
+export const ANALYSIS_SCHEMAS: AnalysisSchemaDefinition[] = [
+  { name: 'forensic', version: 1, definition: FORENSIC_SCHEMA_V1 },
+  { name: 'forensic', version: 2, definition: FORENSIC_SCHEMA_V2 },
+  { name: 'voice', version: 1, definition: VOICE_SCHEMA_V1 },
+];
+
+/**
+ * Named prompt + schema pairs. Never edit a published profile in place: add a new
+ * entry (and bump template/schema versions) so stored analyses stay traceable.
+ */
+export const ANALYSIS_PROFILES: AnalysisProfile[] = [
+  { name: 'forensic-v1', promptTemplate: 'forensic', schema: { name: 'forensic', version: 1 } },
+  { name: 'forensic-v2', promptTemplate: 'forensic', schema: { name: 'forensic', version: 2 } },
+  { name: 'voice-v1', promptTemplate: 'voice', schema: { name: 'voice', version: 1 } },
+];
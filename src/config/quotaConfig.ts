@@ -55,6 +55,21 @@ const parsePlanConfig = (rawValue: string | undefined): PlanConfig[] => {
 
 export const PLAN_CONFIG = parsePlanConfig(process.env.QUOTA_PLAN_CONFIG);
 
+export type AnalysisQuotaConfig = {
+  // When false, an analysis served from the result cache releases its reservation.
+  cacheHitConsumesQuota: boolean;
+  // Quota units charged per sampled video frame; the total is rounded up, minimum 1.
+  videoFrameWeight: number;
+};
+
+export const ANALYSIS_QUOTA_CONFIG: AnalysisQuotaConfig = {
+  cacheHitConsumesQuota: process.env.QUOTA_CACHE_HIT_CONSUMES !== 'false',
+  videoFrameWeight: Number(process.env.QUOTA_VIDEO_FRAME_WEIGHT || 1),
+};
+
+export const videoQuotaCost = (frames: number, weight = ANALYSIS_QUOTA_CONFIG.videoFrameWeight): number =>
+  Math.max(1, Math.ceil(frames * Math.max(0, weight)));
+
 export const resolvePlanConfig = (candidate: string | null | undefined): PlanConfig | null => {
   if (!candidate) return null;
   const normalized = candidate.toLowerCase().trim();
@@ -334,6 +334,7 @@ const authUsers = new Map<string, MockUserRecord>();
 const mockStorage = () => ({
   bucket() {
     return {
+      name: process.env.FIREBASE_STORAGE_BUCKET || 'mock-bucket',
       async deleteFiles(options?: { prefix?: string }) {
         logger.debug({ options }, 'Mock Firebase: deleteFiles called');
       },
@@ -438,7 +439,8 @@ export const admin = {
 };
 
 export const FieldValue = {
-  serverTimestamp: () => new Date()
+  serverTimestamp: () => new Date(),
+  increment: (n: number) => (isFirebaseInitialized ? firebaseAdmin.firestore.FieldValue.increment(n) : n),
 };
 
 // Export Firestore instance
@@ -59,6 +59,9 @@ import { createDeleteAccountRouter } from './routes/deleteAccount';
 import { createPremiumRouter } from './routes/premium';
 import { createQuotaRouter } from './routes/quota';
 import { createAnalysisRouter } from './routes/analysis';
+import { createShareRouter } from './routes/share';
+import { createWebhookRouter } from './routes/webhooks';
+import { createApiKeyRouter } from './routes/apiKeys';
 // Chat router: resolve robustly to avoid ESM/CJS interop issues in Render
 // We intentionally avoid static import here
 import notificationRouter from './routes/notifications';
@@ -74,6 +77,10 @@ import { databaseManager } from './config/database';
 import { backupService } from './services/backupService';
 import { dataRetentionService } from './services/dataRetentionService';
 import { initializeWebSocket } from './services/websocketService';
+import { httpClientRegistry } from './services/httpClient';
+import { analysisHistoryService } from './services/analysisHistoryService';
+import { webhookService } from './services/webhookService';
+import { analysisJobService } from './services/analysisJobService';
 import { createCorsOptions, getAllowedOriginsSnapshot } from './utils/cors';
 import { 
   globalErrorHandler, 
@@ -198,10 +205,13 @@ const startServer = async () => {
 
     // Health check
     app.get('/health', (_req, res) => {
+      const upstreams = httpClientRegistry.snapshot();
       res.json({ 
         ok: true, 
         timestamp: new Date().toISOString(),
-        version: process.env.npm_package_version || '1.0.0'
+        version: process.env.npm_package_version || '1.0.0',
+        degraded: Object.values(upstreams).some((circuit) => circuit.state !== 'closed'),
+        upstreams,
       });
     });
 
@@ -218,7 +228,10 @@ const startServer = async () => {
     mountRouter(`/api/${API_VERSION}/premium`, createPremiumRouter, 'premium');
     mountRouter(`/api/${API_VERSION}/quota`, createQuotaRouter, 'quota');
     mountRouter(`/api/${API_VERSION}/analysis`, createAnalysisRouter, 'analysis');
+    mountRouter(`/api/${API_VERSION}/share`, createShareRouter, 'share');
     mountRouterInstance(`/api/${API_VERSION}/webhooks/revenuecat`, revenuecatWebhookRouter, 'revenuecatWebhook');
+    mountRouter(`/api/${API_VERSION}/webhooks`, createWebhookRouter, 'webhooks');
+    mountRouter(`/api/${API_VERSION}/api-keys`, createApiKeyRouter, 'apiKeys');
     if (createChatRouter) {
       mountRouter(`/api/${API_VERSION}/chat`, createChatRouter, 'chat');
     }
@@ -239,6 +252,8 @@ const startServer = async () => {
       mountRouter('/chat', createChatRouter, 'chat (legacy)');
     }
     mountRouterInstance('/notifications', notificationRouter, 'notifications');
+    // Short public path used in share links.
+    mountRouter('/share', createShareRouter, 'share (public)');
 
     // 404 handler (must be before error handler)
     app.use(notFound);
@@ -287,6 +302,8 @@ const startServer = async () => {
           auditService.cleanupOldAuditLogs(90), // Keep 90 days
           PasswordResetService.cleanupExpiredTokens(),
           cleanupRateLimits(),
+          analysisHistoryService.purgeExpired(),
+          webhookService.purgeExpired(),
         ]);
         logger.info('Cleanup tasks completed');
       } catch (error) {
@@ -294,6 +311,24 @@ const startServer = async () => {
       }
     }, 60 * 60 * 1000); // 1 hour
 
+    // Webhook retries whose backoff has elapsed
+    setInterval(async () => {
+      try {
+        await webhookService.processDue();
+      } catch (error) {
+        logger.error({ err: error }, 'Webhook retry sweep failed');
+      }
+    }, config.webhooks.sweepIntervalMs);
+
+    // Async analysis jobs stranded by a restart
+    setInterval(async () => {
+      try {
+        await analysisJobService.failStaleJobs();
+      } catch (error) {
+        logger.error({ err: error }, 'Stale analysis job sweep failed');
+      }
+    }, config.analysis.jobs.sweepIntervalMs);
+
     // Data retention cleanup (disabled for now)
     // setInterval(async () => {
     //   try {
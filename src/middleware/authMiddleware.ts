@@ -2,7 +2,11 @@ import { Request, Response, NextFunction } from 'express';
 import { TokenService } from '../services/tokenService';
 import { UserService } from '../services/userService';
 import { SessionService } from '../services/sessionService';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ApiKeyScope } from '../types/auth';
+import { readApiKey } from '../utils/apiKeys';
 import { logger } from '../utils/logger';
+import { config } from '../config';
 
 // Extend Request interface to include user
 export interface AuthRequest extends Request {
@@ -13,6 +17,11 @@ export interface AuthRequest extends Request {
     avatar?: string;
   };
   accessToken?: string;
+  // Set when the request was authenticated with an API key instead of a session JWT.
+  apiKey?: {
+    id: string;
+    scopes: ApiKeyScope[];
+  };
 }
 
 // JWT token authentication middleware
@@ -299,6 +308,79 @@ export async function authenticateToken(
   }
 }
 
+/**
+ * Accepts an API key (`X-API-Key` or `Authorization: Bearer aor_...`) holding `scope`, or
+ * falls back to `authenticateToken`. `req.user` is the key owner either way, so quota,
+ * rate limits and history stay on the owner's account.
+ */
+export function authenticateTokenOrApiKey(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rawKey = readApiKey(req.headers.authorization, req.headers['x-api-key']);
+    if (!rawKey) {
+      return authenticateToken(req, res, next);
+    }
+
+    try {
+      const apiKey = await ApiKeyService.verify(rawKey);
+      if (!apiKey) {
+        logger.warn({ endpoint: req.path, method: req.method, ip: req.ip }, 'Invalid API key');
+        res.status(401).json({
+          error: 'invalid_api_key',
+          message: 'Invalid or revoked API key'
+        });
+        return;
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        res.status(403).json({
+          error: 'insufficient_scope',
+          message: `API key is missing the ${scope} scope`
+        });
+        return;
+      }
+
+      const user = await UserService.findById(apiKey.userId);
+      if (!user) {
+        res.status(401).json({
+          error: 'user_not_found',
+          message: 'User not found'
+        });
+        return;
+      }
+
+      if (UserService.isUserLocked(user)) {
+        res.status(423).json({
+          error: 'account_locked',
+          message: 'Account is temporarily locked'
+        });
+        return;
+      }
+
+      (req as AuthRequest).apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+      (req as AuthRequest).user = {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatar: user.avatar,
+      };
+
+      next();
+    } catch (error) {
+      logger.error({
+        err: error,
+        endpoint: req.path,
+        method: req.method,
+        operation: 'apiKeyAuthentication'
+      }, 'API key authentication error occurred');
+
+      res.status(500).json({
+        error: 'internal_error',
+        message: 'Authentication failed'
+      });
+    }
+  };
+}
+
 // Optional authentication middleware (doesn't fail if no token)
 export async function optionalAuth(
   req: Request,
@@ -339,6 +421,14 @@ export async function optionalAuth(
   }
 }
 
+export function isAdminUser(user: AuthRequest['user']): boolean {
+  if (!user) return false;
+  return (
+    config.security.adminUserIds.includes(user.id.toLowerCase()) ||
+    Boolean(user.email && config.security.adminEmails.includes(user.email.toLowerCase()))
+  );
+}
+
 // Admin role check middleware
 export function requireAdmin(
   req: Request,
@@ -355,9 +445,13 @@ export function requireAdmin(
     return;
   }
 
-  // For now, we don't have role-based access control
-  // This is a placeholder for future implementation
-  // You would check user.role or user.permissions here
-  
+  if (!isAdminUser(authReq.user)) {
+    res.status(403).json({
+      error: 'forbidden',
+      message: 'Admin access required'
+    });
+    return;
+  }
+
   next();
 }
@@ -1,227 +1,147 @@
-import { Router, Request, Response } from 'express';
-import axios from 'axios';
-import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
-import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import express, { Router, Request, Response } from 'express';
+import {
+  authenticateToken,
+  authenticateTokenOrApiKey,
+  AuthRequest,
+  isAdminUser,
+  requireAdmin,
+} from '../middleware/authMiddleware';
 import { aiUserLimiter } from '../middleware/rateLimits';
-import { db, storage } from '../firebase';
 import { logger } from '../utils/logger';
 import { ResponseBuilder } from '../types/response';
 import { quotaService } from '../services/quotaService';
+import { DetectorError, detectorService } from '../services/detectorService';
+import { ensembleService } from '../services/ensembleService';
+import { analysisService, AnalyzeImageParams } from '../services/analysisService';
+import { analysisJobService } from '../services/analysisJobService';
+import { similarityService, SimilarityError } from '../services/similarityService';
+import { analysisHistoryService, HistoryError } from '../services/analysisHistoryService';
+import { shareService, ShareError } from '../services/shareService';
+import { feedbackService, FeedbackError } from '../services/feedbackService';
+import { reportService } from '../services/reportService';
+import { premiumService } from '../services/premiumService';
+import { videoFrameService, VideoValidationError } from '../services/videoFrameService';
+import { audioClipService, AudioValidationError } from '../services/audioClipService';
+import { videoQuotaCost } from '../config/quotaConfig';
+import type { AnalysisResult, DetectorProvider, MediaType } from '../types/analysis';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { config } from '../config';
 import { randomUUID } from 'crypto';
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_MODEL = 'gemini-3-flash-preview';
-const GEMINI_ENDPOINT = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
-
-const ANALYSIS_SCHEMA = {
-  type: 'OBJECT',
-  properties: {
-    isAI: { type: 'BOOLEAN', description: 'Whether the image is AI generated' },
-    confidenceScore: { type: 'NUMBER', description: 'Confidence score between 0 and 100' },
-    detectedModel: { type: 'STRING', description: "The likely model or 'Camera' if real" },
-    verdict: { type: 'STRING', description: 'A short forensic verdict summary' },
-    findings: {
-      type: 'ARRAY',
-      items: {
-        type: 'OBJECT',
-        properties: {
-          title: { type: 'STRING' },
-          description: { type: 'STRING' },
-          type: { type: 'STRING' },
-          status: { type: 'STRING', enum: ['alert', 'secure'] },
-        },
-        required: ['title', 'description', 'type', 'status'],
-      },
-    },
-    probabilityBreakdown: {
-      type: 'OBJECT',
-      properties: {
-        gan: { type: 'NUMBER' },
-        diffusion: { type: 'NUMBER' },
-        organic: { type: 'NUMBER' },
-      },
-      required: ['gan', 'diffusion', 'organic'],
-    },
-    technicalSpecs: {
-      type: 'OBJECT',
-      properties: {
-        dimensions: { type: 'STRING' },
-        colorSpace: { type: 'STRING' },
-        modelId: { type: 'STRING' },
-        entropy: { type: 'STRING' },
-      },
-      required: ['dimensions', 'colorSpace', 'modelId', 'entropy'],
-    },
-  },
-  required: [
-    'isAI',
-    'confidenceScore',
-    'detectedModel',
-    'verdict',
-    'findings',
-    'probabilityBreakdown',
-    'technicalSpecs',
-  ],
-};
-
-type GeminiResponse = {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string;
-      }>;
-    };
-  }>;
+type BatchItemOutcome = {
+  index: number;
+  requestId: string;
+  status: 'completed' | 'failed';
+  analysisId?: string;
+  result?: AnalysisResult;
+  error?: { code: string; message: string };
 };
 
-const extractImageData = async (params: {
-  imageBase64?: string;
-  imageUrl?: string;
-}) => {
-  if (params.imageBase64) {
-    let mimeType = 'image/jpeg';
-    let stripped = params.imageBase64;
-    if (params.imageBase64.startsWith('data:')) {
-      const [meta, data] = params.imageBase64.split(',');
-      const match = meta?.match(/^data:(.+);base64$/i);
-      mimeType = match?.[1] || 'image/jpeg';
-      stripped = data || '';
-    }
-    if (!stripped) {
-      throw new Error('imageBase64 is empty');
-    }
-    return {
-      mimeType,
-      data: stripped,
-    };
+const sendHistoryError = (
+  res: Response,
+  error: unknown,
+  fallback: { code: string; message: string },
+  log: { message: string; context: Record<string, unknown> }
+) => {
+  if (error instanceof HistoryError || error instanceof ShareError || error instanceof FeedbackError) {
+    return res.status(error.status).json(ResponseBuilder.error(error.code, error.message));
   }
-
-  if (params.imageUrl) {
-    const response = await axios.get<ArrayBuffer>(params.imageUrl, {
-      responseType: 'arraybuffer',
-    });
-    const mimeType = response.headers['content-type'] || 'image/jpeg';
-    const base64 = Buffer.from(response.data).toString('base64');
-    return { mimeType, data: base64 };
-  }
-
-  throw new Error('imageBase64 or imageUrl is required');
+  logger.error({ ...log.context, err: error }, log.message);
+  return res.status(500).json(ResponseBuilder.error(fallback.code, fallback.message));
 };
 
-const getImageExtension = (mimeType: string) => {
-  switch (mimeType) {
-    case 'image/png':
-      return 'png';
-    case 'image/webp':
-      return 'webp';
-    case 'image/gif':
-      return 'gif';
-    case 'image/jpeg':
-    case 'image/jpg':
-      return 'jpg';
-    default:
-      return 'bin';
-  }
+const getRequestId = (req: Request) => {
+  const requestIdHeader = req.headers['x-request-id'];
+  const requestIdRaw = Array.isArray(requestIdHeader) ? requestIdHeader[0] : requestIdHeader;
+  return requestIdRaw || randomUUID();
 };
 
-const uploadImageToStorage = async (params: {
-  requestId?: string;
-  userId: string;
-  analysisId: string;
-  inlineData: { mimeType: string; data: string };
-}) => {
-  const { requestId, userId, analysisId, inlineData } = params;
-  const bucket = storage.bucket();
-  const extension = getImageExtension(inlineData.mimeType);
-  const filePath = `forensic/${userId}/${analysisId}.${extension}`;
-  const file = bucket.file(filePath) as any;
-
-  if (typeof file.save !== 'function') {
-    logger.warn({ requestId, userId, filePath }, 'Storage file.save is unavailable');
-    return null;
-  }
-
-  const buffer = Buffer.from(inlineData.data, 'base64');
-  await file.save(buffer, {
-    contentType: inlineData.mimeType,
-    resumable: false,
-    metadata: { contentType: inlineData.mimeType },
-  });
-
+// Raw uploads carry their options in the query string.
+const mediaOption = (req: Request, key: string): unknown =>
+  Buffer.isBuffer(req.body) ? req.query[key] : req.body?.[key];
+
+/**
+ * Resolve the detector providers for a request, answering the request when they can't be used.
+ */
+const resolveProviders = (
+  req: Request,
+  res: Response,
+  requestId: string,
+  mediaType: MediaType = 'image'
+): DetectorProvider[] | null => {
   try {
-    const [signedUrl] = await file.getSignedUrl({
-      action: 'read',
-      expires: '01-01-2100',
-    });
-    return { url: signedUrl, path: filePath };
+    return detectorService.resolveAll(mediaOption(req, 'providers') ?? mediaOption(req, 'provider'), mediaType);
   } catch (error) {
-    logger.warn({ requestId, userId, filePath, err: error }, 'Failed to get signed URL');
-    const bucketName = typeof (bucket as any).name === 'string'
-      ? (bucket as any).name
-      : process.env.FIREBASE_STORAGE_BUCKET;
-    return bucketName ? { url: `https://storage.googleapis.com/${bucketName}/${filePath}`, path: filePath } : null;
+    const detectorError =
+      error instanceof DetectorError
+        ? error
+        : new DetectorError('config_error', 'Detector provider is not configured');
+    logger.error({ requestId, code: detectorError.code }, detectorError.message);
+    res.status(detectorError.status).json(ResponseBuilder.error(detectorError.code, detectorError.message));
+    return null;
   }
 };
 
-const normalizeStoragePath = (value?: string | null) => {
-  if (!value || typeof value !== 'string') return null;
-  const trimmed = value.trim();
-  if (!trimmed) return null;
+const buildAnalyzeParams = (
+  req: Request,
+  userId: string,
+  requestId: string,
+  providers: DetectorProvider[]
+): AnalyzeImageParams => {
+  const { imageBase64, imageUrl, title, lastMessage, language, strategy } = req.body || {};
+  return {
+    requestId,
+    userId,
+    imageBase64,
+    imageUrl,
+    title,
+    lastMessage,
+    language,
+    providers,
+    strategy: ensembleService.resolveStrategy(strategy),
+    client: { ipAddress: req.ip, userAgent: req.get('user-agent') },
+  };
+};
 
-  if (trimmed.startsWith('gs://')) {
-    const parts = trimmed.replace('gs://', '').split('/');
-    parts.shift();
-    return parts.join('/');
+// Raw clip bytes (`Content-Type: video/*` or `image/gif`) or JSON with `videoBase64`.
+const extractVideoBuffer = (req: Request): Buffer => {
+  if (Buffer.isBuffer(req.body)) {
+    return req.body;
   }
-
-  if (trimmed.includes('?')) {
-    const [beforeQuery] = trimmed.split('?');
-    if (beforeQuery) {
-      return normalizeStoragePath(beforeQuery);
-    }
+  const { videoBase64 } = req.body || {};
+  if (typeof videoBase64 !== 'string' || !videoBase64) {
+    throw new VideoValidationError('invalid_request', 'videoBase64 or a raw video body is required');
   }
-
-  if (trimmed.startsWith('http://') || trimmed.startsWith('https://')) {
-    try {
-      const parsed = new URL(trimmed);
-      if (parsed.hostname.endsWith('storage.googleapis.com')) {
-        const parts = parsed.pathname.split('/').filter(Boolean);
-        return parts.length > 1 ? parts.slice(1).join('/') : null;
-      }
-      const match = parsed.pathname.match(/\/o\/(.+)$/);
-      if (match?.[1]) {
-        return decodeURIComponent(match[1]);
-      }
-      return parsed.pathname.startsWith('/') ? parsed.pathname.slice(1) : parsed.pathname;
-    } catch {
-      return null;
-    }
-  }
-
-  return trimmed;
+  const stripped = videoBase64.startsWith('data:') ? videoBase64.slice(videoBase64.indexOf(',') + 1) : videoBase64;
+  videoFrameService.assertEncodedSize(stripped.length);
+  return Buffer.from(stripped, 'base64');
 };
 
-const resolveStoragePath = (data: { storagePath?: string; imageUrl?: string } | null | undefined) => {
-  if (!data) return null;
-  return normalizeStoragePath(data.storagePath) || normalizeStoragePath(data.imageUrl);
+// Raw clip bytes (`Content-Type: audio/*`) or JSON with `audioBase64`.
+const extractAudioBuffer = (req: Request): Buffer => {
+  if (Buffer.isBuffer(req.body)) {
+    return req.body;
+  }
+  const { audioBase64 } = req.body || {};
+  if (typeof audioBase64 !== 'string' || !audioBase64) {
+    throw new AudioValidationError('invalid_request', 'audioBase64 or a raw audio body is required');
+  }
+  const stripped = audioBase64.startsWith('data:') ? audioBase64.slice(audioBase64.indexOf(',') + 1) : audioBase64;
+  audioClipService.assertEncodedSize(stripped.length);
+  return Buffer.from(stripped, 'base64');
 };
 
 export function createAnalysisRouter(): Router {
   const r = Router();
+  // Integrations may call these with an API key; editing, deleting and sharing history stay
+  // session-only.
+  const analysisAuth = authenticateTokenOrApiKey('analysis:write');
+  const historyAuth = authenticateTokenOrApiKey('history:read');
 
   const handleDetectRequest = async (req: Request, res: Response) => {
-    const requestIdHeader = req.headers['x-request-id'];
-    const requestIdRaw = Array.isArray(requestIdHeader) ? requestIdHeader[0] : requestIdHeader;
-    const requestId = requestIdRaw || randomUUID();
+    const requestId = getRequestId(req);
     const userId = (req as AuthRequest).user?.id;
-    const { imageBase64, imageUrl, title, lastMessage, language } = req.body || {};
-
-    if (!GEMINI_API_KEY) {
-      logger.error({ requestId }, 'GEMINI_API_KEY is missing');
-      return res.status(500).json(
-        ResponseBuilder.error('config_error', 'Gemini API key is not configured')
-      );
-    }
+    const { imageBase64, imageUrl } = req.body || {};
 
     if (!userId) {
       return res.status(401).json(
@@ -229,6 +149,9 @@ export function createAnalysisRouter(): Router {
       );
     }
 
+    const providers = resolveProviders(req, res, requestId);
+    if (!providers) return;
+
     try {
       const quotaResult = await quotaService.reserveUsage(userId, requestId, 'ai_detect');
       if (!quotaResult.allowed) {
@@ -248,173 +171,469 @@ export function createAnalysisRouter(): Router {
         'Forensic analysis request received'
       );
 
-      const inlineData = await extractImageData({ imageBase64, imageUrl });
-      const analysisRef = db.collection('users').doc(userId).collection('analyze1').doc();
-      const normalizedLanguage = typeof language === 'string' ? language.toLowerCase().trim() : 'en';
-      const responseLanguage = normalizedLanguage === 'tr' ? 'tr' : 'en';
+      const outcome = await analysisService.runReserved(
+        buildAnalyzeParams(req, userId, requestId, providers)
+      );
 
-      const geminiPayload = {
-        contents: [
+      const quotaSnapshot = await quotaService.getQuotaSnapshot(userId);
+      return res.json(
+        ResponseBuilder.success(
           {
-            parts: [
-              {
-                text:
-                  responseLanguage === 'tr'
-                    ? 'Dünya çapında bir adli görüntü analiz uzmanı gibi davran. Verilen görseli yapay zeka üretim izleri (GAN desenleri, diffusion gürültüsü, yapay ışık, piksel düzeyinde entropi sapmaları, metadata anomalileri) açısından analiz et. Yanıtı JSON formatında, ayrıntılı teknik bir adli rapor olarak TÜRKÇE döndür.'
-                    : 'Act as a world-class forensic image analyst. Analyze the provided image for AI generation artifacts (GAN patterns, diffusion noise, unnatural lighting, pixel-level entropy deviations, metadata anomalies). Provide a detailed technical forensic report in JSON format in ENGLISH.',
-              },
-              { inlineData: { mimeType: inlineData.mimeType, data: inlineData.data } },
-            ],
+            analysisId: outcome.analysisId,
+            result: outcome.result,
+            cached: outcome.cached,
+            quota: quotaSnapshot,
           },
-        ],
-        generationConfig: {
-          responseMimeType: 'application/json',
-          responseSchema: ANALYSIS_SCHEMA,
-        },
-      };
-
-      logger.info(
-        { requestId, userId, imageBytes: inlineData.data.length },
-        'Gemini request prepared'
+          'Analysis completed'
+        )
       );
-
-      const geminiResponse = await axios.post<GeminiResponse>(
-        `${GEMINI_ENDPOINT}?key=${GEMINI_API_KEY}`,
-        geminiPayload,
-        { headers: { 'Content-Type': 'application/json' } }
+    } catch (error: any) {
+      const failure = analysisService.describeFailure(error);
+      if (failure.code === 'NOT_FOUND' || failure.code === 'INTERNAL_ERROR') {
+        return res.status(failure.status).json({
+          code: failure.code,
+          message: failure.message,
+        });
+      }
+      logger.error(
+        { requestId, userId, error: error?.message ?? error },
+        'Forensic analysis failed'
+      );
+      return res.status(failure.status).json(
+        ResponseBuilder.error(failure.code, failure.message)
       );
+    }
+  };
 
-      const geminiText =
-        geminiResponse.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      const parsedResult = JSON.parse(geminiText);
+  r.post('/forensic', analysisAuth, aiUserLimiter, handleDetectRequest);
+  r.post('/detect', analysisAuth, aiUserLimiter, handleDetectRequest);
 
-      logger.info(
-        { requestId, userId, hasResult: Boolean(parsedResult) },
-        'Gemini analysis completed'
-      );
+  r.post(
+    '/video',
+    analysisAuth,
+    aiUserLimiter,
+    express.raw({ type: ['video/*', 'image/gif'], limit: config.analysis.video.maxBytes }),
+    async (req, res) => {
+      const requestId = getRequestId(req);
+      const userId = (req as AuthRequest).user?.id;
 
-      const storedImage = await uploadImageToStorage({
-        requestId,
-        userId,
-        analysisId: analysisRef.id,
-        inlineData,
-      });
+      if (!userId) {
+        return res.status(401).json(
+          ResponseBuilder.error('access_denied', 'Authentication required')
+        );
+      }
 
-      const now = new Date();
-      const analysisDoc = {
-        analysisId: analysisRef.id,
-        userId,
-        imageUrl: storedImage?.url || null,
-        storagePath: storedImage?.path || null,
-        sourceImageUrl: typeof imageUrl === 'string' ? imageUrl : null,
-        language: responseLanguage,
-        result: parsedResult,
-        createdAt: now,
-        updatedAt: now,
-        timestamp: now,
-        deleted: false,
-        deletedAt: null,
-        favorites: false,
-        hasChatTitle: Boolean(title),
-        lastMessage: typeof lastMessage === 'string' ? lastMessage : '',
-        title: typeof title === 'string' ? title : '',
-      };
-
-      await analysisRef.set(analysisDoc);
-
-      const userRef = db.collection('users').doc(userId);
-      const userSnap = await userRef.get();
-      const currentCount = (userSnap.data() as any)?.analyze1 || 0;
-      await userRef.set({ analyze1: currentCount + 1 }, { merge: true });
+      const providers = resolveProviders(req, res, requestId);
+      if (!providers) return;
 
       try {
-        await quotaService.commitUsage(userId, requestId);
-      } catch (commitError) {
-        logger.warn({ err: commitError, userId, requestId }, 'Failed to commit quota usage');
+        const video = await videoFrameService.sample(extractVideoBuffer(req), requestId);
+        const quotaCost = videoQuotaCost(video.frames.length);
+        const quotaResult = await quotaService.reserveUsage(userId, requestId, 'ai_video_detect', quotaCost);
+        if (!quotaResult.allowed) {
+          return res.status(429).json(
+            ResponseBuilder.error('QUOTA_EXCEEDED', 'Quota limit reached', {
+              remaining: quotaResult.remaining,
+              required: quotaCost,
+            })
+          );
+        }
+        logger.info(
+          { requestId, userId, format: video.format, frames: video.frames.length, quotaCost },
+          'Video analysis request received'
+        );
+
+        const outcome = await analysisService.runReservedVideo({
+          requestId,
+          userId,
+          video,
+          title: mediaOption(req, 'title'),
+          lastMessage: mediaOption(req, 'lastMessage'),
+          language: mediaOption(req, 'language'),
+          providers,
+          strategy: ensembleService.resolveStrategy(mediaOption(req, 'strategy')),
+          quotaCost,
+        });
+
+        const quotaSnapshot = await quotaService.getQuotaSnapshot(userId);
+        return res.json(
+          ResponseBuilder.success(
+            {
+              analysisId: outcome.analysisId,
+              result: outcome.result,
+              timeline: outcome.timeline,
+              video: {
+                format: video.format,
+                durationSeconds: video.probe.durationSeconds,
+                sampledFrames: video.frames.length,
+              },
+              quotaCost,
+              quota: quotaSnapshot,
+            },
+            'Video analysis completed'
+          )
+        );
+      } catch (error: any) {
+        const failure = analysisService.describeFailure(error);
+        logger.error(
+          { requestId, userId, error: error?.message ?? error },
+          'Video analysis failed'
+        );
+        return res.status(failure.status).json(
+          ResponseBuilder.error(failure.code, failure.message)
+        );
       }
+    }
+  );
 
-      const quotaSnapshot = await quotaService.getQuotaSnapshot(userId);
-      return res.json(
+  r.post(
+    '/audio',
+    analysisAuth,
+    aiUserLimiter,
+    express.raw({ type: ['audio/*'], limit: config.analysis.audio.maxBytes }),
+    async (req, res) => {
+      const requestId = getRequestId(req);
+      const userId = (req as AuthRequest).user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          ResponseBuilder.error('access_denied', 'Authentication required')
+        );
+      }
+
+      const providers = resolveProviders(req, res, requestId, 'audio');
+      if (!providers) return;
+
+      try {
+        const audio = await audioClipService.prepare(extractAudioBuffer(req), requestId);
+        const quotaResult = await quotaService.reserveUsage(userId, requestId, 'ai_audio_detect');
+        if (!quotaResult.allowed) {
+          return res.status(429).json(
+            ResponseBuilder.error('QUOTA_EXCEEDED', 'Quota limit reached', {
+              remaining: quotaResult.remaining,
+            })
+          );
+        }
+        logger.info(
+          { requestId, userId, format: audio.format, durationSeconds: audio.probe.durationSeconds },
+          'Audio analysis request received'
+        );
+
+        const outcome = await analysisService.runReservedAudio({
+          requestId,
+          userId,
+          audio,
+          title: mediaOption(req, 'title'),
+          lastMessage: mediaOption(req, 'lastMessage'),
+          language: mediaOption(req, 'language'),
+          providers,
+          strategy: ensembleService.resolveStrategy(mediaOption(req, 'strategy')),
+        });
+
+        const quotaSnapshot = await quotaService.getQuotaSnapshot(userId);
+        return res.json(
+          ResponseBuilder.success(
+            {
+              analysisId: outcome.analysisId,
+              mediaType: 'audio',
+              result: outcome.result,
+              audio: {
+                format: audio.format,
+                durationSeconds: audio.probe.durationSeconds,
+              },
+              quota: quotaSnapshot,
+            },
+            'Audio analysis completed'
+          )
+        );
+      } catch (error: any) {
+        const failure = analysisService.describeFailure(error);
+        logger.error(
+          { requestId, userId, error: error?.message ?? error },
+          'Audio analysis failed'
+        );
+        return res.status(failure.status).json(
+          ResponseBuilder.error(failure.code, failure.message)
+        );
+      }
+    }
+  );
+
+  r.post('/jobs', analysisAuth, aiUserLimiter, async (req, res) => {
+    const requestId = getRequestId(req);
+    const userId = (req as AuthRequest).user?.id;
+    const { imageBase64, imageUrl } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('access_denied', 'Authentication required')
+      );
+    }
+    if (!imageBase64 && !imageUrl) {
+      return res.status(400).json(
+        ResponseBuilder.error('invalid_request', 'imageBase64 or imageUrl is required')
+      );
+    }
+
+    const providers = resolveProviders(req, res, requestId);
+    if (!providers) return;
+
+    try {
+      const quotaResult = await quotaService.reserveUsage(userId, requestId, 'ai_detect');
+      if (!quotaResult.allowed) {
+        return res.status(429).json(
+          ResponseBuilder.error('QUOTA_EXCEEDED', 'Quota limit reached', {
+            remaining: quotaResult.remaining,
+          })
+        );
+      }
+
+      const job = await analysisJobService.createJob(
+        buildAnalyzeParams(req, userId, requestId, providers)
+      );
+
+      return res.status(202).json(
         ResponseBuilder.success(
-          {
-            analysisId: analysisRef.id,
-            result: parsedResult,
-            quota: quotaSnapshot,
-          },
-          'Analysis completed'
+          { jobId: job.id, requestId, status: job.status, remaining: quotaResult.remaining },
+          'Analysis job queued'
         )
       );
     } catch (error: any) {
-      if (userId) {
-        try {
-          await quotaService.rollbackUsage(userId, requestId);
-        } catch (releaseError) {
-          logger.warn({ err: releaseError, userId }, 'Failed to release quota after analysis failure');
-        }
-      }
-      const status = error?.response?.status;
-      if (status === 404) {
-        return res.status(404).json({
-          code: 'NOT_FOUND',
-          message: 'Not found',
-        });
-      }
-      if (status === 500) {
-        return res.status(500).json({
-          code: 'INTERNAL_ERROR',
-          message: 'Internal server error',
-        });
+      try {
+        await quotaService.rollbackUsage(userId, requestId);
+      } catch (releaseError) {
+        logger.warn({ err: releaseError, userId }, 'Failed to release quota after job creation failure');
       }
       logger.error(
         { requestId, userId, error: error?.message ?? error },
-        'Forensic analysis failed'
+        'Failed to queue analysis job'
       );
       return res.status(500).json(
-        ResponseBuilder.error('analysis_failed', 'Failed to analyze image')
+        ResponseBuilder.error('job_create_failed', 'Failed to queue analysis job')
+      );
+    }
+  });
+
+  r.get('/jobs/:id', analysisAuth, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('access_denied', 'Authentication required')
       );
     }
-  };
 
-  r.post('/forensic', authenticateToken, aiUserLimiter, handleDetectRequest);
-  r.post('/detect', authenticateToken, aiUserLimiter, handleDetectRequest);
+    try {
+      const job = await analysisJobService.getJob(id, userId);
+      if (!job) {
+        return res.status(404).json(
+          ResponseBuilder.error('NOT_FOUND', 'Analysis job not found')
+        );
+      }
+      return res.json(ResponseBuilder.success(job));
+    } catch (error) {
+      logger.error({ err: error, jobId: id, userId }, 'Failed to fetch analysis job');
+      return res
+        .status(500)
+        .json(ResponseBuilder.error('job_fetch_failed', 'Failed to load analysis job'));
+    }
+  });
 
-  r.get('/history', authenticateToken, aiUserLimiter, async (req, res) => {
-    const requestIdHeader = req.headers['x-request-id'];
-    const requestId = Array.isArray(requestIdHeader) ? requestIdHeader[0] : requestIdHeader;
+  r.post('/batch', analysisAuth, aiUserLimiter, async (req, res) => {
+    const requestId = getRequestId(req);
     const userId = (req as AuthRequest).user?.id;
-    const limit = Math.min(Number(req.query.limit || 50), 100);
+    const items = req.body?.items;
 
     if (!userId) {
       return res.status(401).json(
         ResponseBuilder.error('access_denied', 'Authentication required')
       );
     }
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json(
+        ResponseBuilder.error('invalid_request', 'items must be a non-empty array')
+      );
+    }
+    if (items.length > config.analysis.batch.maxItems) {
+      return res.status(400).json(
+        ResponseBuilder.error('batch_too_large', 'Too many items in batch', {
+          maxItems: config.analysis.batch.maxItems,
+        })
+      );
+    }
+
+    const providers = resolveProviders(req, res, requestId);
+    if (!providers) return;
+
+    logger.info({ requestId, userId, itemCount: items.length }, 'Batch analysis request received');
+
+    const outcomes = await mapWithConcurrency(
+      items,
+      config.analysis.batch.concurrency,
+      async (item: any, index: number): Promise<BatchItemOutcome> => {
+        const itemRequestId = `${requestId}:${index}`;
+        if (!item?.imageBase64 && !item?.imageUrl) {
+          return {
+            index,
+            requestId: itemRequestId,
+            status: 'failed',
+            error: { code: 'invalid_request', message: 'imageBase64 or imageUrl is required' },
+          };
+        }
 
+        try {
+          const quotaResult = await quotaService.reserveUsage(userId, itemRequestId, 'ai_detect');
+          if (!quotaResult.allowed) {
+            return {
+              index,
+              requestId: itemRequestId,
+              status: 'failed',
+              error: { code: 'QUOTA_EXCEEDED', message: 'Quota limit reached' },
+            };
+          }
+
+          const outcome = await analysisService.runReserved({
+            ...buildAnalyzeParams(req, userId, itemRequestId, providers),
+            imageBase64: item.imageBase64,
+            imageUrl: item.imageUrl,
+            title: item.title,
+            lastMessage: item.lastMessage,
+          });
+          return {
+            index,
+            requestId: itemRequestId,
+            status: 'completed',
+            analysisId: outcome.analysisId,
+            result: outcome.result,
+          };
+        } catch (error: any) {
+          const failure = analysisService.describeFailure(error);
+          logger.warn(
+            { requestId: itemRequestId, userId, error: error?.message ?? error },
+            'Batch item analysis failed'
+          );
+          return {
+            index,
+            requestId: itemRequestId,
+            status: 'failed',
+            error: { code: failure.code, message: failure.message },
+          };
+        }
+      }
+    );
+
+    const results = outcomes.filter((outcome) => outcome.status === 'completed');
+    const failures = outcomes.filter((outcome) => outcome.status === 'failed');
+    logger.info(
+      { requestId, userId, completed: results.length, failed: failures.length },
+      'Batch analysis finished'
+    );
+
+    let quotaSnapshot = null;
     try {
-      const snapshot = await db
-        .collection('users')
-        .doc(userId)
-        .collection('analyze1')
-        .orderBy('createdAt', 'desc')
-        .limit(limit)
-        .get();
+      quotaSnapshot = await quotaService.getQuotaSnapshot(userId);
+    } catch (error) {
+      logger.warn({ err: error, userId }, 'Failed to load quota snapshot after batch');
+    }
+
+    return res.json(
+      ResponseBuilder.success(
+        { requestId, results, failures, quota: quotaSnapshot },
+        'Batch analysis completed'
+      )
+    );
+  });
 
-      const items = snapshot.docs.map((doc: QueryDocumentSnapshot) => doc.data());
+  r.get('/similar/:id', historyAuth, aiUserLimiter, async (req, res) => {
+    const authReq = req as AuthRequest;
+    const userId = authReq.user?.id;
+    const { id } = req.params;
+    const allUsers = req.query.scope === 'all';
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('access_denied', 'Authentication required')
+      );
+    }
+    // Admin rights come with a session, never with an API key.
+    if (allUsers && (authReq.apiKey || !isAdminUser(authReq.user))) {
+      return res.status(403).json(
+        ResponseBuilder.error('forbidden', 'Admin access required for cross-user lookup')
+      );
+    }
+
+    try {
+      const matches = await similarityService.findSimilar(userId, id, {
+        allUsers,
+        maxDistance: req.query.maxDistance !== undefined ? Number(req.query.maxDistance) : undefined,
+        limit: req.query.limit !== undefined ? Number(req.query.limit) : undefined,
+      });
+      return res.json(ResponseBuilder.success(matches, 'Similar analyses loaded'));
+    } catch (error) {
+      if (error instanceof SimilarityError) {
+        return res.status(error.status).json(ResponseBuilder.error(error.code, error.message));
+      }
+      logger.error({ err: error, analysisId: id, userId }, 'Failed to find similar analyses');
+      return res
+        .status(500)
+        .json(ResponseBuilder.error('similar_failed', 'Failed to load similar analyses'));
+    }
+  });
+
+  r.get('/history', historyAuth, aiUserLimiter, async (req, res) => {
+    const requestId = getRequestId(req);
+    const userId = (req as AuthRequest).user?.id;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('access_denied', 'Authentication required')
+      );
+    }
+
+    try {
+      const filters = analysisHistoryService.parseFilters(req.query as Record<string, unknown>);
+      const limit = analysisHistoryService.parseLimit(req.query.limit);
+      const history = await analysisHistoryService.list(userId, filters, limit, req.query.cursor);
 
       logger.info(
-        { requestId, userId, count: items.length },
+        { requestId, userId, count: history.items.length, hasNext: Boolean(history.nextCursor) },
         'Analysis history fetched'
       );
 
-      return res.json(ResponseBuilder.success(items, 'History loaded'));
-    } catch (error: any) {
-      logger.error(
-        { requestId, userId, error: error?.message ?? error },
-        'Failed to fetch analysis history'
+      return res.json(
+        ResponseBuilder.cursorPaginated(history.items, limit, history.total, history.nextCursor)
+      );
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'history_failed', message: 'Failed to load history' },
+        { message: 'Failed to fetch analysis history', context: { requestId, userId } }
+      );
+    }
+  });
+
+  r.patch('/history/:id', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const item = await analysisHistoryService.update(userId, id, req.body || {});
+      return res.json(ResponseBuilder.success(item, 'History item updated'));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'UPDATE_FAILED', message: 'History item could not be updated' },
+        { message: 'Failed to update history item', context: { historyId: id, userId } }
       );
-      return res
-        .status(500)
-        .json(ResponseBuilder.error('history_failed', 'Failed to load history'));
     }
   });
 
@@ -438,64 +657,240 @@ export function createAnalysisRouter(): Router {
       }
 
       try {
-        const docRef = db.collection('users').doc(userId).collection('analyze1').doc(id);
-        const docSnap = await docRef.get();
-        if (!docSnap.exists) {
-          return res.status(404).json(
-            ResponseBuilder.error('NOT_FOUND', 'History item not found')
-          );
-        }
-        const data = docSnap.data() as { userId?: string; storagePath?: string; imageUrl?: string } | undefined;
-        if (data?.userId && data.userId !== userId) {
-          return res.status(404).json(
-            ResponseBuilder.error('NOT_FOUND', 'History item not found')
-          );
+        if (req.query.permanent === 'true') {
+          await analysisHistoryService.purge(userId, id);
+          return res.json(ResponseBuilder.success({ id, deleted: true, permanent: true }));
         }
+        const outcome = await analysisHistoryService.softDelete(userId, id);
+        return res.json(ResponseBuilder.success({ id, deleted: true, restoreUntil: outcome.restoreUntil }));
+      } catch (error) {
+        return sendHistoryError(
+          res,
+          error,
+          { code: 'DELETE_FAILED', message: 'History item could not be deleted' },
+          { message: 'Failed to delete history item', context: { historyId: id, userId } }
+        );
+      }
+    }
+  );
 
-        const storagePath = resolveStoragePath(data);
-        if (storagePath) {
-          const candidatePaths = new Set<string>();
-          candidatePaths.add(storagePath);
-          if (/\.[^/.]+$/.test(storagePath)) {
-            candidatePaths.add(storagePath.replace(/\.[^/.]+$/, ''));
-          } else {
-            ['jpg', 'jpeg', 'png', 'webp'].forEach((ext) => {
-              candidatePaths.add(`${storagePath}.${ext}`);
-            });
-          }
+  r.post('/history/:id/restore', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
 
-          let deleted = false;
-          for (const path of candidatePaths) {
-            try {
-              await storage.bucket().file(path).delete();
-              deleted = true;
-              break;
-            } catch (error: any) {
-              const code = error?.code;
-              const reason = error?.errors?.[0]?.reason;
-              if (code === 404 || reason === 'notFound') {
-                continue;
-              }
-              logger.warn({ err: error, storagePath: path, userId }, 'Failed to delete analysis storage object');
-              break;
-            }
-          }
-          if (!deleted) {
-            logger.warn({ storagePath, userId }, 'Analysis storage object not found');
-          }
-        }
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const item = await analysisHistoryService.restore(userId, id);
+      return res.json(ResponseBuilder.success(item, 'History item restored'));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'RESTORE_FAILED', message: 'History item could not be restored' },
+        { message: 'Failed to restore history item', context: { historyId: id, userId } }
+      );
+    }
+  });
 
-        await docRef.delete();
+  r.post('/history/:id/feedback', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
 
-        return res.json(ResponseBuilder.success({ id, deleted: true }));
-      } catch (error) {
-        logger.error({ err: error, historyId: id }, 'Failed to delete history item');
-        return res
-          .status(500)
-          .json(ResponseBuilder.error('DELETE_FAILED', 'History item could not be deleted'));
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const feedback = await feedbackService.submit(userId, id, req.body || {});
+      return res.json(ResponseBuilder.success(feedback, 'Feedback recorded'));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'FEEDBACK_FAILED', message: 'Feedback could not be recorded' },
+        { message: 'Failed to record verdict feedback', context: { historyId: id, userId } }
+      );
+    }
+  });
+
+  // Admin only: the labeled dataset as JSONL, one manifest record per line.
+  r.get('/feedback/export', authenticateToken, requireAdmin, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    let filters;
+    try {
+      filters = feedbackService.parseExportFilters(req.query as Record<string, unknown>);
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'EXPORT_FAILED', message: 'Dataset could not be exported' },
+        { message: 'Invalid dataset export request', context: { userId } }
+      );
+    }
+
+    // Headers are only flushed with the first row, so an early failure can still answer JSON.
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="feedback-dataset-${new Date().toISOString().slice(0, 10)}.jsonl"`
+    );
+    res.setHeader('Cache-Control', 'no-store');
+
+    let rows = 0;
+    try {
+      for await (const record of feedbackService.manifest(filters)) {
+        res.write(`${JSON.stringify(record)}\n`);
+        rows += 1;
       }
+      logger.info({ userId, rows, filters }, 'Feedback dataset exported');
+      return res.end();
+    } catch (error) {
+      logger.error({ err: error, userId, rows }, 'Failed to export feedback dataset');
+      if (res.headersSent) {
+        // Abort without the final chunk so the client sees a failed transfer, not a short but complete file.
+        return res.destroy(error as Error);
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      return res.status(500).json(ResponseBuilder.error('EXPORT_FAILED', 'Dataset could not be exported'));
     }
-  );
+  });
+
+  r.get('/history/:id/report.pdf', historyAuth, aiUserLimiter, async (req, res) => {
+    const authReq = req as AuthRequest;
+    const userId = authReq.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const premium = await premiumService.getStatus(userId);
+      if (premium?.premium !== true && !isAdminUser(authReq.user)) {
+        return res.status(403).json(
+          ResponseBuilder.error('premium_required', 'PDF reports are available on paid plans')
+        );
+      }
+
+      const report = await reportService.render(userId, id, { locale: req.query.lang });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`);
+      res.setHeader('Content-Language', report.locale);
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.send(report.buffer);
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'REPORT_FAILED', message: 'Report could not be generated' },
+        { message: 'Failed to render analysis report', context: { historyId: id, userId } }
+      );
+    }
+  });
+
+  r.get('/history/:id/overlay.png', historyAuth, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const overlay = await reportService.renderOverlay(userId, id);
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.send(overlay);
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'OVERLAY_FAILED', message: 'Overlay could not be rendered' },
+        { message: 'Failed to render region overlay', context: { historyId: id, userId } }
+      );
+    }
+  });
+
+  r.post('/history/:id/share', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const link = await shareService.create(userId, id, { expiresInDays: req.body?.expiresInDays });
+      return res.status(201).json(ResponseBuilder.success(link, 'Share link created'));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'SHARE_FAILED', message: 'Share link could not be created' },
+        { message: 'Failed to create share link', context: { historyId: id, userId } }
+      );
+    }
+  });
+
+  r.get('/history/:id/shares', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const links = await shareService.list(userId, id);
+      return res.json(ResponseBuilder.success(links));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'SHARE_LIST_FAILED', message: 'Share links could not be loaded' },
+        { message: 'Failed to list share links', context: { historyId: id, userId } }
+      );
+    }
+  });
+
+  r.delete('/history/:id/shares/:shareId', authenticateToken, aiUserLimiter, async (req, res) => {
+    const userId = (req as AuthRequest).user?.id;
+    const { id, shareId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json(
+        ResponseBuilder.error('unauthorized', 'Authentication required')
+      );
+    }
+
+    try {
+      const link = await shareService.revoke(userId, id, shareId);
+      return res.json(ResponseBuilder.success(link, 'Share link revoked'));
+    } catch (error) {
+      return sendHistoryError(
+        res,
+        error,
+        { code: 'REVOKE_FAILED', message: 'Share link could not be revoked' },
+        { message: 'Failed to revoke share link', context: { historyId: id, shareId, userId } }
+      );
+    }
+  });
 
   return r;
 }
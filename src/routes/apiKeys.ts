@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { aiUserLimiter } from '../middleware/rateLimits';
+import { logger } from '../utils/logger';
+import { ResponseBuilder } from '../types/response';
+import { ApiKeyService, ApiKeyError } from '../services/apiKeyService';
+import { auditService } from '../services/auditService';
+
+const sendApiKeyError = (
+  res: Response,
+  error: unknown,
+  fallback: { code: string; message: string },
+  log: { message: string; context: Record<string, unknown> }
+) => {
+  if (error instanceof ApiKeyError) {
+    return res.status(error.status).json(ResponseBuilder.error(error.code, error.message));
+  }
+  logger.error({ ...log.context, err: error }, log.message);
+  return res.status(500).json(ResponseBuilder.error(fallback.code, fallback.message));
+};
+
+/**
+ * API keys for server-to-server access to the analysis endpoints. Managed with a session
+ * JWT only, so a leaked key cannot mint or revoke keys.
+ */
+export function createApiKeyRouter(): Router {
+  const router = Router();
+
+  const requireUser = (req: Request, res: Response): string | null => {
+    const userId = (req as AuthRequest).user?.id;
+    if (!userId) {
+      res.status(401).json(ResponseBuilder.error('access_denied', 'Authentication required'));
+      return null;
+    }
+    return userId;
+  };
+
+  /**
+   * Body: `{ name, scopes }`. The key itself is only in this response.
+   */
+  router.post('/', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      const { apiKey, key } = await ApiKeyService.create(userId, req.body || {});
+      await auditService.logUserAction(userId, 'api_key_created', {
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+        ipAddress: req.ip,
+      });
+      return res.status(201).json(ResponseBuilder.success({ apiKey, key }, 'API key created'));
+    } catch (error) {
+      return sendApiKeyError(
+        res,
+        error,
+        { code: 'API_KEY_CREATE_FAILED', message: 'API key could not be created' },
+        { message: 'Failed to create API key', context: { userId } }
+      );
+    }
+  });
+
+  router.get('/', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      const apiKeys = await ApiKeyService.listByUser(userId);
+      return res.json(ResponseBuilder.success({ apiKeys }));
+    } catch (error) {
+      return sendApiKeyError(
+        res,
+        error,
+        { code: 'API_KEY_LIST_FAILED', message: 'API keys could not be loaded' },
+        { message: 'Failed to list API keys', context: { userId } }
+      );
+    }
+  });
+
+  router.delete('/:id', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+    const { id } = req.params;
+
+    try {
+      const apiKey = await ApiKeyService.revoke(userId, id);
+      await auditService.logUserAction(userId, 'api_key_revoked', {
+        apiKeyId: id,
+        ipAddress: req.ip,
+      });
+      return res.json(ResponseBuilder.success(apiKey, 'API key revoked'));
+    } catch (error) {
+      return sendApiKeyError(
+        res,
+        error,
+        { code: 'API_KEY_REVOKE_FAILED', message: 'API key could not be revoked' },
+        { message: 'Failed to revoke API key', context: { userId, apiKeyId: id } }
+      );
+    }
+  });
+
+  return router;
+}
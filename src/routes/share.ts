@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { ResponseBuilder } from '../types/response';
+import { shareService, ShareError } from '../services/shareService';
+
+// Thumbnails are served from signed storage URLs; nothing else may load on the page.
+const HTML_CSP = "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'";
+
+export function createShareRouter(): Router {
+  const router = Router();
+
+  /**
+   * Public, unauthenticated verdict for a share link. JSON by default; HTML with
+   * `?format=html` or when the client prefers `text/html` (browsers, link previews).
+   */
+  router.get('/:shareId', async (req: Request, res: Response) => {
+    const wantsHtml =
+      req.query.format === 'html' ||
+      (req.query.format !== 'json' && req.accepts(['json', 'html']) === 'html');
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Robots-Tag', 'noindex');
+
+    try {
+      const verdict = await shareService.view(req.params.shareId);
+      if (wantsHtml) {
+        res.setHeader('Content-Security-Policy', HTML_CSP);
+        return res.type('html').send(shareService.renderHtml(verdict));
+      }
+      return res.json(ResponseBuilder.success(verdict));
+    } catch (error) {
+      const status = error instanceof ShareError ? error.status : 500;
+      const code = error instanceof ShareError ? error.code : 'SHARE_UNAVAILABLE';
+      const message = error instanceof ShareError ? error.message : 'Share link could not be loaded';
+      if (!(error instanceof ShareError)) {
+        logger.error({ err: error, shareId: req.params.shareId }, 'Failed to load share link');
+      }
+      if (wantsHtml) {
+        return res.status(status).type('text').send(message);
+      }
+      return res.status(status).json(ResponseBuilder.error(code, message));
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,159 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { aiUserLimiter } from '../middleware/rateLimits';
+import { logger } from '../utils/logger';
+import { ResponseBuilder } from '../types/response';
+import { webhookService, WebhookError } from '../services/webhookService';
+
+const sendWebhookError = (
+  res: Response,
+  error: unknown,
+  fallback: { code: string; message: string },
+  log: { message: string; context: Record<string, unknown> }
+) => {
+  if (error instanceof WebhookError) {
+    return res.status(error.status).json(ResponseBuilder.error(error.code, error.message));
+  }
+  logger.error({ ...log.context, err: error }, log.message);
+  return res.status(500).json(ResponseBuilder.error(fallback.code, fallback.message));
+};
+
+/**
+ * Per-account callback URL for analysis results (`analysis.completed`, `analysis.failed`)
+ * and its delivery log.
+ */
+export function createWebhookRouter(): Router {
+  const router = Router();
+
+  const requireUser = (req: Request, res: Response): string | null => {
+    const userId = (req as AuthRequest).user?.id;
+    if (!userId) {
+      res.status(401).json(ResponseBuilder.error('access_denied', 'Authentication required'));
+      return null;
+    }
+    return userId;
+  };
+
+  router.get('/endpoint', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      return res.json(ResponseBuilder.success(await webhookService.get(userId)));
+    } catch (error) {
+      return sendWebhookError(
+        res,
+        error,
+        { code: 'WEBHOOK_FETCH_FAILED', message: 'Webhook endpoint could not be loaded' },
+        { message: 'Failed to load webhook endpoint', context: { userId } }
+      );
+    }
+  });
+
+  /**
+   * Body: `{ url, events?, enabled? }`. The signing secret is only in the response that
+   * creates the endpoint (and in secret rotations).
+   */
+  router.put('/endpoint', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      const { endpoint, secret } = await webhookService.configure(userId, req.body || {});
+      return res
+        .status(secret ? 201 : 200)
+        .json(
+          ResponseBuilder.success(
+            { endpoint, ...(secret ? { secret } : {}) },
+            secret ? 'Webhook endpoint registered' : 'Webhook endpoint updated'
+          )
+        );
+    } catch (error) {
+      return sendWebhookError(
+        res,
+        error,
+        { code: 'WEBHOOK_UPDATE_FAILED', message: 'Webhook endpoint could not be saved' },
+        { message: 'Failed to save webhook endpoint', context: { userId } }
+      );
+    }
+  });
+
+  router.delete('/endpoint', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      await webhookService.remove(userId);
+      return res.json(ResponseBuilder.success(null, 'Webhook endpoint removed'));
+    } catch (error) {
+      return sendWebhookError(
+        res,
+        error,
+        { code: 'WEBHOOK_DELETE_FAILED', message: 'Webhook endpoint could not be removed' },
+        { message: 'Failed to remove webhook endpoint', context: { userId } }
+      );
+    }
+  });
+
+  router.post('/endpoint/secret', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      const rotated = await webhookService.rotateSecret(userId);
+      return res.json(ResponseBuilder.success(rotated, 'Webhook secret rotated'));
+    } catch (error) {
+      return sendWebhookError(
+        res,
+        error,
+        { code: 'WEBHOOK_ROTATE_FAILED', message: 'Webhook secret could not be rotated' },
+        { message: 'Failed to rotate webhook secret', context: { userId } }
+      );
+    }
+  });
+
+  router.get('/deliveries', authenticateToken, aiUserLimiter, async (req: Request, res: Response) => {
+    const userId = requireUser(req, res);
+    if (!userId) return;
+
+    try {
+      const deliveries = await webhookService.listDeliveries(userId, {
+        status: req.query.status,
+        limit: req.query.limit,
+      });
+      return res.json(ResponseBuilder.success({ deliveries }));
+    } catch (error) {
+      return sendWebhookError(
+        res,
+        error,
+        { code: 'DELIVERY_LIST_FAILED', message: 'Webhook deliveries could not be loaded' },
+        { message: 'Failed to list webhook deliveries', context: { userId } }
+      );
+    }
+  });
+
+  router.post(
+    '/deliveries/:id/redeliver',
+    authenticateToken,
+    aiUserLimiter,
+    async (req: Request, res: Response) => {
+      const userId = requireUser(req, res);
+      if (!userId) return;
+      const { id } = req.params;
+
+      try {
+        const delivery = await webhookService.redeliver(userId, id);
+        return res.status(202).json(ResponseBuilder.success(delivery, 'Webhook delivery queued'));
+      } catch (error) {
+        return sendWebhookError(
+          res,
+          error,
+          { code: 'REDELIVER_FAILED', message: 'Webhook delivery could not be queued' },
+          { message: 'Failed to queue webhook redelivery', context: { userId, deliveryId: id } }
+        );
+      }
+    }
+  );
+
+  return router;
+}
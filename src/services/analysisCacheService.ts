@@ -0,0 +1,81 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { cacheService } from './cacheService';
+import { calibrationService } from './calibrationService';
+import { DetectionOutcome, DetectorProvider, EnsembleStrategy } from '../types/analysis';
+
+const KEY_PREFIX = 'analysis:result';
+
+export interface ImageHashes {
+  sha256: string;
+  dhash: string | null;
+}
+
+export interface CachedAnalysis {
+  analysisId: string;
+  userId: string;
+  detection: DetectionOutcome;
+  cachedAt: string;
+}
+
+export interface AnalysisCacheContext {
+  userId: string;
+  promptVersion: string;
+  schemaVersion: string;
+  providers: DetectorProvider[];
+  strategy: EnsembleStrategy;
+}
+
+class AnalysisCacheService {
+  isEnabled(): boolean {
+    return config.analysis.cache.enabled;
+  }
+
+  /**
+   * Results are only interchangeable for the same prompt (and so locale), schema, provider
+   * set and calibration parameters; the ensemble strategy matters only when several
+   * providers are merged.
+   */
+  private buildPrefix(context: AnalysisCacheContext): string {
+    const scope = config.analysis.cache.scope === 'global' ? 'global' : `user:${context.userId}`;
+    const providerKey = context.providers
+      .map((provider) => {
+        const calibration = calibrationService.versionFor(provider.name, provider.model, 'image');
+        return `${provider.name}@${provider.model}${calibration === null ? '' : `~cal${calibration}`}`;
+      })
+      .sort()
+      .join('+');
+    const strategyKey = context.providers.length > 1 ? `:${context.strategy}` : '';
+    return `${KEY_PREFIX}:${scope}:${context.promptVersion}:${context.schemaVersion}:${providerKey}${strategyKey}`;
+  }
+
+  async lookup(context: AnalysisCacheContext, hashes: ImageHashes): Promise<CachedAnalysis | null> {
+    if (!this.isEnabled()) return null;
+    const prefix = this.buildPrefix(context);
+
+    const exact = await cacheService.get<CachedAnalysis>(`${prefix}:sha256:${hashes.sha256}`);
+    if (exact) return exact;
+
+    if (config.analysis.cache.perceptual && hashes.dhash) {
+      return cacheService.get<CachedAnalysis>(`${prefix}:dhash:${hashes.dhash}`);
+    }
+    return null;
+  }
+
+  async store(context: AnalysisCacheContext, hashes: ImageHashes, entry: CachedAnalysis): Promise<void> {
+    if (!this.isEnabled()) return;
+    const prefix = this.buildPrefix(context);
+    const ttl = config.analysis.cache.ttlSeconds;
+
+    try {
+      await cacheService.set(`${prefix}:sha256:${hashes.sha256}`, entry, ttl);
+      if (config.analysis.cache.perceptual && hashes.dhash) {
+        await cacheService.set(`${prefix}:dhash:${hashes.dhash}`, entry, ttl);
+      }
+    } catch (error) {
+      logger.warn({ err: error, analysisId: entry.analysisId }, 'Failed to store analysis cache entry');
+    }
+  }
+}
+
+export const analysisCacheService = new AnalysisCacheService();
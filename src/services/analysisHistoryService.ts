@@ -0,0 +1,444 @@
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { db, storage } from '../firebase';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import { shareService } from './shareService';
+import { feedbackService } from './feedbackService';
+
+export class HistoryError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface HistoryFilters {
+  isAI?: boolean;
+  minConfidence?: number;
+  maxConfidence?: number;
+  from?: Date;
+  to?: Date;
+  favorites?: boolean;
+  language?: string;
+  includeDeleted?: boolean;
+}
+
+export interface HistoryUpdate {
+  title?: unknown;
+  favorite?: unknown;
+}
+
+export interface HistoryPage {
+  items: Record<string, any>[];
+  nextCursor: string | null;
+  total: number;
+}
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 50;
+// Upper bound on documents read per page when the confidence filter runs in memory.
+const MAX_SCAN_FACTOR = 5;
+
+// Heavy per-analysis data (metadata dumps, per-provider verdicts, hashes) is left out of lists.
+const HISTORY_LIST_FIELDS = [
+  'analysisId',
+  'mediaType',
+  'title',
+  'hasChatTitle',
+  'lastMessage',
+  'imageUrl',
+  'mediaUrl',
+  'sourceImageUrl',
+  'language',
+  'provider',
+  'model',
+  'promptVersion',
+  'schemaVersion',
+  'result',
+  'favorites',
+  'feedback',
+  'deleted',
+  'deletedAt',
+  'purgeAfter',
+  'createdAt',
+  'updatedAt',
+];
+
+const normalizeStoragePath = (value?: string | null) => {
+  if (!value || typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('gs://')) {
+    const parts = trimmed.replace('gs://', '').split('/');
+    parts.shift();
+    return parts.join('/');
+  }
+
+  if (trimmed.includes('?')) {
+    const [beforeQuery] = trimmed.split('?');
+    if (beforeQuery) {
+      return normalizeStoragePath(beforeQuery);
+    }
+  }
+
+  if (trimmed.startsWith('http://') || trimmed.startsWith('https://')) {
+    try {
+      const parsed = new URL(trimmed);
+      if (parsed.hostname.endsWith('storage.googleapis.com')) {
+        const parts = parsed.pathname.split('/').filter(Boolean);
+        return parts.length > 1 ? parts.slice(1).join('/') : null;
+      }
+      const match = parsed.pathname.match(/\/o\/(.+)$/);
+      if (match?.[1]) {
+        return decodeURIComponent(match[1]);
+      }
+      return parsed.pathname.startsWith('/') ? parsed.pathname.slice(1) : parsed.pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  return trimmed;
+};
+
+export const resolveStoragePath = (data: { storagePath?: string; imageUrl?: string } | null | undefined) => {
+  if (!data) return null;
+  return normalizeStoragePath(data.storagePath) || normalizeStoragePath(data.imageUrl);
+};
+
+const MAX_TITLE_LENGTH = 200;
+
+const parseBoolean = (value: unknown, field: string): boolean | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  throw new HistoryError('invalid_filter', `${field} must be true or false`);
+};
+
+const parseNumber = (value: unknown, field: string, min: number, max: number): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new HistoryError('invalid_filter', `${field} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = new Date(String(value));
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HistoryError('invalid_filter', `${field} must be an ISO date`);
+  }
+  return parsed;
+};
+
+export const encodeCursor = (id: string) => Buffer.from(JSON.stringify({ id })).toString('base64url');
+
+export const decodeCursor = (cursor: unknown): string | null => {
+  if (cursor === undefined || cursor === '') return null;
+  try {
+    const { id } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (typeof id === 'string' && id) return id;
+  } catch {
+    // fall through
+  }
+  throw new HistoryError('invalid_cursor', 'Cursor is invalid');
+};
+
+class AnalysisHistoryService {
+  private collection(userId: string) {
+    return db.collection('users').doc(userId).collection('analyze1');
+  }
+
+  private async getOwned(userId: string, id: string) {
+    const ref = this.collection(userId).doc(id);
+    const snap = await ref.get();
+    const data = snap.exists ? (snap.data() as Record<string, any>) : null;
+    if (!data || (data.userId && data.userId !== userId)) {
+      throw new HistoryError('NOT_FOUND', 'History item not found', 404);
+    }
+    return { ref, data };
+  }
+
+  /**
+   * Full stored document for one of the user's analyses, including soft-deleted ones.
+   */
+  async get(userId: string, id: string): Promise<Record<string, any>> {
+    const { data } = await this.getOwned(userId, id);
+    return { ...data, analysisId: data.analysisId || id };
+  }
+
+  private restoreDeadline(deletedAt: Date) {
+    return new Date(deletedAt.getTime() + config.analysis.history.restoreWindowDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Rename and/or (un)favorite an item. Soft-deleted items must be restored first.
+   */
+  async update(userId: string, id: string, changes: HistoryUpdate): Promise<Record<string, any>> {
+    const updates: Record<string, unknown> = {};
+    if (changes.title !== undefined) {
+      if (typeof changes.title !== 'string' || changes.title.trim().length > MAX_TITLE_LENGTH) {
+        throw new HistoryError('invalid_request', `title must be a string of at most ${MAX_TITLE_LENGTH} characters`);
+      }
+      updates.title = changes.title.trim();
+      updates.hasChatTitle = Boolean(changes.title.trim());
+    }
+    if (changes.favorite !== undefined) {
+      if (typeof changes.favorite !== 'boolean') {
+        throw new HistoryError('invalid_request', 'favorite must be a boolean');
+      }
+      updates.favorites = changes.favorite;
+    }
+    if (!Object.keys(updates).length) {
+      throw new HistoryError('invalid_request', 'Nothing to update: provide title and/or favorite');
+    }
+
+    const { ref, data } = await this.getOwned(userId, id);
+    if (data.deleted) {
+      throw new HistoryError('item_deleted', 'History item is deleted; restore it first', 409);
+    }
+    updates.updatedAt = new Date();
+    await ref.update(updates);
+    return { analysisId: id, title: data.title, favorites: data.favorites, ...updates };
+  }
+
+  /**
+   * Hide an item from history. It can be restored until the window ends, after which
+   * `purgeExpired` removes the document and its image.
+   */
+  async softDelete(userId: string, id: string): Promise<{ restoreUntil: Date }> {
+    const { ref, data } = await this.getOwned(userId, id);
+    if (data.deleted) {
+      const deletedAt = toDate(data.deletedAt) || new Date();
+      return { restoreUntil: toDate(data.purgeAfter) || this.restoreDeadline(deletedAt) };
+    }
+    const now = new Date();
+    const restoreUntil = this.restoreDeadline(now);
+    await ref.update({ deleted: true, deletedAt: now, purgeAfter: restoreUntil, updatedAt: now });
+    logger.info({ userId, historyId: id, restoreUntil }, 'History item soft deleted');
+    return { restoreUntil };
+  }
+
+  async restore(userId: string, id: string): Promise<Record<string, any>> {
+    const { ref, data } = await this.getOwned(userId, id);
+    if (!data.deleted) {
+      throw new HistoryError('not_deleted', 'History item is not deleted', 409);
+    }
+    const deadline = toDate(data.purgeAfter) || this.restoreDeadline(toDate(data.deletedAt) || new Date(0));
+    if (deadline.getTime() <= Date.now()) {
+      throw new HistoryError('restore_window_expired', 'The restore window for this item has ended', 410);
+    }
+    const now = new Date();
+    await ref.update({ deleted: false, deletedAt: null, purgeAfter: null, updatedAt: now });
+    logger.info({ userId, historyId: id }, 'History item restored');
+    return { analysisId: id, deleted: false, restoredAt: now };
+  }
+
+  /**
+   * Permanently delete an item, its stored image, share links and labeled feedback.
+   */
+  async purge(userId: string, id: string): Promise<void> {
+    const { ref, data } = await this.getOwned(userId, id);
+    await this.deleteStoredImage(userId, data);
+    await shareService.removeForAnalysis(userId, id);
+    await feedbackService.removeForAnalysis(userId, id);
+    await ref.delete();
+  }
+
+  /**
+   * Purge soft-deleted items whose restore window has passed. Runs from the hourly cleanup.
+   */
+  async purgeExpired(batchSize = config.analysis.history.purgeBatchSize): Promise<number> {
+    const snapshot = await db
+      .collectionGroup('analyze1')
+      .where('deleted', '==', true)
+      .where('purgeAfter', '<=', new Date())
+      .limit(batchSize)
+      .get();
+
+    let purged = 0;
+    for (const doc of snapshot.docs as QueryDocumentSnapshot[]) {
+      const data = doc.data() as Record<string, any>;
+      try {
+        await this.deleteStoredImage(data.userId, data);
+        await shareService.removeForAnalysis(data.userId, doc.id);
+        await feedbackService.removeForAnalysis(data.userId, doc.id);
+        await doc.ref.delete();
+        purged += 1;
+      } catch (error) {
+        logger.warn({ err: error, historyId: doc.id, userId: data.userId }, 'Failed to purge history item');
+      }
+    }
+    if (purged) {
+      logger.info({ purged }, 'Expired history items purged');
+    }
+    return purged;
+  }
+
+  /**
+   * Bytes of the stored (normalized) image for an analysis document, or null when missing.
+   * Voice analyses store the clip itself, so they never have an image.
+   */
+  async downloadImage(data: Record<string, any>): Promise<Buffer | null> {
+    if (data.mediaType === 'audio') return null;
+    const storagePath = resolveStoragePath(data);
+    if (!storagePath) return null;
+    try {
+      const [buffer] = await (storage.bucket().file(storagePath) as any).download();
+      return buffer;
+    } catch (error: any) {
+      if (error?.code !== 404) {
+        logger.warn({ err: error, storagePath }, 'Failed to download analysis image');
+      }
+      return null;
+    }
+  }
+
+  private async deleteStoredImage(userId: string | undefined, data: Record<string, any>) {
+    const storagePath = resolveStoragePath(data);
+    if (!storagePath) return;
+
+    const candidatePaths = new Set<string>();
+    candidatePaths.add(storagePath);
+    if (/\.[^/.]+$/.test(storagePath)) {
+      candidatePaths.add(storagePath.replace(/\.[^/.]+$/, ''));
+    } else {
+      ['jpg', 'jpeg', 'png', 'webp'].forEach((ext) => {
+        candidatePaths.add(`${storagePath}.${ext}`);
+      });
+    }
+
+    for (const path of candidatePaths) {
+      try {
+        await storage.bucket().file(path).delete();
+        return;
+      } catch (error: any) {
+        const code = error?.code;
+        const reason = error?.errors?.[0]?.reason;
+        if (code === 404 || reason === 'notFound') {
+          continue;
+        }
+        logger.warn({ err: error, storagePath: path, userId }, 'Failed to delete analysis storage object');
+        return;
+      }
+    }
+    logger.warn({ storagePath, userId }, 'Analysis storage object not found');
+  }
+
+  /**
+   * Parse history filters from a query string. Throws `invalid_filter` on bad values.
+   */
+  parseFilters(query: Record<string, unknown>): HistoryFilters {
+    const filters: HistoryFilters = {
+      isAI: parseBoolean(query.isAI, 'isAI'),
+      minConfidence: parseNumber(query.minConfidence, 'minConfidence', 0, 100),
+      maxConfidence: parseNumber(query.maxConfidence, 'maxConfidence', 0, 100),
+      from: parseDate(query.from, 'from'),
+      to: parseDate(query.to, 'to'),
+      favorites: parseBoolean(query.favorites, 'favorites'),
+      language: typeof query.language === 'string' && query.language.trim() ? query.language.trim() : undefined,
+      includeDeleted: parseBoolean(query.includeDeleted, 'includeDeleted'),
+    };
+    if (
+      filters.minConfidence !== undefined &&
+      filters.maxConfidence !== undefined &&
+      filters.minConfidence > filters.maxConfidence
+    ) {
+      throw new HistoryError('invalid_filter', 'minConfidence must not exceed maxConfidence');
+    }
+    if (filters.from && filters.to && filters.from > filters.to) {
+      throw new HistoryError('invalid_filter', 'from must not be after to');
+    }
+    return filters;
+  }
+
+  parseLimit(value: unknown): number {
+    const parsed = Number(value || DEFAULT_PAGE_SIZE);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.min(Math.floor(parsed), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Newest-first page of a user's history. Equality and date filters run in Firestore;
+   * the confidence range is applied while scanning, so a page may hold fewer than `limit`
+   * items while `nextCursor` is still set.
+   */
+  async list(userId: string, filters: HistoryFilters, limit: number, cursor?: unknown): Promise<HistoryPage> {
+    const afterId = decodeCursor(cursor);
+    let query: any = this.collection(userId);
+
+    if (!filters.includeDeleted) query = query.where('deleted', '==', false);
+    if (filters.isAI !== undefined) query = query.where('result.isAI', '==', filters.isAI);
+    if (filters.favorites !== undefined) query = query.where('favorites', '==', filters.favorites);
+    if (filters.language) query = query.where('language', '==', filters.language);
+    if (filters.from) query = query.where('createdAt', '>=', filters.from);
+    if (filters.to) query = query.where('createdAt', '<=', filters.to);
+    query = query.orderBy('createdAt', 'desc');
+
+    const countSnap = await query.count().get();
+    const storedTotal: number = countSnap.data().count;
+
+    let pageQuery = query.select(...HISTORY_LIST_FIELDS);
+    if (afterId) {
+      const anchor = await this.collection(userId).doc(afterId).get();
+      if (!anchor.exists) {
+        throw new HistoryError('invalid_cursor', 'Cursor is invalid');
+      }
+      pageQuery = pageQuery.startAfter(anchor);
+    }
+
+    const filterConfidence = filters.minConfidence !== undefined || filters.maxConfidence !== undefined;
+    const matchesConfidence = (data: Record<string, any>) => {
+      const score = Number(data?.result?.confidenceScore);
+      if (filters.minConfidence !== undefined && !(score >= filters.minConfidence)) return false;
+      if (filters.maxConfidence !== undefined && !(score <= filters.maxConfidence)) return false;
+      return true;
+    };
+
+    const items: Record<string, any>[] = [];
+    let lastScanned: QueryDocumentSnapshot | null = null;
+    let hasNext = false;
+    let scanned = 0;
+    const maxScan = filterConfidence ? limit * MAX_SCAN_FACTOR : limit;
+
+    while (items.length < limit && scanned < maxScan) {
+      const batchSize = filterConfidence ? Math.min(limit, maxScan - scanned) : limit - items.length;
+      // One document past the batch tells whether anything follows without an empty last page.
+      let batchQuery = pageQuery.limit(batchSize + 1);
+      if (lastScanned) batchQuery = batchQuery.startAfter(lastScanned);
+      const snapshot = await batchQuery.get();
+      const docs = snapshot.docs as QueryDocumentSnapshot[];
+      hasNext = docs.length > batchSize;
+
+      for (const [index, doc] of docs.slice(0, batchSize).entries()) {
+        scanned += 1;
+        lastScanned = doc;
+        // Items written before other media existed have no discriminator and are images.
+        const data = { mediaType: 'image', ...doc.data(), analysisId: doc.id };
+        if (!filterConfidence || matchesConfidence(data)) {
+          items.push(data);
+          if (items.length >= limit) {
+            hasNext = docs.length > index + 1;
+            break;
+          }
+        }
+      }
+      if (!hasNext) break;
+    }
+
+    const nextCursor = hasNext && lastScanned ? encodeCursor(lastScanned.id) : null;
+    logger.debug({ userId, scanned, returned: items.length, hasNext: Boolean(nextCursor) }, 'History page scanned');
+
+    // Without the in-memory filter the stored count is exact; with it, it is an upper bound.
+    return { items, nextCursor, total: storedTotal };
+  }
+}
+
+export const analysisHistoryService = new AnalysisHistoryService();
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import type { DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { db } from '../firebase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { analysisService, AnalyzeImageParams } from './analysisService';
+import { quotaService } from './quotaService';
+import { getWebSocketService } from './websocketService';
+import { webhookService } from './webhookService';
+import { AnalysisJobRecord } from '../types/analysis';
+
+const ANALYSIS_JOBS_COLLECTION = 'analysis_jobs';
+
+export const ANALYSIS_COMPLETED_EVENT = 'analysis:completed';
+
+const isPending = (status: AnalysisJobRecord['status']) => status === 'queued' || status === 'running';
+
+class AnalysisJobService {
+  /**
+   * Persist a queued job and start the worker in the background. The caller must have
+   * reserved quota under `params.requestId`; the worker commits or rolls it back.
+   */
+  async createJob(params: AnalyzeImageParams, jobId = randomUUID()): Promise<AnalysisJobRecord> {
+    const nowIso = new Date().toISOString();
+    const job: AnalysisJobRecord = {
+      id: jobId,
+      userId: params.userId,
+      requestId: params.requestId,
+      status: 'queued',
+      analysisId: null,
+      result: null,
+      error: null,
+      sourceImageUrl: typeof params.imageUrl === 'string' ? params.imageUrl : null,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+      startedAt: null,
+      completedAt: null,
+    };
+
+    await db.collection(ANALYSIS_JOBS_COLLECTION).doc(jobId).set(job);
+    logger.info({ jobId, userId: params.userId, requestId: params.requestId }, 'Analysis job queued');
+
+    setImmediate(() => {
+      this.process(jobId, params).catch((error) => {
+        logger.error({ err: error, jobId, userId: params.userId }, 'Analysis job worker crashed');
+      });
+    });
+
+    return job;
+  }
+
+  async getJob(jobId: string, userId: string): Promise<AnalysisJobRecord | null> {
+    const snap = await db.collection(ANALYSIS_JOBS_COLLECTION).doc(jobId).get();
+    if (!snap.exists) return null;
+    const job = snap.data() as AnalysisJobRecord;
+    return job.userId === userId ? job : null;
+  }
+
+  /**
+   * Jobs only run on the instance that queued them, so a restart or deploy strands them in
+   * `queued`/`running`. Fail the ones that have not moved for `analysis.jobs.staleAfterSeconds`
+   * and release their reservation (a no-op when the analysis had already committed it).
+   */
+  async failStaleJobs(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.analysis.jobs.staleAfterSeconds * 1000).toISOString();
+    const snapshot = await db
+      .collection(ANALYSIS_JOBS_COLLECTION)
+      .where('status', 'in', ['queued', 'running'])
+      .where('updatedAt', '<', cutoff)
+      .limit(config.analysis.jobs.sweepBatchSize)
+      .get();
+
+    let failed = 0;
+    for (const doc of snapshot.docs as QueryDocumentSnapshot[]) {
+      const completedAt = now.toISOString();
+      const error = { code: 'JOB_STALLED', message: 'Analysis job did not finish; quota was released' };
+      const job = await db.runTransaction(async (tx: Transaction) => {
+        const current = (await tx.get(doc.ref)).data() as AnalysisJobRecord | undefined;
+        if (!current || !isPending(current.status) || current.updatedAt >= cutoff) return null;
+        tx.update(doc.ref, { status: 'failed', error, completedAt, updatedAt: completedAt });
+        return current;
+      });
+      if (!job) continue;
+
+      logger.warn({ jobId: job.id, userId: job.userId, status: job.status }, 'Failing stalled analysis job');
+      await this.releaseReservation(job.userId, job.requestId);
+      this.announce(job.id, job.userId, { status: 'failed', error }, completedAt);
+      this.announceFailure(job.id, job.userId, job.requestId, error);
+      failed += 1;
+    }
+    return failed;
+  }
+
+  private async process(jobId: string, params: AnalyzeImageParams): Promise<void> {
+    const jobRef: DocumentReference = db.collection(ANALYSIS_JOBS_COLLECTION).doc(jobId);
+
+    let update: Partial<AnalysisJobRecord>;
+    let jobError: { code: string; message: string } | null = null;
+    try {
+      const startedAt = new Date().toISOString();
+      await jobRef.update({ status: 'running', startedAt, updatedAt: startedAt });
+
+      const outcome = await analysisService.runReserved(params);
+      update = {
+        status: 'completed',
+        analysisId: outcome.analysisId,
+        result: outcome.result,
+      };
+      logger.info({ jobId, userId: params.userId, analysisId: outcome.analysisId }, 'Analysis job completed');
+    } catch (error) {
+      // `runReserved` releases its own reservation, but a failure before it ran has not.
+      await this.releaseReservation(params.userId, params.requestId);
+      const failure = analysisService.describeFailure(error);
+      jobError = { code: failure.code, message: failure.message };
+      update = { status: 'failed', error: jobError };
+      logger.error(
+        { jobId, userId: params.userId, error: (error as any)?.message ?? error },
+        'Analysis job failed'
+      );
+    }
+
+    // `failStaleJobs` may have failed the job and released its quota meanwhile; a late result
+    // must not turn it into an uncharged completion.
+    const completedAt = new Date().toISOString();
+    const finished = update;
+    const applied = await db.runTransaction(async (tx: Transaction) => {
+      const current = (await tx.get(jobRef)).data() as AnalysisJobRecord | undefined;
+      const movable = finished.status === 'completed'
+        ? current?.status === 'running'
+        : Boolean(current && isPending(current.status));
+      if (!movable) return false;
+      tx.update(jobRef, { ...finished, completedAt, updatedAt: completedAt });
+      return true;
+    });
+    if (!applied) {
+      logger.warn(
+        { jobId, userId: params.userId, status: finished.status },
+        'Analysis job already settled; result dropped'
+      );
+      return;
+    }
+
+    this.announce(jobId, params.userId, update, completedAt);
+    // Completed jobs are announced by `runReserved`; failures only reach the caller here.
+    if (jobError) {
+      this.announceFailure(jobId, params.userId, params.requestId, jobError);
+    }
+  }
+
+  private async releaseReservation(userId: string, requestId: string): Promise<void> {
+    try {
+      await quotaService.rollbackUsage(userId, requestId);
+    } catch (releaseError) {
+      logger.warn({ err: releaseError, userId, requestId }, 'Failed to release quota for analysis job');
+    }
+  }
+
+  private announce(
+    jobId: string,
+    userId: string,
+    update: Partial<AnalysisJobRecord>,
+    completedAt: string
+  ): void {
+    getWebSocketService()?.sendToUser(userId, ANALYSIS_COMPLETED_EVENT, {
+      jobId,
+      status: update.status,
+      analysisId: update.analysisId ?? null,
+      result: update.result ?? null,
+      error: update.error ?? null,
+      completedAt,
+    });
+  }
+
+  private announceFailure(
+    jobId: string,
+    userId: string,
+    requestId: string,
+    error: { code: string; message: string }
+  ): void {
+    webhookService.dispatch(userId, 'analysis.failed', {
+      jobId,
+      requestId,
+      mediaType: 'image',
+      error,
+    });
+  }
+}
+
+export const analysisJobService = new AnalysisJobService();
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  ANALYSIS_PROFILES,
+  ANALYSIS_SCHEMAS,
+  AnalysisProfile,
+  AnalysisSchemaDefinition,
+} from '../config/analysisRegistry';
+import { DetectorError } from './detectorService';
+import { promptCatalogService, ResolvedPrompt } from './promptCatalogService';
+
+export interface ResolvedAnalysisProfile {
+  profile: string;
+  prompt: ResolvedPrompt;
+  schema: AnalysisSchemaDefinition;
+  // e.g. `forensic/pt-BR@1`
+  promptVersion: string;
+  // e.g. `forensic@1`
+  schemaVersion: string;
+  // 0-99 when the user fell into an experiment variant, otherwise null.
+  experimentBucket: number | null;
+}
+
+export const formatPromptVersion = (prompt: ResolvedPrompt) =>
+  `${prompt.templateId}/${prompt.locale}@${prompt.version}`;
+
+export const formatSchemaVersion = (schema: { name: string; version: number }) =>
+  `${schema.name}@${schema.version}`;
+
+// Stable per user so a user sees the same variant for the whole experiment.
+const experimentBucket = (userId: string) =>
+  parseInt(createHash('sha256').update(`analysis-profile:${userId}`).digest('hex').slice(0, 8), 16) % 100;
+
+class AnalysisRegistryService {
+  getProfile(name: string): AnalysisProfile | null {
+    return ANALYSIS_PROFILES.find((profile) => profile.name === name) || null;
+  }
+
+  getSchema(name: string, version: number): AnalysisSchemaDefinition | null {
+    return ANALYSIS_SCHEMAS.find((schema) => schema.name === name && schema.version === version) || null;
+  }
+
+  listProfiles(): AnalysisProfile[] {
+    return ANALYSIS_PROFILES;
+  }
+
+  /**
+   * Pick the profile for a user: experiment variants (`ANALYSIS_PROFILE_EXPERIMENT`,
+   * percent per profile) claim the lowest buckets, everyone else gets the default.
+   */
+  select(userId: string): { profile: AnalysisProfile; experimentBucket: number | null } {
+    const variants = Object.entries(config.analysis.profiles.experiment);
+    if (variants.length) {
+      const bucket = experimentBucket(userId);
+      let threshold = 0;
+      for (const [name, percent] of variants) {
+        threshold += percent;
+        if (bucket < threshold) {
+          const profile = this.getProfile(name);
+          if (profile) {
+            return { profile, experimentBucket: bucket };
+          }
+          logger.warn({ profile: name }, 'Unknown analysis profile in experiment config');
+          break;
+        }
+      }
+    }
+
+    const profile = this.getProfile(config.analysis.profiles.default);
+    if (!profile) {
+      throw new DetectorError(
+        'config_error',
+        `Analysis profile "${config.analysis.profiles.default}" is not registered`,
+        500
+      );
+    }
+    return { profile, experimentBucket: null };
+  }
+
+  resolve(userId: string, language?: unknown): ResolvedAnalysisProfile {
+    const { profile, experimentBucket: bucket } = this.select(userId);
+    return this.build(profile, bucket, language);
+  }
+
+  /**
+   * Resolve a fixed profile, bypassing experiments (e.g. the voice profile for audio).
+   */
+  resolveNamed(name: string, language?: unknown): ResolvedAnalysisProfile {
+    const profile = this.getProfile(name);
+    if (!profile) {
+      throw new DetectorError('config_error', `Analysis profile "${name}" is not registered`, 500);
+    }
+    return this.build(profile, null, language);
+  }
+
+  private build(profile: AnalysisProfile, bucket: number | null, language?: unknown): ResolvedAnalysisProfile {
+    const schema = this.getSchema(profile.schema.name, profile.schema.version);
+    if (!schema) {
+      throw new DetectorError(
+        'config_error',
+        `Schema "${formatSchemaVersion(profile.schema)}" for profile "${profile.name}" is not registered`,
+        500
+      );
+    }
+    const prompt = promptCatalogService.resolve(profile.promptTemplate, language);
+
+    return {
+      profile: profile.name,
+      prompt,
+      schema,
+      promptVersion: formatPromptVersion(prompt),
+      schemaVersion: formatSchemaVersion(schema),
+      experimentBucket: bucket,
+    };
+  }
+}
+
+export const analysisRegistryService = new AnalysisRegistryService();
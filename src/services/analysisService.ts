@@ -0,0 +1,674 @@
+import { db, storage } from '../firebase';
+import { logger } from '../utils/logger';
+import { quotaService } from './quotaService';
+import { DetectorError } from './detectorService';
+import { ensembleService, mergeVerdicts } from './ensembleService';
+import { ProviderUnavailableError } from './httpClient';
+import { ImageFetchContext, ImageFetchError, imageFetchService } from './imageFetchService';
+import { imageProcessingService, ImageValidationError, PreparedImage } from './imageProcessingService';
+import { analysisRegistryService } from './analysisRegistryService';
+import { analysisCacheService, ImageHashes } from './analysisCacheService';
+import { similarityBands } from './similarityService';
+import { SampledVideo, VideoValidationError } from './videoFrameService';
+import { AudioValidationError, PreparedAudio } from './audioClipService';
+import { webhookService } from './webhookService';
+import { ANALYSIS_QUOTA_CONFIG } from '../config/quotaConfig';
+import { config } from '../config';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { computeDHash, sha256Hex } from '../utils/imageHash';
+import { IMAGE_EXTENSIONS } from '../utils/imageFormat';
+import { AUDIO_EXTENSIONS } from '../utils/mediaFormat';
+import { applyMetadataEvidence, describeMetadataForPrompt } from '../utils/imageMetadata';
+import {
+  AnalysisResult,
+  DetectionOutcome,
+  DetectorProvider,
+  EnsembleStrategy,
+  FrameVerdict,
+  MediaType,
+} from '../types/analysis';
+
+export interface AnalyzeImageParams {
+  requestId: string;
+  userId: string;
+  imageBase64?: string;
+  imageUrl?: string;
+  title?: unknown;
+  lastMessage?: unknown;
+  language?: unknown;
+  providers: DetectorProvider[];
+  strategy: EnsembleStrategy;
+  client?: { ipAddress?: string; userAgent?: string };
+}
+
+export interface AnalyzeImageResult {
+  analysisId: string;
+  result: AnalysisResult;
+  detection: DetectionOutcome;
+  cached: boolean;
+}
+
+export interface AnalyzeVideoParams {
+  requestId: string;
+  userId: string;
+  video: SampledVideo;
+  title?: unknown;
+  lastMessage?: unknown;
+  language?: unknown;
+  providers: DetectorProvider[];
+  strategy: EnsembleStrategy;
+  // Quota units reserved for this request.
+  quotaCost: number;
+}
+
+export interface AnalyzeVideoResult {
+  analysisId: string;
+  result: AnalysisResult;
+  timeline: FrameVerdict[];
+  cached: false;
+}
+
+export interface AnalyzeAudioParams {
+  requestId: string;
+  userId: string;
+  audio: PreparedAudio;
+  title?: unknown;
+  lastMessage?: unknown;
+  language?: unknown;
+  providers: DetectorProvider[];
+  strategy: EnsembleStrategy;
+}
+
+export interface AnalyzeAudioResult {
+  analysisId: string;
+  result: AnalysisResult;
+  detection: DetectionOutcome;
+  cached: false;
+}
+
+export interface AnalysisFailure {
+  status: number;
+  code: string;
+  message: string;
+}
+
+const extractImageBuffer = async (params: {
+  imageBase64?: string;
+  imageUrl?: string;
+  fetchContext: ImageFetchContext;
+}): Promise<Buffer> => {
+  if (params.imageBase64) {
+    // Any declared MIME type in a data URL is ignored; the format is sniffed from the bytes.
+    const stripped = params.imageBase64.startsWith('data:')
+      ? params.imageBase64.slice(params.imageBase64.indexOf(',') + 1)
+      : params.imageBase64;
+    if (!stripped) {
+      throw new ImageValidationError('invalid_image', 'imageBase64 is empty');
+    }
+    imageProcessingService.assertEncodedSize(stripped.length);
+    return Buffer.from(stripped, 'base64');
+  }
+
+  if (typeof params.imageUrl === 'string' && params.imageUrl) {
+    const fetched = await imageFetchService.fetch(params.imageUrl, params.fetchContext);
+    return fetched.buffer;
+  }
+
+  throw new ImageValidationError('invalid_image', 'imageBase64 or imageUrl is required');
+};
+
+const VIDEO_FRAME_NOTE =
+  'This image is a single frame sampled from a video; judge the frame itself and ignore motion blur or compression typical of video.';
+
+const toAiScore = (result: AnalysisResult) =>
+  result.isAI ? result.confidenceScore : 100 - result.confidenceScore;
+
+const uploadToStorage = async (params: {
+  requestId?: string;
+  userId: string;
+  analysisId: string;
+  buffer: Buffer;
+  mimeType: string;
+  extension: string;
+  hashes?: Record<string, string>;
+}) => {
+  const { requestId, userId, analysisId, buffer, mimeType, extension, hashes } = params;
+  const bucket = storage.bucket();
+  const filePath = `forensic/${userId}/${analysisId}.${extension}`;
+  const file = bucket.file(filePath) as any;
+
+  if (typeof file.save !== 'function') {
+    logger.warn({ requestId, userId, filePath }, 'Storage file.save is unavailable');
+    return null;
+  }
+
+  await file.save(buffer, {
+    contentType: mimeType,
+    resumable: false,
+    metadata: {
+      contentType: mimeType,
+      metadata: hashes,
+    },
+  });
+
+  try {
+    const [signedUrl] = await file.getSignedUrl({
+      action: 'read',
+      expires: '01-01-2100',
+    });
+    return { url: signedUrl, path: filePath };
+  } catch (error) {
+    logger.warn({ requestId, userId, filePath, err: error }, 'Failed to get signed URL');
+    const bucketName = typeof (bucket as any).name === 'string'
+      ? (bucket as any).name
+      : process.env.FIREBASE_STORAGE_BUCKET;
+    return bucketName ? { url: `https://storage.googleapis.com/${bucketName}/${filePath}`, path: filePath } : null;
+  }
+};
+
+const uploadImageToStorage = (params: {
+  requestId?: string;
+  userId: string;
+  analysisId: string;
+  image: PreparedImage;
+  imageHash?: ImageHashes;
+}) =>
+  uploadToStorage({
+    requestId: params.requestId,
+    userId: params.userId,
+    analysisId: params.analysisId,
+    buffer: params.image.buffer,
+    mimeType: params.image.mimeType,
+    extension: IMAGE_EXTENSIONS[params.image.format],
+    hashes: params.imageHash
+      ? { sha256: params.imageHash.sha256, dhash: params.imageHash.dhash ?? '' }
+      : undefined,
+  });
+
+class AnalysisService {
+  /**
+   * Run the forensic pipeline for one image and persist it to the user's history.
+   * Quota is not touched here; see `runReserved`.
+   */
+  async analyzeImage(params: AnalyzeImageParams): Promise<AnalyzeImageResult> {
+    const { requestId, userId, imageBase64, imageUrl, title, lastMessage, language } = params;
+
+    const originalBuffer = await extractImageBuffer({
+      imageBase64,
+      imageUrl,
+      fetchContext: { requestId, userId, ...params.client },
+    });
+    const image = await imageProcessingService.prepare(originalBuffer, requestId);
+    const inlineData = { mimeType: image.mimeType, data: image.buffer.toString('base64') };
+    const analysisRef = db.collection('users').doc(userId).collection('analyze1').doc();
+    const profile = analysisRegistryService.resolve(userId, language);
+    const promptTemplate = profile.prompt;
+    const responseLanguage = promptTemplate.locale;
+
+    // The exact-match hash covers the uploaded bytes; the perceptual hash the normalized image.
+    const dhash = await computeDHash(image.buffer);
+    const imageHash: ImageHashes = { sha256: sha256Hex(originalBuffer), dhash };
+    const { metadata } = image;
+    logger.info(
+      {
+        requestId,
+        userId,
+        format: metadata.format,
+        c2pa: metadata.c2pa.present,
+        aiSignals: metadata.aiSignals.length,
+      },
+      'Image metadata extracted'
+    );
+    const cacheContext = {
+      userId,
+      promptVersion: profile.promptVersion,
+      schemaVersion: profile.schemaVersion,
+      providers: params.providers,
+      strategy: params.strategy,
+    };
+    const cached = await analysisCacheService.lookup(cacheContext, imageHash);
+    if (cached) {
+      logger.info(
+        { requestId, userId, sourceAnalysisId: cached.analysisId },
+        'Analysis served from result cache'
+      );
+    }
+
+    const detection = cached?.detection ?? await ensembleService.run(
+      params.providers,
+      {
+        requestId,
+        userId,
+        image: inlineData,
+        language: responseLanguage,
+        prompt: `${promptTemplate.prompt} ${describeMetadataForPrompt(metadata)}`,
+        schema: profile.schema.definition,
+      },
+      params.strategy
+    );
+    const parsedResult = applyMetadataEvidence(detection.result, metadata);
+
+    logger.info(
+      { requestId, userId, provider: detection.provider, hasResult: Boolean(parsedResult) },
+      'Detector analysis completed'
+    );
+
+    const storedImage = await uploadImageToStorage({
+      requestId,
+      userId,
+      analysisId: analysisRef.id,
+      image,
+      imageHash,
+    });
+
+    const now = new Date();
+    const analysisDoc = {
+      analysisId: analysisRef.id,
+      userId,
+      mediaType: 'image',
+      imageUrl: storedImage?.url || null,
+      storagePath: storedImage?.path || null,
+      sourceImageUrl: typeof imageUrl === 'string' ? imageUrl : null,
+      language: responseLanguage,
+      promptTemplate: {
+        id: promptTemplate.templateId,
+        locale: promptTemplate.locale,
+        version: promptTemplate.version,
+        requestedLocale: promptTemplate.requestedLocale,
+      },
+      analysisProfile: profile.profile,
+      experimentBucket: profile.experimentBucket,
+      promptVersion: profile.promptVersion,
+      schemaVersion: profile.schemaVersion,
+      provider: detection.provider,
+      model: detection.model,
+      result: parsedResult,
+      ensemble: detection.ensemble,
+      metadata,
+      image: {
+        format: image.format,
+        width: image.width,
+        height: image.height,
+        originalBytes: image.originalBytes,
+        originalWidth: image.originalWidth,
+        originalHeight: image.originalHeight,
+        normalized: image.normalized,
+      },
+      imageHash: { ...imageHash, bands: similarityBands(dhash) },
+      cache: cached
+        ? { hit: true, sourceAnalysisId: cached.analysisId, cachedAt: cached.cachedAt }
+        : null,
+      createdAt: now,
+      updatedAt: now,
+      timestamp: now,
+      deleted: false,
+      deletedAt: null,
+      favorites: false,
+      hasChatTitle: Boolean(title),
+      lastMessage: typeof lastMessage === 'string' ? lastMessage : '',
+      title: typeof title === 'string' ? title : '',
+    };
+
+    await analysisRef.set(analysisDoc);
+
+    const userRef = db.collection('users').doc(userId);
+    const userSnap = await userRef.get();
+    const currentCount = (userSnap.data() as any)?.analyze1 || 0;
+    await userRef.set({ analyze1: currentCount + 1 }, { merge: true });
+
+    if (!cached) {
+      await analysisCacheService.store(cacheContext, imageHash, {
+        analysisId: analysisRef.id,
+        userId,
+        detection,
+        cachedAt: now.toISOString(),
+      });
+    }
+
+    return { analysisId: analysisRef.id, result: parsedResult, detection, cached: Boolean(cached) };
+  }
+
+  /**
+   * Analyze a sampled clip frame by frame through the regular detector pipeline and store
+   * one history item with a per-frame timeline. The frame that best supports the overall
+   * verdict becomes the stored poster image. Frames that fail are kept in the timeline;
+   * the request only fails when no frame could be analyzed.
+   */
+  async analyzeVideo(params: AnalyzeVideoParams): Promise<AnalyzeVideoResult> {
+    const { requestId, userId, video, title, lastMessage, language, providers, strategy } = params;
+    const analysisRef = db.collection('users').doc(userId).collection('analyze1').doc();
+    const profile = analysisRegistryService.resolve(userId, language);
+    const promptTemplate = profile.prompt;
+
+    const outcomes = await mapWithConcurrency(video.frames, config.analysis.batch.concurrency, async (frame) => {
+      try {
+        const image = await imageProcessingService.prepare(frame.buffer, requestId);
+        const detection = await ensembleService.run(
+          providers,
+          {
+            requestId: `${requestId}:frame-${frame.index}`,
+            userId,
+            image: { mimeType: image.mimeType, data: image.buffer.toString('base64') },
+            language: promptTemplate.locale,
+            prompt: `${promptTemplate.prompt} ${VIDEO_FRAME_NOTE}`,
+            schema: profile.schema.definition,
+          },
+          strategy
+        );
+        return { frame, image, detection, error: null };
+      } catch (error: any) {
+        // Provider errors carry the request config and its credentials, so only their summary is logged.
+        logger.warn(
+          { requestId, userId, frame: frame.index, error: error?.message ?? String(error), code: error?.code },
+          'Video frame analysis failed'
+        );
+        return { frame, image: null, detection: null, error };
+      }
+    });
+
+    const analyzed = outcomes.filter(
+      (outcome): outcome is typeof outcome & { image: PreparedImage; detection: DetectionOutcome } =>
+        Boolean(outcome.detection && outcome.image)
+    );
+    if (!analyzed.length) {
+      throw outcomes[0]?.error ?? new VideoValidationError('video_decode_failed', 'No frames could be analyzed', 422);
+    }
+
+    const merged = mergeVerdicts(
+      analyzed.map((outcome) => ({ result: outcome.detection.result, weight: 1 })),
+      strategy
+    );
+    const agreeing = analyzed.filter((outcome) => outcome.detection.result.isAI === merged.isAI);
+    const poster = (agreeing.length ? agreeing : analyzed).reduce((best, outcome) =>
+      outcome.detection.result.confidenceScore > best.detection.result.confidenceScore ? outcome : best
+    );
+    // Regions only make sense on the frame they were drawn for, which is the stored poster.
+    const result: AnalysisResult = { ...merged };
+    delete result.regions;
+    if (poster.detection.result.regions) {
+      result.regions = poster.detection.result.regions;
+    }
+
+    const timeline: FrameVerdict[] = outcomes.map(({ frame, detection, error }) =>
+      detection
+        ? {
+            index: frame.index,
+            timestampSeconds: frame.timestampSeconds,
+            status: 'fulfilled',
+            isAI: detection.result.isAI,
+            confidenceScore: detection.result.confidenceScore,
+            aiScore: Math.round(toAiScore(detection.result) * 100) / 100,
+            detectedModel: detection.result.detectedModel,
+          }
+        : {
+            index: frame.index,
+            timestampSeconds: frame.timestampSeconds,
+            status: 'rejected',
+            error: this.describeFailure(error).code,
+          }
+    );
+    const aiFrames = analyzed.filter((outcome) => outcome.detection.result.isAI).length;
+
+    const posterHash: ImageHashes = {
+      sha256: sha256Hex(poster.image.buffer),
+      dhash: await computeDHash(poster.image.buffer),
+    };
+    const storedImage = await uploadImageToStorage({
+      requestId,
+      userId,
+      analysisId: analysisRef.id,
+      image: poster.image,
+      imageHash: posterHash,
+    });
+
+    const now = new Date();
+    await analysisRef.set({
+      analysisId: analysisRef.id,
+      userId,
+      mediaType: 'video',
+      imageUrl: storedImage?.url || null,
+      storagePath: storedImage?.path || null,
+      sourceImageUrl: null,
+      language: promptTemplate.locale,
+      promptTemplate: {
+        id: promptTemplate.templateId,
+        locale: promptTemplate.locale,
+        version: promptTemplate.version,
+        requestedLocale: promptTemplate.requestedLocale,
+      },
+      analysisProfile: profile.profile,
+      experimentBucket: profile.experimentBucket,
+      promptVersion: profile.promptVersion,
+      schemaVersion: profile.schemaVersion,
+      provider: poster.detection.provider,
+      model: poster.detection.model,
+      result,
+      metadata: poster.image.metadata,
+      video: {
+        format: video.format,
+        mimeType: video.mimeType,
+        bytes: video.bytes,
+        sha256: video.sha256,
+        durationSeconds: video.probe.durationSeconds,
+        width: video.probe.width,
+        height: video.probe.height,
+        sampledFrames: video.frames.length,
+        analyzedFrames: analyzed.length,
+        aiFrames,
+        aiFrameRatio: Math.round((aiFrames / analyzed.length) * 100) / 100,
+        posterFrame: poster.frame.index,
+        quotaCost: params.quotaCost,
+      },
+      timeline,
+      image: {
+        format: poster.image.format,
+        width: poster.image.width,
+        height: poster.image.height,
+        originalBytes: poster.image.originalBytes,
+        originalWidth: poster.image.originalWidth,
+        originalHeight: poster.image.originalHeight,
+        normalized: poster.image.normalized,
+      },
+      imageHash: { ...posterHash, bands: similarityBands(posterHash.dhash) },
+      cache: null,
+      createdAt: now,
+      updatedAt: now,
+      timestamp: now,
+      deleted: false,
+      deletedAt: null,
+      favorites: false,
+      hasChatTitle: Boolean(title),
+      lastMessage: typeof lastMessage === 'string' ? lastMessage : '',
+      title: typeof title === 'string' ? title : '',
+    });
+
+    const userRef = db.collection('users').doc(userId);
+    const userSnap = await userRef.get();
+    const currentCount = (userSnap.data() as any)?.analyze1 || 0;
+    await userRef.set({ analyze1: currentCount + 1 }, { merge: true });
+
+    logger.info(
+      { requestId, userId, frames: video.frames.length, analyzed: analyzed.length, isAI: result.isAI },
+      'Video analysis completed'
+    );
+    return { analysisId: analysisRef.id, result, timeline, cached: false };
+  }
+
+  /**
+   * Judge a voice clip with the audio-capable providers under the voice profile and store
+   * it in the same history collection as images, with the uploaded clip in storage.
+   */
+  async analyzeAudio(params: AnalyzeAudioParams): Promise<AnalyzeAudioResult> {
+    const { requestId, userId, audio, title, lastMessage, language } = params;
+    const analysisRef = db.collection('users').doc(userId).collection('analyze1').doc();
+    const profile = analysisRegistryService.resolveNamed(config.analysis.profiles.audio, language);
+    const promptTemplate = profile.prompt;
+
+    const detection = await ensembleService.run(
+      params.providers,
+      {
+        requestId,
+        userId,
+        audio: { mimeType: audio.detectorMimeType, data: audio.detectorBuffer.toString('base64') },
+        language: promptTemplate.locale,
+        prompt: promptTemplate.prompt,
+        schema: profile.schema.definition,
+      },
+      params.strategy
+    );
+
+    const storedAudio = await uploadToStorage({
+      requestId,
+      userId,
+      analysisId: analysisRef.id,
+      buffer: audio.buffer,
+      mimeType: audio.mimeType,
+      extension: AUDIO_EXTENSIONS[audio.format],
+      hashes: { sha256: audio.sha256 },
+    });
+
+    const now = new Date();
+    await analysisRef.set({
+      analysisId: analysisRef.id,
+      userId,
+      mediaType: 'audio',
+      imageUrl: null,
+      mediaUrl: storedAudio?.url || null,
+      storagePath: storedAudio?.path || null,
+      sourceImageUrl: null,
+      language: promptTemplate.locale,
+      promptTemplate: {
+        id: promptTemplate.templateId,
+        locale: promptTemplate.locale,
+        version: promptTemplate.version,
+        requestedLocale: promptTemplate.requestedLocale,
+      },
+      analysisProfile: profile.profile,
+      experimentBucket: profile.experimentBucket,
+      promptVersion: profile.promptVersion,
+      schemaVersion: profile.schemaVersion,
+      provider: detection.provider,
+      model: detection.model,
+      result: detection.result,
+      ensemble: detection.ensemble,
+      audio: {
+        format: audio.format,
+        mimeType: audio.mimeType,
+        bytes: audio.bytes,
+        sha256: audio.sha256,
+        durationSeconds: audio.probe.durationSeconds,
+        codec: audio.probe.codec,
+        sampleRate: audio.probe.sampleRate,
+        channels: audio.probe.channels,
+        transcoded: audio.transcoded,
+      },
+      cache: null,
+      createdAt: now,
+      updatedAt: now,
+      timestamp: now,
+      deleted: false,
+      deletedAt: null,
+      favorites: false,
+      hasChatTitle: Boolean(title),
+      lastMessage: typeof lastMessage === 'string' ? lastMessage : '',
+      title: typeof title === 'string' ? title : '',
+    });
+
+    const userRef = db.collection('users').doc(userId);
+    const userSnap = await userRef.get();
+    const currentCount = (userSnap.data() as any)?.analyze1 || 0;
+    await userRef.set({ analyze1: currentCount + 1 }, { merge: true });
+
+    logger.info(
+      { requestId, userId, format: audio.format, provider: detection.provider, isAI: detection.result.isAI },
+      'Audio analysis completed'
+    );
+    return { analysisId: analysisRef.id, result: detection.result, detection, cached: false };
+  }
+
+  /**
+   * Analyze an image whose quota was already reserved under `requestId`:
+   * commit on success, roll back on failure and rethrow. Cache hits release the
+   * reservation instead when `ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota` is off.
+   */
+  async runReserved(params: AnalyzeImageParams): Promise<AnalyzeImageResult> {
+    return this.settleReservation(params.userId, params.requestId, 'image', () => this.analyzeImage(params));
+  }
+
+  /**
+   * `runReserved` for video; the reservation covers every sampled frame.
+   */
+  async runReservedVideo(params: AnalyzeVideoParams): Promise<AnalyzeVideoResult> {
+    return this.settleReservation(params.userId, params.requestId, 'video', () => this.analyzeVideo(params));
+  }
+
+  /**
+   * `runReserved` for voice clips (`ai_audio_detect`).
+   */
+  async runReservedAudio(params: AnalyzeAudioParams): Promise<AnalyzeAudioResult> {
+    return this.settleReservation(params.userId, params.requestId, 'audio', () => this.analyzeAudio(params));
+  }
+
+  private async settleReservation<T extends { analysisId: string; result: AnalysisResult; cached: boolean }>(
+    userId: string,
+    requestId: string,
+    mediaType: MediaType,
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const outcome = await run();
+      if (outcome.cached && !ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota) {
+        try {
+          await quotaService.rollbackUsage(userId, requestId);
+        } catch (releaseError) {
+          logger.warn({ err: releaseError, userId, requestId }, 'Failed to release quota for cache hit');
+        }
+      } else {
+        try {
+          await quotaService.commitUsage(userId, requestId);
+        } catch (commitError) {
+          logger.warn({ err: commitError, userId, requestId }, 'Failed to commit quota usage');
+        }
+      }
+      // Not awaited: the callback is delivered (and retried) in the background.
+      webhookService.dispatch(userId, 'analysis.completed', {
+        analysisId: outcome.analysisId,
+        requestId,
+        mediaType,
+        cached: outcome.cached,
+        result: outcome.result,
+      });
+      return outcome;
+    } catch (error) {
+      try {
+        await quotaService.rollbackUsage(userId, requestId);
+      } catch (releaseError) {
+        logger.warn({ err: releaseError, userId }, 'Failed to release quota after analysis failure');
+      }
+      throw error;
+    }
+  }
+
+  describeFailure(error: any): AnalysisFailure {
+    if (
+      error instanceof DetectorError ||
+      error instanceof ImageValidationError ||
+      error instanceof ImageFetchError ||
+      error instanceof VideoValidationError ||
+      error instanceof AudioValidationError ||
+      error instanceof ProviderUnavailableError
+    ) {
+      return { status: error.status, code: error.code, message: error.message };
+    }
+    const status = error?.response?.status;
+    if (status === 404) {
+      return { status: 404, code: 'NOT_FOUND', message: 'Not found' };
+    }
+    if (status === 500) {
+      return { status: 500, code: 'INTERNAL_ERROR', message: 'Internal server error' };
+    }
+    return { status: 500, code: 'analysis_failed', message: 'Failed to analyze image' };
+  }
+}
+
+export const analysisService = new AnalysisService();
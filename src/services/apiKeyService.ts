@@ -0,0 +1,183 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from '../firebase';
+import { HashService } from './hashService';
+import { ApiKey } from '../types/auth';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import { API_KEY_SCOPES, formatApiKey, parseApiKey, parseApiKeyScopes } from '../utils/apiKeys';
+
+export class ApiKeyError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type ApiKeySummary = Omit<ApiKey, 'userId' | 'secretHash'>;
+
+type CachedKey = { apiKey: ApiKey; digest: Buffer; expiresAt: number };
+
+const COLLECTION = 'apiKeys';
+const MAX_NAME_LENGTH = 100;
+const MAX_CACHED_KEYS = 1000;
+// lastUsedAt is informational; writing it on every request would cost a write per call.
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+const digestOf = (secret: string): Buffer => createHash('sha256').update(secret).digest();
+
+export class ApiKeyService {
+  private static cache = new Map<string, CachedKey>();
+
+  /**
+   * Create a key for the user. The plaintext key is only in this return value; the
+   * stored record keeps an argon2 hash of its secret.
+   */
+  static async create(
+    userId: string,
+    body: { name?: unknown; scopes?: unknown }
+  ): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new ApiKeyError('invalid_name', `name is required (max ${MAX_NAME_LENGTH} characters)`);
+    }
+    const scopes = parseApiKeyScopes(body.scopes);
+    if (!scopes) {
+      throw new ApiKeyError(
+        'invalid_scopes',
+        `scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}`
+      );
+    }
+
+    const active = (await this.listByUser(userId)).filter((apiKey) => !apiKey.revokedAt);
+    if (active.length >= config.apiKeys.maxPerUser) {
+      throw new ApiKeyError(
+        'api_key_limit_reached',
+        `At most ${config.apiKeys.maxPerUser} active API keys are allowed; revoke one first`,
+        409
+      );
+    }
+
+    const id = randomBytes(8).toString('hex');
+    const secret = randomBytes(32).toString('hex');
+    const key = formatApiKey(id, secret);
+    const apiKey: ApiKey = {
+      id,
+      userId,
+      name,
+      scopes,
+      secretHash: await HashService.hashApiKey(secret),
+      hint: key.slice(-4),
+      createdAt: new Date(),
+    };
+
+    const { id: _id, ...record } = apiKey;
+    await db.collection(COLLECTION).doc(id).set({ ...record, lastUsedAt: null, revokedAt: null });
+
+    logger.info({ operation: 'createApiKey', userId, apiKeyId: id, scopes }, 'API key created');
+    return { apiKey: this.summarize(apiKey), key };
+  }
+
+  /**
+   * All keys of the user, revoked ones included, newest first.
+   */
+  static async listByUser(userId: string): Promise<ApiKeySummary[]> {
+    const snapshot = await db.collection(COLLECTION).where('userId', '==', userId).get();
+    return (snapshot.docs as QueryDocumentSnapshot[])
+      .map((doc) => this.summarize(this.fromDoc(doc.id, doc.data())))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Revoking is idempotent. Other instances may still accept the key for up to
+   * `apiKeys.verifyCacheSeconds`.
+   */
+  static async revoke(userId: string, id: string): Promise<ApiKeySummary> {
+    const ref = db.collection(COLLECTION).doc(id);
+    const doc = await ref.get();
+    const data = doc.exists ? doc.data() : null;
+    if (!data || data.userId !== userId) {
+      throw new ApiKeyError('api_key_not_found', 'API key not found', 404);
+    }
+
+    const apiKey = this.fromDoc(doc.id, data);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await ref.update({ revokedAt: apiKey.revokedAt });
+      logger.info({ operation: 'revokeApiKey', userId, apiKeyId: id }, 'API key revoked');
+    }
+    this.cache.delete(id);
+    return this.summarize(apiKey);
+  }
+
+  /**
+   * Resolve a presented key to its active record, or null when it is malformed, unknown,
+   * revoked or does not match.
+   */
+  static async verify(rawKey: string): Promise<ApiKey | null> {
+    const parsed = parseApiKey(rawKey);
+    if (!parsed) return null;
+
+    const digest = digestOf(parsed.secret);
+    const cached = this.cache.get(parsed.id);
+    if (cached && cached.expiresAt > Date.now() && timingSafeEqual(cached.digest, digest)) {
+      this.touch(cached.apiKey);
+      return cached.apiKey;
+    }
+
+    const doc = await db.collection(COLLECTION).doc(parsed.id).get();
+    const data = doc.exists ? doc.data() : null;
+    if (!data) return null;
+
+    const apiKey = this.fromDoc(doc.id, data);
+    if (apiKey.revokedAt || !(await HashService.verifyApiKey(parsed.secret, apiKey.secretHash))) {
+      this.cache.delete(parsed.id);
+      return null;
+    }
+
+    if (this.cache.size >= MAX_CACHED_KEYS) this.cache.clear();
+    this.cache.set(parsed.id, {
+      apiKey,
+      digest,
+      expiresAt: Date.now() + config.apiKeys.verifyCacheSeconds * 1000,
+    });
+    this.touch(apiKey);
+    return apiKey;
+  }
+
+  private static touch(apiKey: ApiKey): void {
+    const now = new Date();
+    if (apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+    apiKey.lastUsedAt = now;
+    db.collection(COLLECTION)
+      .doc(apiKey.id)
+      .update({ lastUsedAt: now })
+      .catch((error: unknown) =>
+        logger.warn({ err: error, apiKeyId: apiKey.id }, 'Failed to record API key usage')
+      );
+  }
+
+  private static fromDoc(id: string, data: Record<string, any>): ApiKey {
+    return {
+      id,
+      userId: data.userId,
+      name: data.name,
+      scopes: Array.isArray(data.scopes) ? data.scopes : [],
+      secretHash: data.secretHash,
+      hint: data.hint,
+      createdAt: toDate(data.createdAt) || new Date(0),
+      lastUsedAt: toDate(data.lastUsedAt) ?? undefined,
+      revokedAt: toDate(data.revokedAt) ?? undefined,
+    };
+  }
+
+  private static summarize(apiKey: ApiKey): ApiKeySummary {
+    const { userId: _userId, secretHash: _secretHash, ...summary } = apiKey;
+    return summary;
+  }
+}
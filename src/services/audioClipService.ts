@@ -0,0 +1,183 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { MediaToolError, runMediaTool } from '../utils/mediaTool';
+import { AUDIO_EXTENSIONS, AUDIO_MIME_TYPES, AudioFormat, sniffAudioFormat } from '../utils/mediaFormat';
+
+export class AudioValidationError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface AudioProbe {
+  durationSeconds: number | null;
+  codec: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface PreparedAudio {
+  // The uploaded clip, stored as-is.
+  format: AudioFormat;
+  mimeType: string;
+  bytes: number;
+  sha256: string;
+  buffer: Buffer;
+  probe: AudioProbe;
+  // What the detectors receive: the original for MP3/WAV, otherwise an MP3 transcode.
+  detectorMimeType: string;
+  detectorBuffer: Buffer;
+  transcoded: boolean;
+}
+
+// Formats every audio-capable provider accepts inline.
+const PASSTHROUGH_FORMATS: AudioFormat[] = ['mp3', 'wav'];
+const MAX_TRANSCODE_BYTES = 20 * 1024 * 1024;
+const MAX_PROBE_BYTES = 1024 * 1024;
+
+class AudioClipService {
+  /**
+   * Reject payloads that are obviously over the byte limit before decoding base64.
+   */
+  assertEncodedSize(base64Length: number): void {
+    if (Math.floor((base64Length * 3) / 4) > config.analysis.audio.maxBytes) {
+      throw new AudioValidationError(
+        'audio_too_large',
+        `Audio exceeds the ${config.analysis.audio.maxBytes} byte limit`,
+        413
+      );
+    }
+  }
+
+  /**
+   * Validate a voice clip, probe it with ffprobe and, for containers the detectors can't
+   * read inline, transcode the first audio stream to MP3.
+   */
+  async prepare(buffer: Buffer, requestId?: string): Promise<PreparedAudio> {
+    const limits = config.analysis.audio;
+
+    if (!buffer.length) {
+      throw new AudioValidationError('invalid_audio', 'Audio payload is empty');
+    }
+    if (buffer.length > limits.maxBytes) {
+      throw new AudioValidationError('audio_too_large', `Audio exceeds the ${limits.maxBytes} byte limit`, 413);
+    }
+    const format = sniffAudioFormat(buffer);
+    if (!format) {
+      throw new AudioValidationError('unsupported_audio_type', 'Audio format could not be recognized', 415);
+    }
+    if (!limits.allowedFormats.includes(format)) {
+      throw new AudioValidationError('unsupported_audio_type', `Audio format "${format}" is not allowed`, 415);
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-'));
+    const input = path.join(dir, `${randomUUID()}.${AUDIO_EXTENSIONS[format]}`);
+    try {
+      await fs.writeFile(input, buffer);
+      const probe = await this.probe(input);
+      if (probe.durationSeconds && probe.durationSeconds > limits.maxDurationSeconds) {
+        throw new AudioValidationError(
+          'audio_too_long',
+          `Audio exceeds the ${limits.maxDurationSeconds} second limit`,
+          413
+        );
+      }
+
+      const transcoded = !PASSTHROUGH_FORMATS.includes(format);
+      const detectorBuffer = transcoded
+        ? await this.run(
+            limits.ffmpegPath,
+            ['-v', 'error', '-i', input, '-map', '0:a:0', '-vn', '-c:a', 'libmp3lame', '-q:a', '2', '-f', 'mp3', 'pipe:1'],
+            MAX_TRANSCODE_BYTES
+          )
+        : buffer;
+      if (!detectorBuffer.length) {
+        throw new AudioValidationError('audio_decode_failed', 'Audio could not be decoded', 422);
+      }
+
+      logger.info(
+        { requestId, format, bytes: buffer.length, durationSeconds: probe.durationSeconds, transcoded },
+        'Audio clip prepared'
+      );
+      return {
+        format,
+        mimeType: AUDIO_MIME_TYPES[format],
+        bytes: buffer.length,
+        sha256: createHash('sha256').update(buffer).digest('hex'),
+        buffer,
+        probe,
+        detectorMimeType: transcoded ? AUDIO_MIME_TYPES.mp3 : AUDIO_MIME_TYPES[format],
+        detectorBuffer,
+        transcoded,
+      };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch((error) => {
+        logger.warn({ err: error, dir }, 'Failed to remove audio temp directory');
+      });
+    }
+  }
+
+  private async probe(input: string): Promise<AudioProbe> {
+    const output = await this.run(
+      config.analysis.audio.ffprobePath,
+      [
+        '-v', 'error',
+        '-select_streams', 'a:0',
+        '-show_entries', 'format=duration:stream=codec_name,sample_rate,channels',
+        '-of', 'json',
+        input,
+      ],
+      MAX_PROBE_BYTES
+    );
+    try {
+      const parsed = JSON.parse(output.toString('utf8'));
+      const stream = parsed.streams?.[0];
+      if (!stream) {
+        throw new AudioValidationError('audio_decode_failed', 'Audio has no audio stream', 422);
+      }
+      const duration = Number(parsed.format?.duration);
+      return {
+        durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : null,
+        codec: typeof stream.codec_name === 'string' ? stream.codec_name : null,
+        sampleRate: Number(stream.sample_rate) || null,
+        channels: Number(stream.channels) || null,
+      };
+    } catch (error) {
+      if (error instanceof AudioValidationError) throw error;
+      throw new AudioValidationError('audio_decode_failed', 'Audio could not be read', 422);
+    }
+  }
+
+  private async run(binary: string, args: string[], maxOutputBytes: number): Promise<Buffer> {
+    try {
+      return await runMediaTool(binary, args, { timeoutMs: config.analysis.audio.timeoutMs, maxOutputBytes });
+    } catch (error) {
+      if (!(error instanceof MediaToolError)) throw error;
+      switch (error.reason) {
+        case 'timeout':
+          throw new AudioValidationError('audio_processing_timeout', 'Audio processing timed out', 504);
+        case 'unavailable':
+          throw new AudioValidationError(
+            'audio_processing_unavailable',
+            'Audio processing is not available',
+            error.missing ? 503 : 500
+          );
+        case 'output_too_large':
+          throw new AudioValidationError('audio_decode_failed', 'Audio output is too large', 422);
+        default:
+          throw new AudioValidationError('audio_decode_failed', 'Audio could not be decoded', 422);
+      }
+    }
+  }
+}
+
+export const audioClipService = new AudioClipService();
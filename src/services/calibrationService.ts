@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CalibrationParameters, calibrateResult, parseCalibrationParameters } from '../utils/calibration';
+import type { DetectorInput, DetectorOutput, MediaType } from '../types/analysis';
+
+export const defaultCalibrationRoot = path.join(__dirname, '../templates/calibration');
+
+const keyOf = (provider: string, model: string, mediaType: MediaType) => `${provider}/${model}/${mediaType}`;
+
+/**
+ * `gemini-3-flash-preview` → `gemini-3-flash-preview.json`; fine-tuned model ids contain
+ * characters that do not belong in file names.
+ */
+export const calibrationFileName = (model: string, mediaType: MediaType) =>
+  `${model.replace(/[^A-Za-z0-9._-]/g, '_')}${mediaType === 'image' ? '' : `.${mediaType}`}.json`;
+
+class CalibrationService {
+  private parameters = new Map<string, CalibrationParameters>();
+
+  constructor() {
+    this.load();
+  }
+
+  root() {
+    return config.analysis.calibration.directory || defaultCalibrationRoot;
+  }
+
+  /**
+   * Read every `<provider>/*.json` parameters file. Provider, model and media type come
+   * from the file contents; the layout is only for people browsing the directory.
+   */
+  load(): void {
+    this.parameters.clear();
+    const root = this.root();
+    if (!fs.existsSync(root)) {
+      logger.info({ root }, 'No calibration parameters directory; scores stay uncalibrated');
+      return;
+    }
+
+    fs.readdirSync(root, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .forEach((dir) => {
+        fs.readdirSync(path.join(root, dir.name))
+          .filter((file) => file.endsWith('.json'))
+          .forEach((file) => {
+            const filePath = path.join(root, dir.name, file);
+            try {
+              const parameters = parseCalibrationParameters(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+              if (!parameters) {
+                logger.warn({ filePath }, 'Skipping invalid calibration parameters');
+                return;
+              }
+              this.parameters.set(keyOf(parameters.provider, parameters.model, parameters.mediaType), parameters);
+            } catch (error) {
+              logger.warn({ filePath, err: error }, 'Failed to load calibration parameters');
+            }
+          });
+      });
+
+    logger.info(
+      {
+        calibrations: Array.from(this.parameters.values()).map(({ provider, model, mediaType, method, version }) => ({
+          provider,
+          model,
+          mediaType,
+          method,
+          version,
+        })),
+      },
+      'Calibration parameters loaded'
+    );
+  }
+
+  find(provider: string, model: string, mediaType: MediaType): CalibrationParameters | null {
+    return this.parameters.get(keyOf(provider, model, mediaType)) ?? null;
+  }
+
+  /**
+   * Version of the parameters `apply` would use, or null when scores pass through raw.
+   */
+  versionFor(provider: string, model: string, mediaType: MediaType): number | null {
+    if (!config.analysis.calibration.enabled) return null;
+    return this.find(provider, model, mediaType)?.version ?? null;
+  }
+
+  /**
+   * Calibrate one provider's parsed output. Outputs without fitted parameters for their
+   * exact provider and model version pass through unchanged.
+   */
+  apply(output: DetectorOutput, input: DetectorInput): DetectorOutput {
+    if (!config.analysis.calibration.enabled) return output;
+    const parameters = this.find(output.provider, output.model, input.audio ? 'audio' : 'image');
+    if (!parameters) return output;
+    return { ...output, result: calibrateResult(output.result, parameters) };
+  }
+}
+
+export const calibrationService = new CalibrationService();
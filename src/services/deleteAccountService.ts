@@ -20,6 +20,7 @@ import { cacheService } from './cacheService';
 import { auditService } from './auditService';
 import { thirdPartyIntegrationService } from './thirdPartyIntegrationService';
 import { notificationService, DeleteNotificationUser } from './notificationService';
+import { shareService } from './shareService';
 
 type PhaseName =
   | 'preflight_checks'
@@ -594,6 +595,12 @@ class DeleteAccountService {
       this.deleteByField('pushTokens', 'userId', userId),
       this.deleteDocumentIfExists('deviceTokens', userId),
       this.deleteDocumentIfExists('pushTokens', userId),
+      this.deleteDocumentIfExists('webhookEndpoints', userId),
+      this.deleteByField('webhookDeliveries', 'userId', userId),
+      this.deleteByField('apiKeys', 'userId', userId),
+      this.deleteShares(userId),
+      this.deleteByField('analysisFeedback', 'userId', userId),
+      this.deleteByField('analysis_jobs', 'userId', userId),
       this.recursiveDeletePath(`users/${userId}`),
       this.recursiveDeletePath(`messages/${userId}`),
       this.recursiveDeletePath(`uploads/${userId}`),
@@ -713,6 +720,16 @@ class DeleteAccountService {
     }
   }
 
+  // Share links live outside the user's tree and own public thumbnails under `shares/`.
+  private async deleteShares(userId: string): Promise<number> {
+    try {
+      return await shareService.removeForUser(userId);
+    } catch (error) {
+      logger.warn({ err: error, userId }, 'Failed to delete share links');
+      return 0;
+    }
+  }
+
   private async deleteDocumentIfExists(collection: string, docId: string): Promise<number> {
     try {
       const ref = db.collection(collection).doc(docId);
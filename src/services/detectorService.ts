@@ -0,0 +1,387 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseModelOutput } from '../utils/analysisOutput';
+import { httpClientRegistry } from './httpClient';
+import { calibrationService } from './calibrationService';
+import {
+  AnalysisResult,
+  DetectorInput,
+  DetectorOutput,
+  DetectorProvider,
+  MediaType,
+} from '../types/analysis';
+
+type GeminiResponse = {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+      }>;
+    };
+  }>;
+};
+
+type OpenAIChatResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+};
+
+export class DetectorError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 500) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export class ModelOutputError extends DetectorError {
+  issues: string[];
+  raw: string;
+
+  constructor(issues: string[], raw: string) {
+    super('model_output_invalid', 'Model returned output that does not match the analysis schema', 502);
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+const MAX_REPAIR_ECHO_LENGTH = 4000;
+
+const toAnalysisResult = (text: string, schema: Record<string, any>) => {
+  const parsed = parseModelOutput(text, schema);
+  if (!parsed.ok) {
+    throw new ModelOutputError(parsed.issues, text);
+  }
+  return parsed.result;
+};
+
+const buildRepairPrompt = (prompt: string, error: ModelOutputError) =>
+  [
+    prompt,
+    'Your previous response could not be used because it did not match the required JSON schema.',
+    `Problems: ${error.issues.join('; ')}`,
+    `Previous response: ${error.raw.slice(0, MAX_REPAIR_ECHO_LENGTH)}`,
+    'Reply again with only a complete JSON object that satisfies the schema.',
+  ].join('\n\n');
+
+/**
+ * Run a provider and, when its output fails validation, retry once with a repair prompt
+ * that lists the problems. A second invalid response surfaces as `model_output_invalid`.
+ * Parsed scores are then calibrated for the provider's model version.
+ */
+export const detectWithRepair = async (
+  provider: DetectorProvider,
+  input: DetectorInput
+): Promise<DetectorOutput> => {
+  let output: DetectorOutput;
+  try {
+    output = await provider.detect(input);
+  } catch (error) {
+    if (!(error instanceof ModelOutputError)) {
+      throw error;
+    }
+    logger.warn(
+      { requestId: input.requestId, provider: provider.name, issues: error.issues },
+      'Model output invalid, retrying with repair prompt'
+    );
+    output = await provider.detect({ ...input, prompt: buildRepairPrompt(input.prompt, error) });
+  }
+  return calibrationService.apply(output, input);
+};
+
+/**
+ * Gemini uses upper-case OpenAPI type names; JSON Schema consumers expect lower-case.
+ */
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => {
+      if (key === 'type' && typeof value === 'string') return [key, value.toLowerCase()];
+      if (key === 'properties' && value && typeof value === 'object') {
+        return [
+          key,
+          Object.fromEntries(
+            Object.entries(value as Record<string, any>).map(([prop, def]) => [prop, toJsonSchema(def)])
+          ),
+        ];
+      }
+      return [key, toJsonSchema(value)];
+    })
+  );
+};
+
+// The request's single media attachment.
+const inlineMedia = (input: DetectorInput) => {
+  const media = input.audio ?? input.image;
+  if (!media) {
+    throw new DetectorError('invalid_request', 'Detector input has no media', 400);
+  }
+  return media;
+};
+
+const supportsMedia = (provider: DetectorProvider, mediaType: MediaType) =>
+  (provider.mediaTypes ?? ['image']).includes(mediaType);
+
+const toNameList = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return raw
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+};
+
+class GeminiDetectorProvider implements DetectorProvider {
+  readonly name = 'gemini';
+  readonly mediaTypes: MediaType[] = ['image', 'audio'];
+
+  get model() {
+    return config.analysis.gemini.model;
+  }
+
+  isConfigured() {
+    return Boolean(config.analysis.gemini.apiKey);
+  }
+
+  async detect(input: DetectorInput): Promise<DetectorOutput> {
+    const endpoint = `${config.analysis.gemini.baseUrl}/models/${this.model}:generateContent`;
+    const media = inlineMedia(input);
+    const payload = {
+      contents: [
+        {
+          parts: [
+            { text: input.prompt },
+            { inlineData: { mimeType: media.mimeType, data: media.data } },
+          ],
+        },
+      ],
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: input.schema,
+      },
+    };
+
+    logger.info(
+      {
+        requestId: input.requestId,
+        userId: input.userId,
+        mediaType: input.audio ? 'audio' : 'image',
+        mediaBytes: media.data.length,
+      },
+      'Gemini request prepared'
+    );
+
+    const response = await httpClientRegistry
+      .get(this.name, config.analysis.gemini.timeoutMs)
+      .post<GeminiResponse>(endpoint, payload, {
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.analysis.gemini.apiKey },
+      });
+
+    const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    return { provider: this.name, model: this.model, result: toAnalysisResult(text, input.schema) };
+  }
+}
+
+class OpenAIDetectorProvider implements DetectorProvider {
+  readonly name = 'openai';
+
+  get model() {
+    return config.analysis.openai.model;
+  }
+
+  isConfigured() {
+    return Boolean(config.api.openai.apiKey);
+  }
+
+  async detect(input: DetectorInput): Promise<DetectorOutput> {
+    if (!input.image) {
+      throw new DetectorError('unsupported_media', 'OpenAI detector only accepts images', 400);
+    }
+    const payload = {
+      model: this.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: input.prompt },
+            {
+              type: 'image_url',
+              image_url: { url: `data:${input.image.mimeType};base64,${input.image.data}` },
+            },
+          ],
+        },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'forensic_analysis', schema: toJsonSchema(input.schema) },
+      },
+    };
+
+    logger.info(
+      { requestId: input.requestId, userId: input.userId, imageBytes: input.image.data.length },
+      'OpenAI request prepared'
+    );
+
+    const response = await httpClientRegistry
+      .get(this.name, config.analysis.openai.timeoutMs)
+      .post<OpenAIChatResponse>(`${config.api.openai.baseUrl}/chat/completions`, payload, {
+        headers: {
+          Authorization: `Bearer ${config.api.openai.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+    const text = response.data?.choices?.[0]?.message?.content || '';
+    return { provider: this.name, model: this.model, result: toAnalysisResult(text, input.schema) };
+  }
+}
+
+/**
+ * Deterministic offline detector. The verdict is derived from the media bytes,
+ * so the same input always yields the same result without any network calls.
+ */
+class StubDetectorProvider implements DetectorProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-v1';
+  readonly mediaTypes: MediaType[] = ['image', 'audio'];
+
+  isConfigured() {
+    return true;
+  }
+
+  async detect(input: DetectorInput): Promise<DetectorOutput> {
+    const media = inlineMedia(input);
+    const digest = createHash('sha256').update(media.data).digest();
+    const confidenceScore = 50 + (digest[0] % 50);
+    const isAI = digest[1] % 2 === 0;
+    const gan = isAI ? digest[2] % 40 : 0;
+    const diffusion = isAI ? 100 - gan - (digest[3] % 10) : digest[3] % 10;
+    const organic = 100 - gan - diffusion;
+
+    const result: AnalysisResult = {
+      isAI,
+      confidenceScore,
+      detectedModel: input.audio ? (isAI ? 'Stub Voice Clone' : 'Human') : isAI ? 'Stub Diffusion' : 'Camera',
+      verdict: isAI ? 'Synthetic artifacts detected (stub)' : 'No synthetic artifacts detected (stub)',
+      findings: [
+        {
+          title: 'Stub analysis',
+          description: `Deterministic result for ${media.mimeType} input`,
+          type: 'stub',
+          status: isAI ? 'alert' : 'secure',
+        },
+      ],
+      probabilityBreakdown: { gan, diffusion, organic },
+    };
+    if (input.image) {
+      result.technicalSpecs = {
+        dimensions: 'unknown',
+        colorSpace: 'unknown',
+        modelId: this.model,
+        entropy: (digest[4] / 32).toFixed(2),
+      };
+      result.regions = {
+        grid: {
+          rows: 4,
+          cols: 4,
+          scores: Array.from(digest.subarray(5, 21), (byte) => Math.round((byte / 255) * 100)),
+        },
+      };
+    }
+
+    return { provider: this.name, model: this.model, result };
+  }
+}
+
+class DetectorService {
+  private providers = new Map<string, DetectorProvider>();
+
+  constructor() {
+    this.register(new GeminiDetectorProvider());
+    this.register(new OpenAIDetectorProvider());
+    if (config.analysis.stubEnabled) {
+      this.register(new StubDetectorProvider());
+    }
+  }
+
+  register(provider: DetectorProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  get(name: string): DetectorProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Resolve the provider for a request, honoring a per-request override when allowed.
+   */
+  resolve(requested?: string | null): DetectorProvider {
+    const override =
+      config.analysis.allowProviderOverride && typeof requested === 'string' && requested.trim()
+        ? requested.trim().toLowerCase()
+        : null;
+    return this.resolveByName(override || config.analysis.defaultProvider);
+  }
+
+  /**
+   * Resolve every provider that should take part in a request. An explicit list in the
+   * request wins, then the configured ensemble, then the single default provider.
+   * Configured providers that can't judge `mediaType` are skipped; requested ones are an error.
+   */
+  resolveAll(requested?: unknown, mediaType: MediaType = 'image'): DetectorProvider[] {
+    const names = config.analysis.allowProviderOverride ? toNameList(requested) : [];
+    if (names.length) {
+      const providers = Array.from(new Set(names)).map((name) => this.resolveByName(name));
+      const unsupported = providers.find((provider) => !supportsMedia(provider, mediaType));
+      if (unsupported) {
+        throw new DetectorError(
+          'unsupported_media',
+          `Detector provider "${unsupported.name}" does not support ${mediaType}`,
+          400
+        );
+      }
+      return providers;
+    }
+
+    const configured = config.analysis.ensemble.providers.length
+      ? Array.from(new Set(config.analysis.ensemble.providers)).map((name) => this.resolveByName(name))
+      : [this.resolve()];
+    const providers = configured.filter((provider) => supportsMedia(provider, mediaType));
+    if (!providers.length) {
+      throw new DetectorError(
+        'unsupported_media',
+        `No configured detector provider supports ${mediaType}`,
+        501
+      );
+    }
+    return providers;
+  }
+
+  private resolveByName(name: string): DetectorProvider {
+    const provider = this.get(name);
+    if (!provider) {
+      throw new DetectorError('unknown_provider', `Detector provider "${name}" is not available`, 400);
+    }
+    if (!provider.isConfigured()) {
+      throw new DetectorError('config_error', `Detector provider "${name}" is not configured`, 500);
+    }
+    return provider;
+  }
+}
+
+export const detectorService = new DetectorService();
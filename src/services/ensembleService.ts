@@ -0,0 +1,215 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { detectWithRepair } from './detectorService';
+import {
+  AnalysisResult,
+  DetectionOutcome,
+  DetectorInput,
+  DetectorProvider,
+  EnsembleStrategy,
+  ProbabilityBreakdown,
+  ProviderVerdict,
+} from '../types/analysis';
+
+const ENSEMBLE_STRATEGIES: EnsembleStrategy[] = ['weighted_average', 'majority_vote', 'max_confidence'];
+
+type WeightedResult = { result: AnalysisResult; weight: number };
+
+// Probability (0-100) that the image is AI generated, regardless of the verdict direction.
+const toAiScore = ({ isAI, confidenceScore }: AnalysisResult) =>
+  isAI ? confidenceScore : 100 - confidenceScore;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const averageBreakdown = (items: WeightedResult[]): ProbabilityBreakdown => {
+  const summed = items.reduce(
+    (acc, { result, weight }) => ({
+      gan: acc.gan + (result.probabilityBreakdown?.gan || 0) * weight,
+      diffusion: acc.diffusion + (result.probabilityBreakdown?.diffusion || 0) * weight,
+      organic: acc.organic + (result.probabilityBreakdown?.organic || 0) * weight,
+    }),
+    { gan: 0, diffusion: 0, organic: 0 }
+  );
+  const total = summed.gan + summed.diffusion + summed.organic;
+  if (!total) {
+    return { gan: 0, diffusion: 0, organic: 100 };
+  }
+  return {
+    gan: round((summed.gan / total) * 100),
+    diffusion: round((summed.diffusion / total) * 100),
+    organic: round((summed.organic / total) * 100),
+  };
+};
+
+// The most confident result that agrees with the merged verdict supplies the narrative fields.
+const pickRepresentative = (items: WeightedResult[], isAI: boolean): AnalysisResult => {
+  const agreeing = items.filter((item) => item.result.isAI === isAI);
+  const pool = agreeing.length ? agreeing : items;
+  return pool.reduce((best, item) =>
+    item.result.confidenceScore > best.result.confidenceScore ? item : best
+  ).result;
+};
+
+// A merged score is not any single provider's, so their raw scores and calibration stay on the verdicts.
+const representativeFor = (items: WeightedResult[], isAI: boolean): AnalysisResult => {
+  const { rawIsAI, rawConfidenceScore, calibration, ...representative } = pickRepresentative(items, isAI);
+  return representative;
+};
+
+// Regions come from the most confident agreeing provider that localized anything.
+const withRegions = (result: AnalysisResult, items: WeightedResult[], isAI: boolean): AnalysisResult => {
+  const merged = { ...result };
+  delete merged.regions;
+  const localized = items.filter((item) => item.result.isAI === isAI && item.result.regions);
+  if (!localized.length) return merged;
+  const best = localized.reduce((top, item) =>
+    item.result.confidenceScore > top.result.confidenceScore ? item : top
+  );
+  return { ...merged, regions: best.result.regions };
+};
+
+export const mergeVerdicts = (items: WeightedResult[], strategy: EnsembleStrategy): AnalysisResult => {
+  if (!items.length) {
+    throw new Error('Cannot merge an empty set of verdicts');
+  }
+
+  if (strategy === 'max_confidence') {
+    return items.reduce((best, item) =>
+      item.result.confidenceScore > best.result.confidenceScore ? item : best
+    ).result;
+  }
+
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0) || 1;
+
+  if (strategy === 'majority_vote') {
+    const aiWeight = items.filter((item) => item.result.isAI).reduce((sum, item) => sum + item.weight, 0);
+    const averageAiScore =
+      items.reduce((sum, item) => sum + toAiScore(item.result) * item.weight, 0) / totalWeight;
+    // Ties fall back to the weighted AI score so the outcome stays deterministic.
+    const isAI = aiWeight === totalWeight - aiWeight ? averageAiScore >= 50 : aiWeight > totalWeight / 2;
+    const majority = items.filter((item) => item.result.isAI === isAI);
+    const majorityWeight = majority.reduce((sum, item) => sum + item.weight, 0) || 1;
+    const confidenceScore =
+      majority.reduce((sum, item) => sum + item.result.confidenceScore * item.weight, 0) / majorityWeight;
+    return withRegions(
+      {
+        ...representativeFor(items, isAI),
+        isAI,
+        confidenceScore: round(confidenceScore),
+        probabilityBreakdown: averageBreakdown(majority),
+      },
+      items,
+      isAI
+    );
+  }
+
+  const aiScore = items.reduce((sum, item) => sum + toAiScore(item.result) * item.weight, 0) / totalWeight;
+  const isAI = aiScore >= 50;
+  return withRegions(
+    {
+      ...representativeFor(items, isAI),
+      isAI,
+      confidenceScore: round(isAI ? aiScore : 100 - aiScore),
+      probabilityBreakdown: averageBreakdown(items),
+    },
+    items,
+    isAI
+  );
+};
+
+class EnsembleService {
+  resolveStrategy(requested?: unknown): EnsembleStrategy {
+    const candidate = typeof requested === 'string' ? requested.trim().toLowerCase() : '';
+    if (ENSEMBLE_STRATEGIES.includes(candidate as EnsembleStrategy)) {
+      return candidate as EnsembleStrategy;
+    }
+    const configured = config.analysis.ensemble.strategy as EnsembleStrategy;
+    return ENSEMBLE_STRATEGIES.includes(configured) ? configured : 'weighted_average';
+  }
+
+  getWeight(providerName: string): number {
+    return config.analysis.ensemble.weights[providerName] ?? 1;
+  }
+
+  /**
+   * Run every provider in parallel and merge the successful verdicts. A single provider
+   * is passed through untouched; the request only fails when every provider fails.
+   */
+  async run(
+    providers: DetectorProvider[],
+    input: DetectorInput,
+    strategy: EnsembleStrategy
+  ): Promise<DetectionOutcome> {
+    if (providers.length === 1) {
+      const output = await detectWithRepair(providers[0], input);
+      return { ...output, ensemble: null };
+    }
+
+    const settled = await Promise.allSettled(providers.map((provider) => detectWithRepair(provider, input)));
+    const verdicts: ProviderVerdict[] = settled.map((outcome, index) => {
+      const provider = providers[index];
+      const weight = this.getWeight(provider.name);
+      if (outcome.status === 'fulfilled') {
+        return {
+          provider: outcome.value.provider,
+          model: outcome.value.model,
+          weight,
+          status: 'fulfilled',
+          result: outcome.value.result,
+        };
+      }
+      // Not `err`: the serializer would copy the request config, including API keys, into the log.
+      logger.warn(
+        {
+          requestId: input.requestId,
+          provider: provider.name,
+          error: outcome.reason?.message ?? String(outcome.reason),
+          code: outcome.reason?.code,
+          status: outcome.reason?.response?.status,
+        },
+        'Ensemble provider failed'
+      );
+      return {
+        provider: provider.name,
+        model: provider.model,
+        weight,
+        status: 'rejected',
+        error: outcome.reason?.message ?? String(outcome.reason),
+      };
+    });
+
+    const successful = verdicts.filter(
+      (verdict): verdict is ProviderVerdict & { result: AnalysisResult } =>
+        verdict.status === 'fulfilled' && Boolean(verdict.result)
+    );
+    if (!successful.length) {
+      const firstFailure = settled.find((outcome) => outcome.status === 'rejected') as PromiseRejectedResult;
+      throw firstFailure.reason;
+    }
+
+    const result = mergeVerdicts(
+      successful.map((verdict) => ({ result: verdict.result, weight: verdict.weight })),
+      strategy
+    );
+
+    logger.info(
+      {
+        requestId: input.requestId,
+        strategy,
+        providers: verdicts.map((verdict) => ({ provider: verdict.provider, status: verdict.status })),
+        isAI: result.isAI,
+        confidenceScore: result.confidenceScore,
+      },
+      'Ensemble verdicts merged'
+    );
+
+    return {
+      provider: 'ensemble',
+      model: successful.map((verdict) => `${verdict.provider}:${verdict.model}`).join(','),
+      result,
+      ensemble: { strategy, verdicts },
+    };
+  }
+}
+
+export const ensembleService = new EnsembleService();
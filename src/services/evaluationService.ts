@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { IMAGE_EXTENSIONS } from '../utils/imageFormat';
+import { applyMetadataEvidence, describeMetadataForPrompt } from '../utils/imageMetadata';
+import type { GroundTruthLabel } from '../utils/feedbackDataset';
+import {
+  CalibrationReport,
+  ClassificationMetrics,
+  computeCalibration,
+  computeClassificationMetrics,
+  computeConfusionMatrix,
+  ConfusionMatrix,
+  SamplePrediction,
+} from '../utils/evaluationMetrics';
+import { ensembleService } from './ensembleService';
+import { imageProcessingService } from './imageProcessingService';
+import { ResolvedAnalysisProfile } from './analysisRegistryService';
+import { EVALUATION_REQUEST_PREFIX } from './recordedDetectorProvider';
+import type { DetectorProvider, EnsembleStrategy } from '../types/analysis';
+
+export interface EvaluationSample {
+  id: string;
+  label: GroundTruthLabel;
+  // Local file; resolved against the manifest directory.
+  filePath?: string;
+  // Object in the configured storage bucket, as written by the feedback export.
+  storagePath?: string;
+}
+
+export interface EvaluationOptions {
+  providers: DetectorProvider[];
+  strategy: EnsembleStrategy;
+  profile: ResolvedAnalysisProfile;
+  concurrency: number;
+  calibrationBins: number;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  dataset: string;
+  providers: Array<{ name: string; model: string }>;
+  strategy: EnsembleStrategy;
+  profile: string;
+  promptVersion: string;
+  schemaVersion: string;
+  metrics: ClassificationMetrics;
+  confusionMatrix: ConfusionMatrix;
+  calibration: CalibrationReport;
+  predictions: SamplePrediction[];
+}
+
+const IMAGE_FILE_EXTENSIONS = new Set([...Object.values(IMAGE_EXTENSIONS), 'jpeg', 'heif']);
+const LABEL_DIRECTORIES: Record<string, GroundTruthLabel> = { ai: 'ai', real: 'real' };
+
+const toLabel = (record: Record<string, any>): GroundTruthLabel | null => {
+  const label = record.label ?? record.trueLabel;
+  if (label === 'ai' || label === 'real') return label;
+  if (typeof record.isAI === 'boolean') return record.isAI ? 'ai' : 'real';
+  return null;
+};
+
+const walk = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : [full];
+  });
+
+class EvaluationService {
+  /**
+   * A dataset is either a directory with `ai/` and `real/` subfolders of images, or a JSONL
+   * manifest whose lines carry a label (`label`/`trueLabel`/`isAI`) and a `path` or
+   * `storagePath`. The feedback export (`GET /analysis/feedback/export`) is a valid manifest.
+   */
+  loadDataset(source: string): EvaluationSample[] {
+    const resolved = path.resolve(source);
+    if (fs.statSync(resolved).isDirectory()) {
+      return Object.entries(LABEL_DIRECTORIES)
+        .filter(([dir]) => fs.existsSync(path.join(resolved, dir)))
+        .flatMap(([dir, label]) =>
+          walk(path.join(resolved, dir))
+            .filter((file) => IMAGE_FILE_EXTENSIONS.has(path.extname(file).slice(1).toLowerCase()))
+            .map((file) => ({ id: path.relative(resolved, file), label, filePath: file }))
+        )
+        .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    const baseDir = path.dirname(resolved);
+    return fs
+      .readFileSync(resolved, 'utf-8')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line, index) => {
+        const record = JSON.parse(line);
+        const label = toLabel(record);
+        const filePath = typeof record.path === 'string' ? path.resolve(baseDir, record.path) : undefined;
+        const storagePath = typeof record.storagePath === 'string' ? record.storagePath : undefined;
+        if (!label || (!filePath && !storagePath)) {
+          throw new Error(`Manifest line ${index + 1} needs a label and a path or storagePath`);
+        }
+        const id = String(record.id ?? record.feedbackId ?? record.analysisId ?? record.path ?? storagePath);
+        return { id, label, filePath, storagePath };
+      });
+  }
+
+  /**
+   * Run every sample through the same steps as a live image analysis (normalization,
+   * metadata hints, detector ensemble, metadata evidence) and score the verdicts.
+   * Failing samples are reported as errors instead of aborting the run.
+   */
+  async run(dataset: string, samples: EvaluationSample[], options: EvaluationOptions): Promise<EvaluationReport> {
+    const { profile } = options;
+    const predictions = await mapWithConcurrency(samples, options.concurrency, async (sample, index) => {
+      try {
+        const image = await imageProcessingService.prepare(await this.readSample(sample), sample.id);
+        const detection = await ensembleService.run(
+          options.providers,
+          {
+            requestId: `${EVALUATION_REQUEST_PREFIX}${sample.id}`,
+            image: { mimeType: image.mimeType, data: image.buffer.toString('base64') },
+            language: profile.prompt.locale,
+            prompt: `${profile.prompt.prompt} ${describeMetadataForPrompt(image.metadata)}`,
+            schema: profile.schema.definition,
+          },
+          options.strategy
+        );
+        const result = applyMetadataEvidence(detection.result, image.metadata);
+        const aiScore = result.isAI ? result.confidenceScore : 100 - result.confidenceScore;
+        logger.debug({ sample: sample.id, index, isAI: result.isAI }, 'Evaluation sample scored');
+        return {
+          id: sample.id,
+          label: sample.label,
+          status: 'ok',
+          predictedLabel: result.isAI ? 'ai' : 'real',
+          aiScore: Math.round(aiScore * 100) / 100,
+          confidenceScore: result.confidenceScore,
+          detectedModel: result.detectedModel,
+        } as SamplePrediction;
+      } catch (error: any) {
+        logger.warn(
+          { sample: sample.id, error: error?.message ?? String(error), code: error?.code },
+          'Evaluation sample failed'
+        );
+        return {
+          id: sample.id,
+          label: sample.label,
+          status: 'error',
+          error: error?.code || error?.message || 'failed',
+        } as SamplePrediction;
+      }
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      dataset,
+      providers: options.providers.map((provider) => ({ name: provider.name, model: provider.model })),
+      strategy: options.strategy,
+      profile: profile.profile,
+      promptVersion: profile.promptVersion,
+      schemaVersion: profile.schemaVersion,
+      metrics: computeClassificationMetrics(predictions),
+      confusionMatrix: computeConfusionMatrix(predictions),
+      calibration: computeCalibration(predictions, options.calibrationBins),
+      predictions,
+    };
+  }
+
+  private async readSample(sample: EvaluationSample): Promise<Buffer> {
+    if (sample.filePath) {
+      return fs.promises.readFile(sample.filePath);
+    }
+    // Loaded lazily so local datasets never need Firebase credentials.
+    const { storage } = await import('../firebase');
+    const [buffer] = await (storage.bucket().file(sample.storagePath as string) as any).download();
+    return buffer;
+  }
+}
+
+export const evaluationService = new EvaluationService();
@@ -0,0 +1,197 @@
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { db, storage } from '../firebase';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import {
+  DatasetManifestRecord,
+  FeedbackVerdict,
+  GroundTruthLabel,
+  parseFeedback,
+  providerPredictions,
+  toManifestRecord,
+} from '../utils/feedbackDataset';
+import { analysisHistoryService, resolveStoragePath } from './analysisHistoryService';
+
+export class FeedbackError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface FeedbackRecord {
+  feedbackId: string;
+  analysisId: string;
+  verdict: FeedbackVerdict;
+  trueLabel: GroundTruthLabel;
+  labelSource: 'user' | 'inferred';
+  comment: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DatasetExportFilters {
+  since?: Date;
+  until?: Date;
+  label?: GroundTruthLabel;
+  verdict?: FeedbackVerdict;
+  limit: number;
+}
+
+const FEEDBACK_COLLECTION = 'analysisFeedback';
+const EXPORT_PAGE_SIZE = 500;
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = new Date(String(value));
+  if (Number.isNaN(parsed.getTime())) {
+    throw new FeedbackError('invalid_filter', `${field} must be an ISO date`);
+  }
+  return parsed;
+};
+
+const parseChoice = <T extends string>(value: unknown, field: string, choices: T[]): T | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (!choices.includes(value as T)) {
+    throw new FeedbackError('invalid_filter', `${field} must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+class FeedbackService {
+  private feedback() {
+    return db.collection(FEEDBACK_COLLECTION);
+  }
+
+  // One entry per user and analysis; resubmitting replaces the label.
+  private feedbackId(userId: string, analysisId: string) {
+    return `${userId}_${analysisId}`;
+  }
+
+  /**
+   * Record whether the user agrees with a verdict. The labeled example goes to the
+   * dataset collection with the stored media path and the prediction it judges; the
+   * analysis only keeps a small summary for the history UI.
+   */
+  async submit(
+    userId: string,
+    analysisId: string,
+    input: { verdict?: unknown; trueLabel?: unknown; comment?: unknown }
+  ): Promise<FeedbackRecord> {
+    const analysis = await analysisHistoryService.get(userId, analysisId);
+    if (analysis.deleted) {
+      throw new FeedbackError('item_deleted', 'History item is deleted; restore it first', 409);
+    }
+    const result = analysis.result;
+    if (!result || typeof result.isAI !== 'boolean') {
+      throw new FeedbackError('not_labelable', 'Only completed analyses can receive feedback', 409);
+    }
+    const parsed = parseFeedback(input, result.isAI);
+    if (!parsed.ok) {
+      throw new FeedbackError('invalid_request', parsed.message);
+    }
+
+    const feedbackId = this.feedbackId(userId, analysisId);
+    const ref = this.feedback().doc(feedbackId);
+    const existing = await ref.get();
+    const now = new Date();
+    const createdAt = (existing.exists && toDate((existing.data() as Record<string, any>).createdAt)) || now;
+    await ref.set({
+      userId,
+      analysisId,
+      mediaType: analysis.mediaType || 'image',
+      storagePath: resolveStoragePath(analysis),
+      sha256: analysis.imageHash?.sha256 ?? analysis.video?.sha256 ?? analysis.audio?.sha256 ?? null,
+      predicted: {
+        isAI: result.isAI,
+        confidenceScore: result.confidenceScore ?? null,
+        rawIsAI: result.rawIsAI ?? result.isAI,
+        rawConfidenceScore: result.rawConfidenceScore ?? result.confidenceScore ?? null,
+        detectedModel: result.detectedModel ?? null,
+        provider: analysis.provider ?? null,
+        model: analysis.model ?? null,
+        promptVersion: analysis.promptVersion ?? null,
+        schemaVersion: analysis.schemaVersion ?? null,
+        // Video verdicts aggregate frames, so no provider score corresponds to the label.
+        providers: analysis.mediaType === 'video' ? [] : providerPredictions(analysis),
+      },
+      ...parsed.feedback,
+      createdAt,
+      updatedAt: now,
+    });
+    await db
+      .collection('users')
+      .doc(userId)
+      .collection('analyze1')
+      .doc(analysisId)
+      .update({
+        feedback: { verdict: parsed.feedback.verdict, trueLabel: parsed.feedback.trueLabel, updatedAt: now },
+      });
+
+    logger.info(
+      { userId, analysisId, verdict: parsed.feedback.verdict, trueLabel: parsed.feedback.trueLabel },
+      'Verdict feedback recorded'
+    );
+    return { feedbackId, analysisId, ...parsed.feedback, createdAt, updatedAt: now };
+  }
+
+  parseExportFilters(query: Record<string, unknown>): DatasetExportFilters {
+    const maxRows = config.analysis.feedback.exportMaxRows;
+    const limit = query.limit === undefined || query.limit === '' ? maxRows : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxRows) {
+      throw new FeedbackError('invalid_filter', `limit must be an integer between 1 and ${maxRows}`);
+    }
+    return {
+      since: parseDate(query.since, 'since'),
+      until: parseDate(query.until, 'until'),
+      label: parseChoice(query.label, 'label', ['ai', 'real']),
+      verdict: parseChoice(query.verdict, 'verdict', ['correct', 'incorrect']),
+      limit,
+    };
+  }
+
+  /**
+   * Walk the labeled dataset oldest first. Label and verdict are filtered in memory so the
+   * export only needs the single-field `createdAt` index.
+   */
+  async *manifest(filters: DatasetExportFilters): AsyncGenerator<DatasetManifestRecord> {
+    const bucketName = storage.bucket().name || null;
+
+    let query = this.feedback().orderBy('createdAt');
+    if (filters.since) query = query.where('createdAt', '>=', filters.since);
+    if (filters.until) query = query.where('createdAt', '<', filters.until);
+
+    let emitted = 0;
+    let last: QueryDocumentSnapshot | null = null;
+    while (emitted < filters.limit) {
+      let page = query.limit(EXPORT_PAGE_SIZE);
+      if (last) page = page.startAfter(last);
+      const docs = (await page.get()).docs as QueryDocumentSnapshot[];
+
+      for (const doc of docs) {
+        last = doc;
+        const data = doc.data() as Record<string, any>;
+        if (filters.label && data.trueLabel !== filters.label) continue;
+        if (filters.verdict && data.verdict !== filters.verdict) continue;
+        yield toManifestRecord(doc.id, data, bucketName);
+        emitted += 1;
+        if (emitted >= filters.limit) return;
+      }
+      if (docs.length < EXPORT_PAGE_SIZE) return;
+    }
+  }
+
+  /**
+   * Drop the labeled example when its analysis (and stored media) is purged.
+   */
+  async removeForAnalysis(userId: string, analysisId: string): Promise<void> {
+    await this.feedback().doc(this.feedbackId(userId, analysisId)).delete();
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -48,5 +48,26 @@ export class HashService {
       return false;
     }
   }
-}
 
+  /**
+   * Hash an API key secret using Argon2id
+   */
+  static async hashApiKey(secret: string): Promise<string> {
+    return argon2.hash(secret, {
+      ...this.ARGON2_OPTIONS,
+      memoryCost: 2 ** 14, // 16 MB (lighter for frequent operations)
+      timeCost: 2,
+    });
+  }
+
+  /**
+   * Verify an API key secret against its hash
+   */
+  static async verifyApiKey(secret: string, hash: string): Promise<boolean> {
+    try {
+      return await argon2.verify(hash, secret);
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export class ProviderUnavailableError extends Error {
+  code = 'provider_unavailable';
+  status = 503;
+  provider: string;
+  retryAt: Date | null;
+
+  constructor(provider: string, retryAt: Date | null) {
+    super(`Provider "${provider}" is temporarily unavailable`);
+    this.provider = provider;
+    this.retryAt = retryAt;
+  }
+}
+
+export interface HttpClientPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failed calls (after retries) that open the breaker.
+  failureThreshold: number;
+  // How long the breaker stays open before a single trial call is let through.
+  resetTimeoutMs: number;
+}
+
+export interface HttpRequestOptions {
+  url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  data?: unknown;
+  headers?: Record<string, string>;
+  params?: Record<string, unknown>;
+  responseType?: 'json' | 'arraybuffer' | 'text';
+}
+
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  headers: Record<string, any>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: any) => {
+  const status = error?.response?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.includes(status);
+  return RETRYABLE_ERROR_CODES.includes(error?.code) || !error?.response;
+};
+
+/**
+ * `Retry-After` is either delta-seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: unknown, now = Date.now()): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private readonly name: string;
+  private readonly policy: HttpClientPolicy;
+
+  constructor(name: string, policy: HttpClientPolicy) {
+    this.name = name;
+    this.policy = policy;
+  }
+
+  /**
+   * Throws when the breaker is open. After `resetTimeoutMs` exactly one trial call passes.
+   */
+  acquire(): void {
+    if (this.state === 'closed') return;
+    const retryAt = (this.openedAt ?? 0) + this.policy.resetTimeoutMs;
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new ProviderUnavailableError(this.name, new Date(retryAt));
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info({ client: this.name }, 'Circuit breaker closed');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.policy.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(
+          { client: this.name, consecutiveFailures: this.consecutiveFailures },
+          'Circuit breaker opened'
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.openedAt ? new Date(this.openedAt + this.policy.resetTimeoutMs).toISOString() : null,
+    };
+  }
+}
+
+/**
+ * axios wrapper with a per-client timeout, exponential backoff with full jitter (or the
+ * server's `Retry-After`), and a circuit breaker that fails fast with `provider_unavailable`.
+ */
+export class ResilientHttpClient {
+  readonly name: string;
+  private readonly policy: HttpClientPolicy;
+  private breaker: CircuitBreaker;
+
+  constructor(name: string, policy: HttpClientPolicy) {
+    this.name = name;
+    this.policy = policy;
+    this.breaker = new CircuitBreaker(name, policy);
+  }
+
+  get<T>(url: string, options: Omit<HttpRequestOptions, 'url' | 'method' | 'data'> = {}) {
+    return this.request<T>({ ...options, url, method: 'GET' });
+  }
+
+  post<T>(url: string, data?: unknown, options: Omit<HttpRequestOptions, 'url' | 'method' | 'data'> = {}) {
+    return this.request<T>({ ...options, url, method: 'POST', data });
+  }
+
+  async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
+    this.breaker.acquire();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.request<any>({
+          url: options.url,
+          method: options.method || 'GET',
+          data: options.data,
+          headers: options.headers,
+          params: options.params,
+          responseType: options.responseType,
+          timeout: this.policy.timeoutMs,
+        });
+        this.breaker.recordSuccess();
+        return { data: response.data, status: response.status, headers: response.headers };
+      } catch (error: any) {
+        const retryable = isRetryable(error);
+        const delay = retryable && attempt < this.policy.maxRetries ? this.retryDelay(error, attempt) : null;
+
+        if (delay === null) {
+          // Client errors (4xx other than throttling) say nothing about provider health.
+          if (retryable) {
+            this.breaker.recordFailure();
+          } else {
+            this.breaker.recordSuccess();
+          }
+          throw error;
+        }
+
+        logger.warn(
+          {
+            client: this.name,
+            attempt: attempt + 1,
+            status: error?.response?.status,
+            code: error?.code,
+            delayMs: delay,
+          },
+          'Retrying outbound request'
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return this.breaker.snapshot();
+  }
+
+  // null when a server-requested wait exceeds what we are willing to sleep inline.
+  private retryDelay(error: any, attempt: number): number | null {
+    const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter <= this.policy.maxDelayMs ? retryAfter : null;
+    }
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+class HttpClientRegistry {
+  private clients = new Map<string, ResilientHttpClient>();
+
+  /**
+   * One client (and breaker) per upstream; the first caller's timeout wins.
+   */
+  get(name: string, timeoutMs: number): ResilientHttpClient {
+    let client = this.clients.get(name);
+    if (!client) {
+      client = new ResilientHttpClient(name, { ...config.http, timeoutMs });
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+
+  snapshot(): Record<string, CircuitSnapshot> {
+    return Object.fromEntries(
+      Array.from(this.clients.entries()).map(([name, client]) => [name, client.snapshot()])
+    );
+  }
+}
+
+export const httpClientRegistry = new HttpClientRegistry();
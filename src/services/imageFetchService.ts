@@ -0,0 +1,216 @@
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { isIP } from 'net';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createSafeLookup, isBlockedAddress } from '../utils/ipRanges';
+import { auditService } from './auditService';
+
+export class ImageFetchError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface ImageFetchContext {
+  requestId?: string;
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface FetchedImage {
+  buffer: Buffer;
+  contentType: string;
+  finalUrl: string;
+  redirects: number;
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const blockedError = () =>
+  new ImageFetchError('image_url_blocked', 'imageUrl points to a disallowed address', 400);
+
+const safeLookup = createSafeLookup(blockedError);
+
+const parseTarget = (raw: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new ImageFetchError('image_url_invalid', 'imageUrl is not a valid URL', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw blockedError();
+  }
+  if (url.username || url.password) {
+    throw new ImageFetchError('image_url_invalid', 'imageUrl must not contain credentials', 400);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw blockedError();
+  }
+  return url;
+};
+
+class ImageFetchService {
+  /**
+   * Download an image from a user-supplied URL with SSRF protections: http(s) only,
+   * resolved addresses checked against blocked ranges, bounded redirects, a content-type
+   * allowlist, a streaming byte cap and one deadline covering the whole fetch.
+   */
+  async fetch(rawUrl: string, context: ImageFetchContext): Promise<FetchedImage> {
+    const settings = config.analysis.fetch;
+    const deadline = Date.now() + settings.timeoutMs;
+    let current = rawUrl;
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const url = parseTarget(current);
+        const response = await this.request(url, deadline);
+        const location = response.headers.location;
+
+        if (REDIRECT_STATUSES.includes(response.statusCode || 0) && location) {
+          response.resume();
+          if (redirects >= settings.maxRedirects) {
+            throw new ImageFetchError('image_url_too_many_redirects', 'imageUrl redirected too many times', 400);
+          }
+          current = new URL(location, url).toString();
+          continue;
+        }
+
+        return {
+          ...(await this.readBody(response, deadline)),
+          finalUrl: url.toString(),
+          redirects,
+        };
+      }
+    } catch (error) {
+      if (error instanceof ImageFetchError && error.code === 'image_url_blocked') {
+        await this.auditBlocked(rawUrl, current, context);
+      }
+      throw error;
+    }
+  }
+
+  private request(url: URL, deadline: number): Promise<IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = client.get(
+        url,
+        {
+          lookup: safeLookup,
+          headers: {
+            Accept: config.analysis.fetch.allowedContentTypes.join(', '),
+            'User-Agent': 'ai-or-real-image-fetcher/1.0',
+          },
+        },
+        (response) => {
+          clearTimeout(timer);
+          resolve(response);
+        }
+      );
+      const timer = setTimeout(
+        () => req.destroy(new ImageFetchError('image_fetch_timeout', 'Timed out fetching imageUrl', 504)),
+        Math.max(0, deadline - Date.now())
+      );
+      req.on('error', (error) => {
+        clearTimeout(timer);
+        reject(
+          error instanceof ImageFetchError
+            ? error
+            : new ImageFetchError('image_fetch_failed', `Failed to fetch imageUrl: ${error.message}`, 502)
+        );
+      });
+    });
+  }
+
+  private readBody(
+    response: IncomingMessage,
+    deadline: number
+  ): Promise<{ buffer: Buffer; contentType: string }> {
+    const maxBytes = config.analysis.image.maxBytes;
+    const status = response.statusCode || 0;
+    const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    const declaredLength = Number(response.headers['content-length'] || 0);
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      return Promise.reject(
+        new ImageFetchError('image_fetch_failed', `imageUrl responded with status ${status}`, 502)
+      );
+    }
+    if (!config.analysis.fetch.allowedContentTypes.includes(contentType)) {
+      response.resume();
+      return Promise.reject(
+        new ImageFetchError('unsupported_image_type', `Content type "${contentType}" is not allowed`, 415)
+      );
+    }
+    if (declaredLength > maxBytes) {
+      response.destroy();
+      return Promise.reject(
+        new ImageFetchError('image_too_large', `Image exceeds the ${maxBytes} byte limit`, 413)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+      const fail = (error: ImageFetchError) => {
+        clearTimeout(timer);
+        response.destroy();
+        reject(error);
+      };
+      const timer = setTimeout(
+        () => fail(new ImageFetchError('image_fetch_timeout', 'Timed out fetching imageUrl', 504)),
+        Math.max(0, deadline - Date.now())
+      );
+
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          fail(new ImageFetchError('image_too_large', `Image exceeds the ${maxBytes} byte limit`, 413));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => {
+        clearTimeout(timer);
+        resolve({ buffer: Buffer.concat(chunks), contentType });
+      });
+      response.on('error', (error) => {
+        fail(new ImageFetchError('image_fetch_failed', `Failed to fetch imageUrl: ${error.message}`, 502));
+      });
+    });
+  }
+
+  private async auditBlocked(requestedUrl: string, blockedUrl: string, context: ImageFetchContext) {
+    logger.warn(
+      { requestId: context.requestId, userId: context.userId, requestedUrl, blockedUrl },
+      'Blocked imageUrl fetch'
+    );
+    try {
+      await auditService.logSecurityEvent(
+        'suspicious_activity',
+        context.userId,
+        {
+          type: 'ssrf_blocked',
+          requestId: context.requestId,
+          requestedUrl,
+          blockedUrl,
+        },
+        context.ipAddress,
+        context.userAgent
+      );
+    } catch (error) {
+      logger.warn({ err: error, requestId: context.requestId }, 'Failed to audit blocked imageUrl fetch');
+    }
+  }
+}
+
+export const imageFetchService = new ImageFetchService();
@@ -0,0 +1,305 @@
+import { createCanvas, loadImage } from 'canvas';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  IMAGE_MIME_TYPES,
+  ImageFormat,
+  readHeicDimensions,
+  sniffImageFormat,
+} from '../utils/imageFormat';
+import { extractImageMetadata, ImageMetadataReport } from '../utils/imageMetadata';
+import type { RegionAnnotations } from '../types/analysis';
+
+export class ImageValidationError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface PreparedImage {
+  format: ImageFormat;
+  mimeType: string;
+  buffer: Buffer;
+  width: number | null;
+  height: number | null;
+  originalBytes: number;
+  originalWidth: number | null;
+  originalHeight: number | null;
+  orientation: number;
+  normalized: boolean;
+  // Parsed from the original bytes; re-encoding drops EXIF/XMP.
+  metadata: ImageMetadataReport;
+}
+
+// Canvas transforms for EXIF orientations 2-8, given the drawn (unrotated) width and height.
+const orientationTransform = (
+  orientation: number,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] | null => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return null;
+  }
+};
+
+class ImageProcessingService {
+  /**
+   * Reject payloads that are obviously over the byte limit before decoding base64.
+   */
+  assertEncodedSize(base64Length: number): void {
+    if (Math.floor((base64Length * 3) / 4) > config.analysis.image.maxBytes) {
+      throw new ImageValidationError(
+        'image_too_large',
+        `Image exceeds the ${config.analysis.image.maxBytes} byte limit`,
+        413
+      );
+    }
+  }
+
+  /**
+   * Validate an uploaded image and normalize it for inference: sniff the real format,
+   * enforce the allowlist and size limits, apply EXIF orientation and downscale to
+   * `maxDimension`. Images that need neither step are passed through byte-for-byte.
+   */
+  async prepare(buffer: Buffer, requestId?: string): Promise<PreparedImage> {
+    const limits = config.analysis.image;
+
+    if (!buffer.length) {
+      throw new ImageValidationError('invalid_image', 'Image payload is empty');
+    }
+    if (buffer.length > limits.maxBytes) {
+      throw new ImageValidationError('image_too_large', `Image exceeds the ${limits.maxBytes} byte limit`, 413);
+    }
+
+    const format = sniffImageFormat(buffer);
+    if (!format) {
+      throw new ImageValidationError('unsupported_image_type', 'Image format could not be recognized', 415);
+    }
+    if (!limits.allowedFormats.includes(format)) {
+      throw new ImageValidationError('unsupported_image_type', `Image format "${format}" is not allowed`, 415);
+    }
+
+    const metadata = extractImageMetadata(buffer);
+    const dimensions = format === 'heic'
+      ? readHeicDimensions(buffer)
+      : metadata.width && metadata.height
+        ? { width: metadata.width, height: metadata.height }
+        : null;
+
+    // Checked on header dimensions so decompression bombs are refused before decoding.
+    if (dimensions && dimensions.width * dimensions.height > limits.maxPixels) {
+      throw new ImageValidationError(
+        'image_dimensions_exceeded',
+        `Image exceeds the ${limits.maxPixels} pixel limit`,
+        413
+      );
+    }
+
+    const orientation = typeof metadata.exif.Orientation === 'number' ? metadata.exif.Orientation : 1;
+    const base: PreparedImage = {
+      format,
+      mimeType: IMAGE_MIME_TYPES[format],
+      buffer,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      originalBytes: buffer.length,
+      originalWidth: dimensions?.width ?? null,
+      originalHeight: dimensions?.height ?? null,
+      orientation,
+      normalized: false,
+      metadata,
+    };
+
+    // node-canvas cannot decode HEIC; the providers accept it as-is.
+    if (format === 'heic') {
+      return base;
+    }
+
+    const reoriented = orientation >= 2 && orientation <= 8;
+    // The installed canvas has no WebP decoder either, so WebP is only accepted when it needs no normalizing.
+    if (format === 'webp') {
+      if (dimensions && Math.max(dimensions.width, dimensions.height) <= limits.maxDimension && !reoriented) {
+        return base;
+      }
+      throw new ImageValidationError(
+        'image_decode_failed',
+        `WebP images must be at most ${limits.maxDimension}px per side and not rotated`,
+        422
+      );
+    }
+
+    let image: Awaited<ReturnType<typeof loadImage>>;
+    try {
+      image = await loadImage(buffer);
+    } catch (error) {
+      logger.warn({ requestId, format, err: error }, 'Image decode failed');
+      throw new ImageValidationError('image_decode_failed', 'Image could not be decoded', 422);
+    }
+
+    const sourceWidth = image.width;
+    const sourceHeight = image.height;
+    if (sourceWidth * sourceHeight > limits.maxPixels) {
+      throw new ImageValidationError(
+        'image_dimensions_exceeded',
+        `Image exceeds the ${limits.maxPixels} pixel limit`,
+        413
+      );
+    }
+
+    const scale = Math.min(1, limits.maxDimension / Math.max(sourceWidth, sourceHeight));
+    if (scale === 1 && !reoriented) {
+      return { ...base, width: sourceWidth, height: sourceHeight };
+    }
+
+    const drawWidth = Math.max(1, Math.round(sourceWidth * scale));
+    const drawHeight = Math.max(1, Math.round(sourceHeight * scale));
+    const rotated = orientation >= 5 && reoriented;
+    const canvas = createCanvas(rotated ? drawHeight : drawWidth, rotated ? drawWidth : drawHeight);
+    const ctx = canvas.getContext('2d');
+    const matrix = orientationTransform(orientation, drawWidth, drawHeight);
+    if (matrix) {
+      ctx.transform(...matrix);
+    }
+    ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+    // PNG keeps transparency; everything else is re-encoded as JPEG since canvas cannot write WebP.
+    const outputFormat: ImageFormat = format === 'png' ? 'png' : 'jpeg';
+    const output = outputFormat === 'png'
+      ? canvas.toBuffer('image/png')
+      : canvas.toBuffer('image/jpeg', { quality: limits.jpegQuality });
+
+    logger.info(
+      {
+        requestId,
+        format,
+        outputFormat,
+        orientation,
+        from: `${sourceWidth}x${sourceHeight}`,
+        to: `${canvas.width}x${canvas.height}`,
+        bytes: { before: buffer.length, after: output.length },
+      },
+      'Image normalized for inference'
+    );
+
+    return {
+      ...base,
+      format: outputFormat,
+      mimeType: IMAGE_MIME_TYPES[outputFormat],
+      buffer: output,
+      width: canvas.width,
+      height: canvas.height,
+      originalWidth: sourceWidth,
+      originalHeight: sourceHeight,
+      normalized: true,
+    };
+  }
+
+  /**
+   * Small metadata-free JPEG for public pages. Returns null for formats canvas cannot decode.
+   */
+  async thumbnail(buffer: Buffer, maxDimension: number): Promise<Buffer | null> {
+    const format = sniffImageFormat(buffer);
+    if (!format || format === 'heic') {
+      return null;
+    }
+
+    let image: Awaited<ReturnType<typeof loadImage>>;
+    try {
+      image = await loadImage(buffer);
+    } catch (error) {
+      logger.warn({ format, err: error }, 'Thumbnail decode failed');
+      return null;
+    }
+
+    const exifOrientation = extractImageMetadata(buffer).exif.Orientation;
+    const orientation = typeof exifOrientation === 'number' ? exifOrientation : 1;
+    const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+    const drawWidth = Math.max(1, Math.round(image.width * scale));
+    const drawHeight = Math.max(1, Math.round(image.height * scale));
+    const rotated = orientation >= 5 && orientation <= 8;
+    const canvas = createCanvas(rotated ? drawHeight : drawWidth, rotated ? drawWidth : drawHeight);
+    const ctx = canvas.getContext('2d');
+    const matrix = orientationTransform(orientation, drawWidth, drawHeight);
+    if (matrix) {
+      ctx.transform(...matrix);
+    }
+    ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+    return canvas.toBuffer('image/jpeg', { quality: config.analysis.image.jpegQuality });
+  }
+
+  /**
+   * Draw region annotations over an image: grid tiles shaded by AI likelihood, boxes
+   * outlined and labelled. Returns a PNG, or null when the image cannot be decoded.
+   */
+  async renderRegionOverlay(
+    buffer: Buffer,
+    regions: RegionAnnotations,
+    maxDimension: number
+  ): Promise<Buffer | null> {
+    let image: Awaited<ReturnType<typeof loadImage>>;
+    try {
+      image = await loadImage(buffer);
+    } catch (error) {
+      logger.warn({ err: error }, 'Overlay decode failed');
+      return null;
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0, width, height);
+
+    if (regions.grid) {
+      const { rows, cols, scores } = regions.grid;
+      const tileWidth = width / cols;
+      const tileHeight = height / rows;
+      scores.forEach((score, index) => {
+        const x = (index % cols) * tileWidth;
+        const y = Math.floor(index / cols) * tileHeight;
+        ctx.fillStyle = `rgba(231, 76, 60, ${((score / 100) * 0.6).toFixed(3)})`;
+        ctx.fillRect(x, y, tileWidth, tileHeight);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, tileWidth, tileHeight);
+      });
+    }
+
+    const lineWidth = Math.max(2, Math.round(Math.max(width, height) / 300));
+    const fontSize = Math.max(12, Math.round(Math.max(width, height) / 60));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    (regions.boxes || []).forEach((box) => {
+      const color = box.score >= 50 ? '#e74c3c' : '#f39c12';
+      const x = box.x * width;
+      const y = box.y * height;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(x, y, box.width * width, box.height * height);
+
+      const caption = `${box.label ? `${box.label} ` : ''}${Math.round(box.score)}%`;
+      const captionWidth = ctx.measureText(caption).width + 8;
+      const captionY = y >= fontSize + 6 ? y - fontSize - 6 : y;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, captionY, captionWidth, fontSize + 6);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(caption, x + 4, captionY + fontSize);
+    });
+
+    return canvas.toBuffer('image/png');
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
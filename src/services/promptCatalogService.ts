@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface PromptTemplate {
+  locale: string;
+  version: number;
+  prompt: string;
+}
+
+export interface ResolvedPrompt {
+  templateId: string;
+  // Locale of the template that was used, after fallback.
+  locale: string;
+  requestedLocale: string | null;
+  version: number;
+  prompt: string;
+}
+
+const templatesRoot = path.join(__dirname, '../templates/prompts');
+
+/**
+ * Canonical BCP 47 casing: `pt_br` → `pt-BR`, `zh-hant-tw` → `zh-Hant-TW`.
+ */
+export const normalizeLocale = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const parts = value.trim().replace(/_/g, '-').split('-').filter(Boolean);
+  if (!parts.length || !/^[a-z]{2,3}$/i.test(parts[0])) return null;
+  return parts
+    .map((part, index) => {
+      if (index === 0) return part.toLowerCase();
+      if (part.length === 4) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      return part.length <= 3 ? part.toUpperCase() : part.toLowerCase();
+    })
+    .join('-');
+};
+
+/**
+ * `pt-BR` → [`pt-BR`, `pt`, <default>]: subtags are dropped one at a time.
+ */
+export const buildFallbackChain = (locale: string | null, defaultLocale: string): string[] => {
+  const chain: string[] = [];
+  if (locale) {
+    const parts = locale.split('-');
+    for (let length = parts.length; length > 0; length--) {
+      chain.push(parts.slice(0, length).join('-'));
+    }
+  }
+  chain.push(defaultLocale);
+  return Array.from(new Set(chain));
+};
+
+class PromptCatalogService {
+  private catalogs = new Map<string, Map<string, PromptTemplate>>();
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * Read every `<templateId>/<locale>.json` file under the templates directory.
+   */
+  load(): void {
+    this.catalogs.clear();
+    if (!fs.existsSync(templatesRoot)) {
+      logger.warn({ root: templatesRoot }, 'Prompt template directory not found');
+      return;
+    }
+
+    fs.readdirSync(templatesRoot, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .forEach((dir) => {
+        const templates = new Map<string, PromptTemplate>();
+        fs.readdirSync(path.join(templatesRoot, dir.name))
+          .filter((file) => file.endsWith('.json'))
+          .forEach((file) => {
+            const filePath = path.join(templatesRoot, dir.name, file);
+            try {
+              const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+              const locale = normalizeLocale(raw.locale ?? path.basename(file, '.json'));
+              if (!locale || typeof raw.prompt !== 'string' || !Number.isInteger(raw.version)) {
+                logger.warn({ filePath }, 'Skipping invalid prompt template');
+                return;
+              }
+              templates.set(locale.toLowerCase(), { locale, version: raw.version, prompt: raw.prompt });
+            } catch (error) {
+              logger.warn({ filePath, err: error }, 'Failed to load prompt template');
+            }
+          });
+        this.catalogs.set(dir.name, templates);
+      });
+
+    logger.info(
+      {
+        templates: Array.from(this.catalogs.entries()).map(([id, templates]) => ({
+          id,
+          locales: Array.from(templates.values()).map((template) => template.locale),
+        })),
+      },
+      'Prompt templates loaded'
+    );
+  }
+
+  locales(templateId: string): string[] {
+    return Array.from(this.catalogs.get(templateId)?.values() ?? []).map((template) => template.locale);
+  }
+
+  /**
+   * Pick the template for the requested locale, walking its fallback chain down to the
+   * configured default locale.
+   */
+  resolve(templateId: string, requested?: unknown): ResolvedPrompt {
+    const templates = this.catalogs.get(templateId);
+    const requestedLocale = normalizeLocale(requested);
+    const chain = buildFallbackChain(requestedLocale, config.analysis.prompts.defaultLocale);
+
+    for (const locale of chain) {
+      const template = templates?.get(locale.toLowerCase());
+      if (template) {
+        return { templateId, requestedLocale, ...template };
+      }
+    }
+
+    throw new Error(`No prompt template "${templateId}" for locales ${chain.join(', ')}`);
+  }
+}
+
+export const promptCatalogService = new PromptCatalogService();
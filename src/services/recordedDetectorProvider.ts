@@ -0,0 +1,119 @@
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import { DetectorError } from './detectorService';
+import type { AnalysisResult, DetectorInput, DetectorOutput, DetectorProvider } from '../types/analysis';
+
+// One line of a recordings file.
+export interface DetectorRecording {
+  sampleId: string;
+  provider: string;
+  model: string;
+  result: AnalysisResult;
+  recordedAt: string;
+}
+
+// Evaluation runs tag each request so recordings can be matched without hashing media.
+export const EVALUATION_REQUEST_PREFIX = 'eval:';
+
+const sampleIdOf = (input: DetectorInput) =>
+  input.requestId.startsWith(EVALUATION_REQUEST_PREFIX)
+    ? input.requestId.slice(EVALUATION_REQUEST_PREFIX.length)
+    : null;
+
+export const loadRecordings = (filePath: string): DetectorRecording[] =>
+  fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const recording = JSON.parse(line);
+      if (typeof recording?.sampleId !== 'string' || typeof recording?.provider !== 'string' || !recording.result) {
+        throw new Error(`Invalid recording on line ${index + 1} of ${filePath}`);
+      }
+      return recording as DetectorRecording;
+    });
+
+/**
+ * Replays validated results captured by `RecordingDetectorProvider`, so an evaluation can
+ * run in CI without network access or API keys. It takes the recorded provider's name so
+ * ensemble weights apply as they did live; a sample without a recording fails like a
+ * provider error would.
+ */
+export class RecordedDetectorProvider implements DetectorProvider {
+  readonly name: string;
+  readonly model: string;
+  private recordings: Map<string, DetectorRecording>;
+
+  constructor(name: string, recordings: DetectorRecording[]) {
+    this.name = name;
+    this.recordings = new Map(
+      recordings
+        .filter((recording) => recording.provider === name)
+        .map((recording) => [recording.sampleId, recording])
+    );
+    this.model = this.recordings.values().next().value?.model ?? 'recorded';
+  }
+
+  isConfigured() {
+    return this.recordings.size > 0;
+  }
+
+  async detect(input: DetectorInput): Promise<DetectorOutput> {
+    const sampleId = sampleIdOf(input);
+    const recording = sampleId ? this.recordings.get(sampleId) : undefined;
+    if (!recording) {
+      throw new DetectorError(
+        'recording_missing',
+        `No recorded "${this.name}" response for sample "${sampleId ?? input.requestId}"`,
+        404
+      );
+    }
+    return { provider: this.name, model: recording.model, result: recording.result };
+  }
+}
+
+/**
+ * Wraps a live provider and appends every validated result to a JSONL recordings file.
+ */
+export class RecordingDetectorProvider implements DetectorProvider {
+  readonly name: string;
+  private inner: DetectorProvider;
+  private filePath: string;
+
+  constructor(inner: DetectorProvider, filePath: string) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.filePath = filePath;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  get mediaTypes() {
+    return this.inner.mediaTypes;
+  }
+
+  isConfigured() {
+    return this.inner.isConfigured();
+  }
+
+  async detect(input: DetectorInput): Promise<DetectorOutput> {
+    const output = await this.inner.detect(input);
+    const sampleId = sampleIdOf(input);
+    if (sampleId) {
+      const recording: DetectorRecording = {
+        sampleId,
+        provider: this.name,
+        model: output.model,
+        result: output.result,
+        recordedAt: new Date().toISOString(),
+      };
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(recording)}\n`);
+    } else {
+      logger.warn({ requestId: input.requestId, provider: this.name }, 'Detector response not recorded');
+    }
+    return output;
+  }
+}
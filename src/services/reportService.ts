@@ -0,0 +1,425 @@
+import { createCanvas, loadImage, CanvasRenderingContext2D } from 'canvas';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import { ReportLabels, resolveReportLabels } from '../utils/reportLabels';
+import type { AnalysisResult } from '../types/analysis';
+import { analysisHistoryService, HistoryError } from './analysisHistoryService';
+import { imageProcessingService } from './imageProcessingService';
+
+const OVERLAY_MAX_DIMENSION = 1600;
+
+export interface RenderedReport {
+  buffer: Buffer;
+  fileName: string;
+  locale: string;
+}
+
+// A4 in PDF points.
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const FOOTER_HEIGHT = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT = 'sans-serif';
+
+const COLORS = {
+  brand: '#1f2a44',
+  text: '#2d2d2d',
+  muted: '#777777',
+  rule: '#dddddd',
+  track: '#e6e6e6',
+  ai: '#c0392b',
+  authentic: '#27ae60',
+  gan: '#8e44ad',
+  diffusion: '#e67e22',
+  organic: '#27ae60',
+};
+
+const EVIDENCE_EXIF_FIELDS = ['Make', 'Model', 'Software', 'DateTimeOriginal'];
+
+/**
+ * Top-to-bottom page writer: tracks the cursor, breaks pages and stamps the footer.
+ */
+class ReportWriter {
+  y = MARGIN;
+  private page = 1;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly labels: ReportLabels;
+
+  constructor(ctx: CanvasRenderingContext2D, labels: ReportLabels) {
+    this.ctx = ctx;
+    this.labels = labels;
+  }
+
+  font(size: number, weight: 'normal' | 'bold' = 'normal', color = COLORS.text) {
+    this.ctx.font = `${weight} ${size}px ${FONT}`;
+    this.ctx.fillStyle = color;
+  }
+
+  ensure(height: number) {
+    if (this.y + height <= PAGE_HEIGHT - FOOTER_HEIGHT) return;
+    this.footer();
+    this.ctx.addPage(PAGE_WIDTH, PAGE_HEIGHT);
+    this.page += 1;
+    this.y = MARGIN;
+  }
+
+  footer() {
+    const top = PAGE_HEIGHT - FOOTER_HEIGHT + 12;
+    this.ctx.save();
+    this.ctx.fillStyle = COLORS.rule;
+    this.ctx.fillRect(MARGIN, top, CONTENT_WIDTH, 0.5);
+    this.font(7, 'normal', COLORS.muted);
+    this.wrap(this.labels.disclaimer, CONTENT_WIDTH - 60).forEach((line, index) => {
+      this.ctx.fillText(line, MARGIN, top + 14 + index * 9);
+    });
+    const pageLabel = `${this.labels.page} ${this.page}`;
+    this.ctx.fillText(pageLabel, PAGE_WIDTH - MARGIN - this.ctx.measureText(pageLabel).width, top + 14);
+    this.ctx.restore();
+  }
+
+  wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    String(text ?? '').split(/\n/).forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.ctx.measureText(candidate).width > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  paragraph(text: string, size = 10, color = COLORS.text) {
+    this.font(size, 'normal', color);
+    const lineHeight = size * 1.4;
+    this.wrap(text, CONTENT_WIDTH).forEach((line) => {
+      this.ensure(lineHeight);
+      this.ctx.fillText(line, MARGIN, this.y + size);
+      this.y += lineHeight;
+    });
+  }
+
+  heading(text: string) {
+    this.ensure(40);
+    this.y += 12;
+    this.font(13, 'bold', COLORS.brand);
+    this.ctx.fillText(text, MARGIN, this.y + 13);
+    this.y += 20;
+    this.ctx.fillStyle = COLORS.rule;
+    this.ctx.fillRect(MARGIN, this.y, CONTENT_WIDTH, 0.5);
+    this.y += 8;
+  }
+
+  keyValues(rows: Array<[string, string]>) {
+    const keyWidth = 170;
+    rows.forEach(([key, value]) => {
+      this.font(9);
+      const lines = this.wrap(value || '—', CONTENT_WIDTH - keyWidth);
+      const height = Math.max(1, lines.length) * 13 + 3;
+      this.ensure(height);
+      this.font(9, 'bold', COLORS.muted);
+      this.ctx.fillText(key, MARGIN, this.y + 10);
+      this.font(9);
+      lines.forEach((line, index) => this.ctx.fillText(line, MARGIN + keyWidth, this.y + 10 + index * 13));
+      this.y += height;
+    });
+  }
+
+  get context() {
+    return this.ctx;
+  }
+}
+
+class ReportService {
+  /**
+   * Render a stored analysis as a branded PDF in the analysis language (or `locale`).
+   */
+  async render(userId: string, analysisId: string, options: { locale?: unknown } = {}): Promise<RenderedReport> {
+    const analysis = await analysisHistoryService.get(userId, analysisId);
+    if (analysis.deleted) {
+      throw new HistoryError('item_deleted', 'History item is deleted; restore it first', 409);
+    }
+    if (!analysis.result) {
+      throw new HistoryError('not_ready', 'This analysis has no result to report', 409);
+    }
+
+    const { locale, labels } = resolveReportLabels(options.locale ?? analysis.language);
+    const result = analysis.result as AnalysisResult;
+    const canvas = createCanvas(PAGE_WIDTH, PAGE_HEIGHT, 'pdf');
+    const writer = new ReportWriter(canvas.getContext('2d'), labels);
+    const formatDate = (value: unknown) => {
+      const date = toDate(value);
+      if (!date) return '—';
+      return `${new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }).format(date)} UTC`;
+    };
+
+    this.drawHeader(writer, labels);
+    writer.keyValues([
+      [labels.analysisId, analysisId],
+      [labels.analyzedAt, formatDate(analysis.createdAt)],
+      [labels.generatedAt, formatDate(new Date())],
+      [labels.analysisModel, [analysis.provider, analysis.model].filter(Boolean).join(' / ')],
+    ]);
+
+    await this.drawSummary(writer, labels, result, analysis);
+    this.drawBreakdown(writer, labels, result);
+
+    writer.heading(labels.verdict);
+    writer.paragraph(result.verdict || '—');
+
+    this.drawFindings(writer, labels, result);
+
+    const specs = result.technicalSpecs || ({} as NonNullable<AnalysisResult['technicalSpecs']>);
+    writer.heading(labels.technicalSpecs);
+    writer.keyValues([
+      [labels.dimensions, specs.dimensions],
+      [labels.colorSpace, specs.colorSpace],
+      [labels.modelId, specs.modelId],
+      [labels.entropy, specs.entropy],
+      [labels.camera, specs.camera || '—'],
+      [labels.software, specs.software || '—'],
+    ]);
+
+    this.drawMetadataEvidence(writer, labels, analysis);
+    writer.footer();
+
+    return {
+      buffer: canvas.toBuffer('application/pdf', {
+        title: `${labels.title} – ${analysisId}`,
+        creator: 'Ai or Real',
+        creationDate: new Date(),
+      }),
+      fileName: `forensic-report-${analysisId}.pdf`,
+      locale,
+    };
+  }
+
+  /**
+   * PNG of the stored image with the analysis' region annotations drawn on top.
+   */
+  async renderOverlay(userId: string, analysisId: string): Promise<Buffer> {
+    const analysis = await analysisHistoryService.get(userId, analysisId);
+    if (analysis.deleted) {
+      throw new HistoryError('item_deleted', 'History item is deleted; restore it first', 409);
+    }
+    const regions = (analysis.result as AnalysisResult | undefined)?.regions;
+    if (!regions) {
+      throw new HistoryError('regions_unavailable', 'This analysis has no region annotations', 404);
+    }
+
+    const image = await analysisHistoryService.downloadImage(analysis);
+    if (!image) {
+      throw new HistoryError('image_unavailable', 'The analyzed image is no longer stored', 404);
+    }
+    const overlay = await imageProcessingService.renderRegionOverlay(image, regions, OVERLAY_MAX_DIMENSION);
+    if (!overlay) {
+      throw new HistoryError('image_decode_failed', 'The analyzed image could not be decoded', 422);
+    }
+    return overlay;
+  }
+
+  private drawHeader(writer: ReportWriter, labels: ReportLabels) {
+    const ctx = writer.context;
+    ctx.fillStyle = COLORS.brand;
+    ctx.fillRect(0, 0, PAGE_WIDTH, 76);
+    writer.font(20, 'bold', '#ffffff');
+    ctx.fillText('Ai or Real', MARGIN, 38);
+    writer.font(11, 'normal', '#ffffff');
+    ctx.fillText(labels.title, MARGIN, 58);
+    writer.y = 96;
+  }
+
+  private async loadThumbnail(analysis: Record<string, any>) {
+    try {
+      const original = await analysisHistoryService.downloadImage(analysis);
+      const thumbnail = original ? await imageProcessingService.thumbnail(original, 480) : null;
+      return thumbnail ? await loadImage(thumbnail) : null;
+    } catch (error) {
+      logger.warn({ err: error, analysisId: analysis.analysisId }, 'Report thumbnail unavailable');
+      return null;
+    }
+  }
+
+  /**
+   * Thumbnail on the left; verdict, confidence gauge and detected model on the right.
+   */
+  private async drawSummary(
+    writer: ReportWriter,
+    labels: ReportLabels,
+    result: AnalysisResult,
+    analysis: Record<string, any>
+  ) {
+    const ctx = writer.context;
+    const box = 200;
+    writer.ensure(box + 16);
+    const top = writer.y + 12;
+
+    const image = await this.loadThumbnail(analysis);
+    if (image) {
+      const scale = Math.min(box / image.width, box / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      ctx.drawImage(image, MARGIN + (box - width) / 2, top + (box - height) / 2, width, height);
+    } else {
+      ctx.fillStyle = COLORS.track;
+      ctx.fillRect(MARGIN, top, box, box);
+      writer.font(9, 'normal', COLORS.muted);
+      const width = ctx.measureText(labels.noImage).width;
+      ctx.fillText(labels.noImage, MARGIN + (box - width) / 2, top + box / 2);
+    }
+
+    const left = MARGIN + box + 24;
+    const accent = result.isAI ? COLORS.ai : COLORS.authentic;
+    writer.font(9, 'bold', COLORS.muted);
+    ctx.fillText(labels.verdict.toUpperCase(), left, top + 12);
+    writer.font(16, 'bold', accent);
+    ctx.fillText(result.isAI ? labels.likelyAI : labels.likelyAuthentic, left, top + 34);
+
+    // Half-circle gauge filled clockwise in proportion to the confidence score.
+    const confidence = Math.max(0, Math.min(100, Number(result.confidenceScore) || 0));
+    const radius = 62;
+    const centerX = left + radius + 8;
+    const centerY = top + 130;
+    ctx.lineWidth = 14;
+    ctx.lineCap = 'butt';
+    ctx.strokeStyle = COLORS.track;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, Math.PI, 2 * Math.PI);
+    ctx.stroke();
+    ctx.strokeStyle = accent;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, Math.PI, Math.PI + (Math.PI * confidence) / 100);
+    ctx.stroke();
+    writer.font(18, 'bold');
+    const score = `${Math.round(confidence)}%`;
+    ctx.fillText(score, centerX - ctx.measureText(score).width / 2, centerY - 4);
+    writer.font(9, 'normal', COLORS.muted);
+    ctx.fillText(labels.confidence, centerX - ctx.measureText(labels.confidence).width / 2, centerY + 14);
+
+    writer.font(9, 'bold', COLORS.muted);
+    ctx.fillText(labels.detectedModel, left, top + 172);
+    writer.font(11);
+    ctx.fillText(result.detectedModel || '—', left, top + 188);
+
+    writer.y = top + box + 8;
+  }
+
+  private drawBreakdown(writer: ReportWriter, labels: ReportLabels, result: AnalysisResult) {
+    const breakdown = result.probabilityBreakdown;
+    if (!breakdown) return;
+    writer.heading(labels.breakdown);
+    writer.ensure(48);
+
+    const ctx = writer.context;
+    const segments: Array<[string, number, string]> = [
+      [labels.gan, breakdown.gan, COLORS.gan],
+      [labels.diffusion, breakdown.diffusion, COLORS.diffusion],
+      [labels.organic, breakdown.organic, COLORS.organic],
+    ];
+    const total = segments.reduce((sum, [, value]) => sum + Math.max(0, value), 0) || 1;
+
+    let x = MARGIN;
+    segments.forEach(([, value, color]) => {
+      const width = (CONTENT_WIDTH * Math.max(0, value)) / total;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, writer.y, width, 16);
+      x += width;
+    });
+
+    let legendX = MARGIN;
+    const legendY = writer.y + 34;
+    segments.forEach(([label, value, color]) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(legendX, legendY - 8, 8, 8);
+      writer.font(9);
+      const text = `${label} ${Math.round(value * 10) / 10}%`;
+      ctx.fillText(text, legendX + 12, legendY);
+      legendX += ctx.measureText(text).width + 32;
+    });
+    writer.y += 44;
+  }
+
+  private drawFindings(writer: ReportWriter, labels: ReportLabels, result: AnalysisResult) {
+    const findings = Array.isArray(result.findings) ? result.findings : [];
+    writer.heading(labels.findings);
+    if (!findings.length) {
+      writer.paragraph(labels.none, 10, COLORS.muted);
+      return;
+    }
+
+    const ctx = writer.context;
+    const columns = [140, 64, CONTENT_WIDTH - 140 - 64];
+    const drawHeader = () => {
+      writer.ensure(20);
+      ctx.fillStyle = COLORS.track;
+      ctx.fillRect(MARGIN, writer.y, CONTENT_WIDTH, 18);
+      writer.font(9, 'bold', COLORS.brand);
+      [labels.finding, labels.status, labels.description].reduce((x, title, index) => {
+        ctx.fillText(title, x + 4, writer.y + 12);
+        return x + columns[index];
+      }, MARGIN);
+      writer.y += 22;
+    };
+
+    drawHeader();
+    findings.forEach((finding) => {
+      writer.font(9);
+      const titleLines = writer.wrap(finding.title, columns[0] - 8);
+      const descriptionLines = writer.wrap(finding.description, columns[2] - 8);
+      const height = Math.max(titleLines.length, descriptionLines.length) * 12 + 8;
+      const before = writer.y;
+      writer.ensure(height);
+      if (writer.y < before) {
+        drawHeader();
+      }
+
+      writer.font(9, 'bold');
+      titleLines.forEach((line, index) => ctx.fillText(line, MARGIN + 4, writer.y + 10 + index * 12));
+      const alert = finding.status === 'alert';
+      writer.font(9, 'bold', alert ? COLORS.ai : COLORS.authentic);
+      ctx.fillText(alert ? labels.alert : labels.secure, MARGIN + columns[0] + 4, writer.y + 10);
+      writer.font(9);
+      descriptionLines.forEach((line, index) =>
+        ctx.fillText(line, MARGIN + columns[0] + columns[1] + 4, writer.y + 10 + index * 12)
+      );
+      writer.y += height;
+      ctx.fillStyle = COLORS.rule;
+      ctx.fillRect(MARGIN, writer.y - 4, CONTENT_WIDTH, 0.5);
+    });
+  }
+
+  private drawMetadataEvidence(writer: ReportWriter, labels: ReportLabels, analysis: Record<string, any>) {
+    const metadata = analysis.metadata || {};
+    const exif = metadata.exif || {};
+    const signals: Array<{ source: string; field: string; value: string }> = Array.isArray(metadata.aiSignals)
+      ? metadata.aiSignals
+      : [];
+    const c2pa = metadata.c2pa?.present
+      ? `${labels.present}${metadata.c2pa.claimGenerator ? ` (${metadata.c2pa.claimGenerator})` : ''}`
+      : labels.absent;
+
+    writer.heading(labels.metadataEvidence);
+    writer.keyValues([
+      [labels.sha256, analysis.imageHash?.sha256 || '—'],
+      [labels.contentCredentials, c2pa],
+      [
+        labels.aiSignals,
+        signals.length
+          ? signals.map((signal) => `${signal.source}.${signal.field}: ${signal.value}`).join('\n')
+          : labels.none,
+      ],
+      ...EVIDENCE_EXIF_FIELDS.filter((field) => exif[field] !== undefined).map(
+        (field): [string, string] => [`EXIF ${field}`, String(exif[field])]
+      ),
+    ]);
+  }
+}
+
+export const reportService = new ReportService();
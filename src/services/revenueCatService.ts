@@ -1,6 +1,6 @@
-import axios from 'axios';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { httpClientRegistry } from './httpClient';
 
 type BillingRetryState = {
   billingIssuesDetectedAt: string | null;
@@ -23,6 +23,10 @@ export interface RevenueCatCheckResult {
 class RevenueCatService {
   private baseUrl = config.revenueCat.baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
 
+  private get client() {
+    return httpClientRegistry.get('revenuecat', config.revenueCat.timeoutMs);
+  }
+
   private get headers() {
     if (!config.revenueCat.apiKey) {
       throw new Error('Missing RevenueCat API key');
@@ -37,10 +41,7 @@ class RevenueCatService {
   async fetchSubscriber(appUserId: string): Promise<any> {
     try {
       const url = `${this.baseUrl}/v1/subscribers/${encodeURIComponent(appUserId)}`;
-      const response = await axios.get(url, {
-        headers: this.headers,
-        timeout: config.revenueCat.timeoutMs,
-      });
+      const response = await this.client.get<any>(url, { headers: this.headers });
 
       return response.data;
     } catch (error) {
@@ -67,14 +68,7 @@ class RevenueCatService {
 
     const url = `${this.baseUrl}/v1/subscribers/${encodeURIComponent(sourceAppUserId)}/alias`;
     try {
-      await axios.post(
-        url,
-        { new_app_user_id: targetAppUserId },
-        {
-          headers: this.headers,
-          timeout: config.revenueCat.timeoutMs,
-        }
-      );
+      await this.client.post(url, { new_app_user_id: targetAppUserId }, { headers: this.headers });
       logger.info({ sourceAppUserId, targetAppUserId }, 'RevenueCat alias created successfully');
     } catch (error) {
       logger.error({ err: error, sourceAppUserId, targetAppUserId }, 'Failed to create RevenueCat alias');
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { db, FieldValue, storage } from '../firebase';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import { sanitizeHTML } from '../validation/schemas';
+import { PublicVerdict, toPublicVerdict } from '../utils/publicVerdict';
+import { imageProcessingService } from './imageProcessingService';
+
+export class ShareError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface ShareLink {
+  id: string;
+  analysisId: string;
+  url: string;
+  htmlUrl: string;
+  createdAt: Date | null;
+  expiresAt: Date | null;
+  revoked: boolean;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+}
+
+const SHARE_COLLECTION = 'analysisShares';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const templatesRoot = path.join(__dirname, '../templates/share');
+const verdictTemplate = fs.readFileSync(path.join(templatesRoot, 'verdict.html'), 'utf-8');
+
+const render = (template: string, replacements: Record<string, string | number>) =>
+  Object.entries(replacements).reduce(
+    (output, [key, value]) => output.replace(new RegExp(`{{${key}}}`, 'g'), () => String(value)),
+    template
+  );
+
+class ShareService {
+  private shares() {
+    return db.collection(SHARE_COLLECTION);
+  }
+
+  private analysisRef(userId: string, analysisId: string) {
+    return db.collection('users').doc(userId).collection('analyze1').doc(analysisId);
+  }
+
+  private toLink(id: string, data: Record<string, any>): ShareLink {
+    const url = `${config.api.baseUrl}/share/${id}`;
+    return {
+      id,
+      analysisId: data.analysisId,
+      url,
+      htmlUrl: `${url}?format=html`,
+      createdAt: toDate(data.createdAt),
+      expiresAt: toDate(data.expiresAt),
+      revoked: Boolean(data.revoked),
+      revokedAt: toDate(data.revokedAt),
+      viewCount: typeof data.viewCount === 'number' ? data.viewCount : 0,
+      lastViewedAt: toDate(data.lastViewedAt),
+    };
+  }
+
+  private parseExpiry(expiresInDays: unknown): Date | null {
+    if (expiresInDays === undefined || expiresInDays === null) return null;
+    const days = Number(expiresInDays);
+    const max = config.analysis.share.maxExpiryDays;
+    if (typeof expiresInDays === 'boolean' || !Number.isFinite(days) || days <= 0 || days > max) {
+      throw new ShareError('invalid_request', `expiresInDays must be a number between 0 and ${max}`);
+    }
+    return new Date(Date.now() + days * DAY_MS);
+  }
+
+  /**
+   * Store a metadata-free thumbnail next to the link so the public page never
+   * exposes the original upload or its long-lived URL.
+   */
+  private async createThumbnail(shareId: string, analysis: Record<string, any>): Promise<string | null> {
+    if (analysis.mediaType === 'audio') return null;
+    if (typeof analysis.storagePath !== 'string' || !analysis.storagePath) return null;
+    try {
+      const bucket = storage.bucket();
+      const [original] = await (bucket.file(analysis.storagePath) as any).download();
+      const thumbnail = await imageProcessingService.thumbnail(
+        original,
+        config.analysis.share.thumbnailMaxDimension
+      );
+      if (!thumbnail) return null;
+
+      const thumbnailPath = `shares/${shareId}.jpg`;
+      await (bucket.file(thumbnailPath) as any).save(thumbnail, {
+        contentType: 'image/jpeg',
+        resumable: false,
+        metadata: { contentType: 'image/jpeg' },
+      });
+      return thumbnailPath;
+    } catch (error) {
+      logger.warn({ err: error, shareId, storagePath: analysis.storagePath }, 'Failed to create share thumbnail');
+      return null;
+    }
+  }
+
+  private async signThumbnail(thumbnailPath: unknown): Promise<PublicVerdict['thumbnail']> {
+    if (typeof thumbnailPath !== 'string' || !thumbnailPath) return null;
+    const expiresAt = new Date(Date.now() + config.analysis.share.thumbnailUrlTtlSeconds * 1000);
+    try {
+      const [url] = await (storage.bucket().file(thumbnailPath) as any).getSignedUrl({
+        action: 'read',
+        expires: expiresAt,
+      });
+      return { url, expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+      logger.warn({ err: error, thumbnailPath }, 'Failed to sign share thumbnail URL');
+      return null;
+    }
+  }
+
+  private async deleteThumbnail(thumbnailPath: unknown) {
+    if (typeof thumbnailPath !== 'string' || !thumbnailPath) return;
+    try {
+      await storage.bucket().file(thumbnailPath).delete();
+    } catch (error: any) {
+      if (error?.code !== 404) {
+        logger.warn({ err: error, thumbnailPath }, 'Failed to delete share thumbnail');
+      }
+    }
+  }
+
+  async create(userId: string, analysisId: string, options: { expiresInDays?: unknown } = {}): Promise<ShareLink> {
+    const expiresAt = this.parseExpiry(options.expiresInDays);
+
+    const snap = await this.analysisRef(userId, analysisId).get();
+    const analysis = snap.exists ? (snap.data() as Record<string, any>) : null;
+    if (!analysis || (analysis.userId && analysis.userId !== userId)) {
+      throw new ShareError('NOT_FOUND', 'History item not found', 404);
+    }
+    if (analysis.deleted) {
+      throw new ShareError('item_deleted', 'History item is deleted; restore it first', 409);
+    }
+    if (!analysis.result) {
+      throw new ShareError('not_shareable', 'Only completed analyses can be shared', 409);
+    }
+
+    const active = (await this.list(userId, analysisId)).filter((link) => !link.revoked);
+    if (active.length >= config.analysis.share.maxLinksPerAnalysis) {
+      throw new ShareError('share_limit_reached', 'Too many active share links for this analysis', 409);
+    }
+
+    const id = randomBytes(16).toString('base64url');
+    const data = {
+      userId,
+      analysisId,
+      createdAt: new Date(),
+      expiresAt,
+      revoked: false,
+      revokedAt: null,
+      viewCount: 0,
+      lastViewedAt: null,
+      thumbnailPath: await this.createThumbnail(id, analysis),
+    };
+    await this.shares().doc(id).set(data);
+    logger.info({ userId, analysisId, shareId: id, expiresAt }, 'Share link created');
+    return this.toLink(id, data);
+  }
+
+  async list(userId: string, analysisId: string): Promise<ShareLink[]> {
+    const snapshot = await this.shares()
+      .where('userId', '==', userId)
+      .where('analysisId', '==', analysisId)
+      .get();
+    return (snapshot.docs as QueryDocumentSnapshot[])
+      .map((doc) => this.toLink(doc.id, doc.data()))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async revoke(userId: string, analysisId: string, shareId: string): Promise<ShareLink> {
+    const ref = this.shares().doc(shareId);
+    const snap = await ref.get();
+    const data = snap.exists ? (snap.data() as Record<string, any>) : null;
+    if (!data || data.userId !== userId || data.analysisId !== analysisId) {
+      throw new ShareError('share_not_found', 'Share link not found', 404);
+    }
+    if (data.revoked) {
+      return this.toLink(shareId, data);
+    }
+
+    const updates = { revoked: true, revokedAt: new Date(), thumbnailPath: null };
+    await ref.update(updates);
+    await this.deleteThumbnail(data.thumbnailPath);
+    logger.info({ userId, analysisId, shareId }, 'Share link revoked');
+    return this.toLink(shareId, { ...data, ...updates });
+  }
+
+  /**
+   * Resolve a public link and count the view. Revoked, expired and deleted analyses
+   * answer 410 so clients can tell a dead link from a mistyped one.
+   */
+  async view(shareId: string): Promise<PublicVerdict> {
+    const ref = this.shares().doc(shareId);
+    const snap = await ref.get();
+    const share = snap.exists ? (snap.data() as Record<string, any>) : null;
+    if (!share) {
+      throw new ShareError('share_not_found', 'Share link not found', 404);
+    }
+    if (share.revoked) {
+      throw new ShareError('share_revoked', 'This share link has been revoked', 410);
+    }
+    const expiresAt = toDate(share.expiresAt);
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new ShareError('share_expired', 'This share link has expired', 410);
+    }
+
+    const analysisSnap = await this.analysisRef(share.userId, share.analysisId).get();
+    const analysis = analysisSnap.exists ? (analysisSnap.data() as Record<string, any>) : null;
+    if (!analysis || analysis.deleted || !analysis.result) {
+      throw new ShareError('share_unavailable', 'The shared analysis is no longer available', 410);
+    }
+
+    try {
+      await ref.update({ viewCount: FieldValue.increment(1), lastViewedAt: new Date() });
+    } catch (error) {
+      logger.warn({ err: error, shareId }, 'Failed to record share view');
+    }
+
+    return toPublicVerdict(shareId, analysis, await this.signThumbnail(share.thumbnailPath));
+  }
+
+  renderHtml(verdict: PublicVerdict): string {
+    const headline = verdict.isAI ? 'Likely AI-generated' : 'Likely authentic';
+    const thumbnailUrl = verdict.thumbnail ? sanitizeHTML(verdict.thumbnail.url) : '';
+    return render(verdictTemplate, {
+      language: sanitizeHTML(verdict.language || 'en'),
+      headline,
+      accent: verdict.isAI ? '#c0392b' : '#27ae60',
+      confidence: Math.round(verdict.confidenceScore),
+      verdict: sanitizeHTML(verdict.verdict),
+      analyzedAt: verdict.analyzedAt ? verdict.analyzedAt.slice(0, 10) : '',
+      ogImage: thumbnailUrl ? `<meta property="og:image" content="${thumbnailUrl}" />` : '',
+      thumbnail: thumbnailUrl
+        ? `<img src="${thumbnailUrl}" alt="" style="max-width: 100%; border-radius: 8px;" />`
+        : '',
+      findings: verdict.findings
+        .map((finding) => `<li><strong>${sanitizeHTML(finding.title)}</strong>: ${sanitizeHTML(finding.description)}</li>`)
+        .join('\n      '),
+    });
+  }
+
+  /**
+   * Drop every link (and thumbnail) for an analysis that is being permanently deleted.
+   */
+  async removeForAnalysis(userId: string, analysisId: string): Promise<void> {
+    const snapshot = await this.shares()
+      .where('userId', '==', userId)
+      .where('analysisId', '==', analysisId)
+      .get();
+    for (const doc of snapshot.docs as QueryDocumentSnapshot[]) {
+      await this.deleteThumbnail(doc.data().thumbnailPath);
+      await doc.ref.delete();
+    }
+  }
+
+  /**
+   * Drop every link and thumbnail a user owns. Used when the account is deleted.
+   */
+  async removeForUser(userId: string): Promise<number> {
+    const snapshot = await this.shares().where('userId', '==', userId).get();
+    for (const doc of snapshot.docs as QueryDocumentSnapshot[]) {
+      await this.deleteThumbnail(doc.data().thumbnailPath);
+      await doc.ref.delete();
+    }
+    return snapshot.size;
+  }
+}
+
+export const shareService = new ShareService();
@@ -0,0 +1,99 @@
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from '../firebase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { hammingDistance, MAX_BANDED_DISTANCE, toHashBands } from '../utils/imageHash';
+
+export interface SimilarAnalysis {
+  analysisId: string;
+  userId: string;
+  distance: number;
+  imageUrl: string | null;
+  isAI: boolean | null;
+  confidenceScore: number | null;
+  verdict: string | null;
+  createdAt: any;
+}
+
+export interface FindSimilarOptions {
+  allUsers?: boolean;
+  maxDistance?: number;
+  limit?: number;
+}
+
+export class SimilarityError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Bands stored with each analysis, sized for the configured search distance.
+ */
+export const similarityBands = (dhash: string | null): string[] =>
+  dhash ? toHashBands(dhash, config.analysis.similarity.maxDistance) : [];
+
+class SimilarityService {
+  /**
+   * Find visually similar analyses to `analysisId` using the stored dHash bands as a
+   * candidate filter and the exact Hamming distance for ranking.
+   */
+  async findSimilar(
+    userId: string,
+    analysisId: string,
+    options: FindSimilarOptions = {}
+  ): Promise<SimilarAnalysis[]> {
+    const sourceSnap = await db.collection('users').doc(userId).collection('analyze1').doc(analysisId).get();
+    if (!sourceSnap.exists) {
+      throw new SimilarityError('NOT_FOUND', 'History item not found', 404);
+    }
+    const dhash: string | null = (sourceSnap.data() as any)?.imageHash?.dhash ?? null;
+    if (!dhash) {
+      throw new SimilarityError('hash_unavailable', 'No perceptual hash stored for this analysis', 422);
+    }
+
+    // Stored bands only guarantee a shared band up to the configured distance.
+    const bandedDistance = Math.min(Math.max(0, config.analysis.similarity.maxDistance), MAX_BANDED_DISTANCE);
+    const maxDistance = Math.min(Math.max(0, Number(options.maxDistance ?? bandedDistance)), bandedDistance);
+    const limit = Math.min(Math.max(1, Number(options.limit ?? 20)), 100);
+    const baseQuery = options.allUsers
+      ? db.collectionGroup('analyze1')
+      : db.collection('users').doc(userId).collection('analyze1');
+
+    const snapshot = await baseQuery
+      .where('imageHash.bands', 'array-contains-any', toHashBands(dhash, bandedDistance))
+      .limit(config.analysis.similarity.candidateLimit)
+      .get();
+
+    const matches: SimilarAnalysis[] = (snapshot.docs as QueryDocumentSnapshot[])
+      .map((doc) => doc.data() as any)
+      .filter((data) => data.analysisId !== analysisId && !data.deleted && data.imageHash?.dhash)
+      .map((data) => ({
+        analysisId: data.analysisId,
+        userId: data.userId,
+        distance: hammingDistance(dhash, data.imageHash.dhash),
+        imageUrl: data.imageUrl ?? null,
+        isAI: data.result?.isAI ?? null,
+        confidenceScore: data.result?.confidenceScore ?? null,
+        verdict: data.result?.verdict ?? null,
+        createdAt: data.createdAt ?? null,
+      }))
+      .filter((match) => match.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+
+    logger.info(
+      { userId, analysisId, allUsers: Boolean(options.allUsers), candidates: snapshot.size, matches: matches.length },
+      'Similar analyses lookup completed'
+    );
+
+    return matches;
+  }
+}
+
+export const similarityService = new SimilarityService();
@@ -0,0 +1,202 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { MediaToolError, runMediaTool } from '../utils/mediaTool';
+import { sniffVideoFormat, VIDEO_EXTENSIONS, VIDEO_MIME_TYPES, VideoFormat } from '../utils/mediaFormat';
+
+export class VideoValidationError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface VideoProbe {
+  // null for single-frame GIFs and streams without a container duration.
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface SampledFrame {
+  index: number;
+  timestampSeconds: number;
+  buffer: Buffer;
+}
+
+export interface SampledVideo {
+  format: VideoFormat;
+  mimeType: string;
+  bytes: number;
+  sha256: string;
+  probe: VideoProbe;
+  frames: SampledFrame[];
+}
+
+const MAX_FRAME_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Evenly spaced sample points, one per `secondsPerFrame` up to `maxFrames`, taken from
+ * the middle of each slice so the first (often black) and last frames are skipped.
+ */
+export const planFrameTimestamps = (
+  durationSeconds: number | null,
+  maxFrames: number,
+  secondsPerFrame: number
+): number[] => {
+  if (!durationSeconds || durationSeconds <= 0) return [0];
+  const count = Math.max(1, Math.min(maxFrames, Math.ceil(durationSeconds / secondsPerFrame)));
+  return Array.from(
+    { length: count },
+    (_, index) => Math.round(((durationSeconds * (index + 0.5)) / count) * 1000) / 1000
+  );
+};
+
+class VideoFrameService {
+  /**
+   * Reject payloads that are obviously over the byte limit before decoding base64.
+   */
+  assertEncodedSize(base64Length: number): void {
+    if (Math.floor((base64Length * 3) / 4) > config.analysis.video.maxBytes) {
+      throw new VideoValidationError(
+        'video_too_large',
+        `Video exceeds the ${config.analysis.video.maxBytes} byte limit`,
+        413
+      );
+    }
+  }
+
+  /**
+   * Validate a clip or animated GIF and extract JPEG key frames with ffmpeg. Seeking before
+   * the input (`-ss` ahead of `-i`) snaps to the nearest key frame, which keeps it fast.
+   */
+  async sample(buffer: Buffer, requestId?: string): Promise<SampledVideo> {
+    const limits = config.analysis.video;
+
+    if (!buffer.length) {
+      throw new VideoValidationError('invalid_video', 'Video payload is empty');
+    }
+    if (buffer.length > limits.maxBytes) {
+      throw new VideoValidationError('video_too_large', `Video exceeds the ${limits.maxBytes} byte limit`, 413);
+    }
+    const format = sniffVideoFormat(buffer);
+    if (!format) {
+      throw new VideoValidationError('unsupported_video_type', 'Video format could not be recognized', 415);
+    }
+    if (!limits.allowedFormats.includes(format)) {
+      throw new VideoValidationError('unsupported_video_type', `Video format "${format}" is not allowed`, 415);
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'video-'));
+    const input = path.join(dir, `${randomUUID()}.${VIDEO_EXTENSIONS[format]}`);
+    try {
+      await fs.writeFile(input, buffer);
+      const probe = await this.probe(input);
+      if (probe.durationSeconds && probe.durationSeconds > limits.maxDurationSeconds) {
+        throw new VideoValidationError(
+          'video_too_long',
+          `Video exceeds the ${limits.maxDurationSeconds} second limit`,
+          413
+        );
+      }
+
+      const timestamps = planFrameTimestamps(probe.durationSeconds, limits.maxFrames, limits.secondsPerFrame);
+      const frames: SampledFrame[] = [];
+      for (const [index, timestampSeconds] of timestamps.entries()) {
+        const frame = await this.run(limits.ffmpegPath, [
+          '-v', 'error',
+          '-ss', String(timestampSeconds),
+          '-i', input,
+          '-frames:v', '1',
+          '-f', 'image2',
+          '-c:v', 'mjpeg',
+          '-q:v', '3',
+          'pipe:1',
+        ]);
+        if (frame.length) {
+          frames.push({ index, timestampSeconds, buffer: frame });
+        }
+      }
+      if (!frames.length) {
+        throw new VideoValidationError('video_decode_failed', 'No frames could be extracted from the video', 422);
+      }
+
+      logger.info(
+        { requestId, format, bytes: buffer.length, durationSeconds: probe.durationSeconds, frames: frames.length },
+        'Video frames sampled'
+      );
+      return {
+        format,
+        mimeType: VIDEO_MIME_TYPES[format],
+        bytes: buffer.length,
+        sha256: createHash('sha256').update(buffer).digest('hex'),
+        probe,
+        frames,
+      };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch((error) => {
+        logger.warn({ err: error, dir }, 'Failed to remove video temp directory');
+      });
+    }
+  }
+
+  private async probe(input: string): Promise<VideoProbe> {
+    const output = await this.run(config.analysis.video.ffprobePath, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'format=duration:stream=width,height',
+      '-of', 'json',
+      input,
+    ]);
+    try {
+      const parsed = JSON.parse(output.toString('utf8'));
+      const stream = parsed.streams?.[0];
+      if (!stream) {
+        throw new VideoValidationError('video_decode_failed', 'Video has no video stream', 422);
+      }
+      const duration = Number(parsed.format?.duration);
+      return {
+        durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : null,
+        width: Number(stream.width) || null,
+        height: Number(stream.height) || null,
+      };
+    } catch (error) {
+      if (error instanceof VideoValidationError) throw error;
+      throw new VideoValidationError('video_decode_failed', 'Video could not be read', 422);
+    }
+  }
+
+  private async run(binary: string, args: string[]): Promise<Buffer> {
+    try {
+      return await runMediaTool(binary, args, {
+        timeoutMs: config.analysis.video.timeoutMs,
+        maxOutputBytes: MAX_FRAME_BYTES,
+      });
+    } catch (error) {
+      if (!(error instanceof MediaToolError)) throw error;
+      switch (error.reason) {
+        case 'timeout':
+          throw new VideoValidationError('video_processing_timeout', 'Video processing timed out', 504);
+        case 'unavailable':
+          throw new VideoValidationError(
+            'video_processing_unavailable',
+            'Video processing is not available',
+            error.missing ? 503 : 500
+          );
+        case 'output_too_large':
+          throw new VideoValidationError('video_decode_failed', 'Video frame output is too large', 422);
+        default:
+          throw new VideoValidationError('video_decode_failed', 'Video could not be decoded', 422);
+      }
+    }
+  }
+}
+
+export const videoFrameService = new VideoFrameService();
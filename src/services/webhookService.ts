@@ -0,0 +1,431 @@
+import http from 'http';
+import https from 'https';
+import { randomBytes } from 'crypto';
+import type { DocumentSnapshot, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { db } from '../firebase';
+import { logger } from '../utils/logger';
+import { toDate } from '../utils/dates';
+import { createSafeLookup } from '../utils/ipRanges';
+import {
+  parseWebhookEvents,
+  parseWebhookUrl,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookEvent,
+  webhookRetryDelaySeconds,
+} from '../utils/webhooks';
+
+export class WebhookError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface WebhookEndpoint {
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  // Only the last characters; the full secret is shown once, when it is generated.
+  secretHint: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  at: Date | null;
+  responseStatus: number | null;
+  durationMs: number;
+  error: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  log: WebhookDeliveryAttempt[];
+  createdAt: Date | null;
+  deliveredAt: Date | null;
+  payload: Record<string, any>;
+}
+
+const ENDPOINT_COLLECTION = 'webhookEndpoints';
+const DELIVERY_COLLECTION = 'webhookDeliveries';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LIST_LIMIT = 100;
+const MAX_ERROR_LENGTH = 500;
+
+const blockedError = () => new WebhookError('webhook_url_blocked', 'Callback URL resolves to a disallowed address');
+const safeLookup = createSafeLookup(blockedError);
+
+const newSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+class WebhookService {
+  private endpoints() {
+    return db.collection(ENDPOINT_COLLECTION);
+  }
+
+  private deliveries() {
+    return db.collection(DELIVERY_COLLECTION);
+  }
+
+  private toEndpoint(data: Record<string, any>): WebhookEndpoint {
+    return {
+      url: data.url,
+      events: Array.isArray(data.events) ? data.events : [],
+      enabled: data.enabled !== false,
+      secretHint: typeof data.secret === 'string' ? `…${data.secret.slice(-4)}` : '',
+      createdAt: toDate(data.createdAt),
+      updatedAt: toDate(data.updatedAt),
+    };
+  }
+
+  private toDelivery(id: string, data: Record<string, any>): WebhookDelivery {
+    return {
+      id,
+      event: data.event,
+      status: data.status,
+      attempts: typeof data.attempts === 'number' ? data.attempts : 0,
+      nextAttemptAt: toDate(data.nextAttemptAt),
+      lastAttemptAt: toDate(data.lastAttemptAt),
+      responseStatus: data.responseStatus ?? null,
+      error: data.error ?? null,
+      log: (Array.isArray(data.log) ? data.log : []).map((entry: any) => ({ ...entry, at: toDate(entry.at) })),
+      createdAt: toDate(data.createdAt),
+      deliveredAt: toDate(data.deliveredAt),
+      payload: data.payload ?? {},
+    };
+  }
+
+  async get(userId: string): Promise<WebhookEndpoint | null> {
+    const snap = await this.endpoints().doc(userId).get();
+    return snap.exists ? this.toEndpoint(snap.data() as Record<string, any>) : null;
+  }
+
+  /**
+   * Register or update the account's callback URL. A signing secret is generated on first
+   * registration and returned only then; `rotateSecret` issues a new one.
+   */
+  async configure(
+    userId: string,
+    input: { url?: unknown; events?: unknown; enabled?: unknown }
+  ): Promise<{ endpoint: WebhookEndpoint; secret: string | null }> {
+    const parsedUrl = parseWebhookUrl(input.url, config.webhooks.allowHttp);
+    if (!parsedUrl.ok) {
+      throw new WebhookError('invalid_webhook_url', parsedUrl.message);
+    }
+    const events = parseWebhookEvents(input.events);
+    if (!events) {
+      throw new WebhookError('invalid_request', 'events must be a non-empty list of supported events');
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new WebhookError('invalid_request', 'enabled must be a boolean');
+    }
+
+    const ref = this.endpoints().doc(userId);
+    const snap = await ref.get();
+    const existing = snap.exists ? (snap.data() as Record<string, any>) : null;
+    const now = new Date();
+    const secret = existing?.secret ? null : newSecret();
+    const data = {
+      ...(existing ?? {}),
+      userId,
+      url: parsedUrl.url,
+      events,
+      enabled: input.enabled ?? existing?.enabled ?? true,
+      secret: existing?.secret ?? secret,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await ref.set(data);
+    logger.info(
+      { userId, url: parsedUrl.url, events },
+      existing ? 'Webhook endpoint updated' : 'Webhook endpoint registered'
+    );
+    return { endpoint: this.toEndpoint(data), secret };
+  }
+
+  async rotateSecret(userId: string): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const ref = this.endpoints().doc(userId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      throw new WebhookError('webhook_not_found', 'No webhook endpoint is registered', 404);
+    }
+    const secret = newSecret();
+    const data = { ...(snap.data() as Record<string, any>), secret, updatedAt: new Date() };
+    await ref.set(data);
+    logger.info({ userId }, 'Webhook secret rotated');
+    return { endpoint: this.toEndpoint(data), secret };
+  }
+
+  /**
+   * Remove the endpoint. Pending deliveries fail on their next attempt.
+   */
+  async remove(userId: string): Promise<void> {
+    const ref = this.endpoints().doc(userId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      throw new WebhookError('webhook_not_found', 'No webhook endpoint is registered', 404);
+    }
+    await ref.delete();
+    logger.info({ userId }, 'Webhook endpoint removed');
+  }
+
+  /**
+   * Newest deliveries first. Filtered in memory so the log only needs the `userId` index.
+   */
+  async listDeliveries(
+    userId: string,
+    options: { status?: unknown; limit?: unknown } = {}
+  ): Promise<WebhookDelivery[]> {
+    const limit = options.limit === undefined || options.limit === '' ? 20 : Number(options.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      throw new WebhookError('invalid_request', `limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+    }
+    const statuses: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+    const status = options.status === '' ? undefined : options.status;
+    if (status !== undefined && !statuses.includes(status as WebhookDeliveryStatus)) {
+      throw new WebhookError('invalid_request', `status must be one of ${statuses.join(', ')}`);
+    }
+
+    const snapshot = await this.deliveries().where('userId', '==', userId).get();
+    return (snapshot.docs as QueryDocumentSnapshot[])
+      .map((doc) => this.toDelivery(doc.id, doc.data()))
+      .filter((delivery) => !status || delivery.status === status)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * Queue a finished or failed delivery again with a fresh attempt budget.
+   */
+  async redeliver(userId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const ref = this.deliveries().doc(deliveryId);
+    const snap = await ref.get();
+    const data = snap.exists ? (snap.data() as Record<string, any>) : null;
+    if (!data || data.userId !== userId) {
+      throw new WebhookError('delivery_not_found', 'Webhook delivery not found', 404);
+    }
+    if (data.status === 'pending') {
+      return this.toDelivery(deliveryId, data);
+    }
+    const updates = { status: 'pending', attempts: 0, nextAttemptAt: new Date(), error: null, updatedAt: new Date() };
+    await ref.update(updates);
+    this.deliverSoon(deliveryId);
+    return this.toDelivery(deliveryId, { ...data, ...updates });
+  }
+
+  /**
+   * Queue an event for the user's endpoint, if one is registered and subscribed, and try
+   * the first delivery right away. Never rejects: a webhook problem must not fail the
+   * analysis that triggered it.
+   */
+  async dispatch(userId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const endpoint = await this.get(userId);
+      if (!endpoint || !endpoint.enabled || !endpoint.events.includes(event)) return;
+
+      const ref = this.deliveries().doc();
+      const now = new Date();
+      await ref.set({
+        userId,
+        event,
+        // JSON round trip drops `undefined`, which Firestore rejects.
+        payload: JSON.parse(JSON.stringify({ id: ref.id, event, createdAt: now.toISOString(), data })),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        lastAttemptAt: null,
+        responseStatus: null,
+        error: null,
+        log: [],
+        createdAt: now,
+        updatedAt: now,
+        deliveredAt: null,
+      });
+      this.deliverSoon(ref.id);
+    } catch (error) {
+      logger.error({ err: error, userId, event }, 'Failed to queue webhook delivery');
+    }
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed. Runs on an interval; only needs the
+   * single-field `nextAttemptAt` index because settled deliveries clear it.
+   */
+  async processDue(): Promise<number> {
+    const snapshot = await this.deliveries()
+      .where('nextAttemptAt', '<=', new Date())
+      .orderBy('nextAttemptAt')
+      .limit(config.webhooks.sweepBatchSize)
+      .get();
+    const docs = snapshot.docs as QueryDocumentSnapshot[];
+    for (const doc of docs) {
+      await this.attempt(doc.id);
+    }
+    return docs.length;
+  }
+
+  /**
+   * Drop settled deliveries older than the retention window.
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.webhooks.deliveryRetentionDays * DAY_MS);
+    const snapshot = await this.deliveries().where('createdAt', '<', cutoff).limit(500).get();
+    const docs = (snapshot.docs as QueryDocumentSnapshot[]).filter((doc) => doc.data().status !== 'pending');
+    if (!docs.length) return 0;
+    const batch = db.batch();
+    docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    logger.info({ deleted: docs.length }, 'Expired webhook deliveries purged');
+    return docs.length;
+  }
+
+  private deliverSoon(deliveryId: string) {
+    setImmediate(() => {
+      this.attempt(deliveryId).catch((error) => {
+        logger.error({ err: error, deliveryId }, 'Webhook delivery worker crashed');
+      });
+    });
+  }
+
+  /**
+   * Claim a due delivery (pushing `nextAttemptAt` out by a lease so another instance's
+   * sweep skips it), POST it and record the outcome.
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    const ref = this.deliveries().doc(deliveryId);
+    const leaseMs = config.webhooks.timeoutMs + 60000;
+    const claimed = await db.runTransaction(async (tx: Transaction) => {
+      const snap = (await tx.get(ref)) as unknown as DocumentSnapshot;
+      const data = snap.exists ? (snap.data() as Record<string, any>) : null;
+      const due = toDate(data?.nextAttemptAt);
+      if (!data || data.status !== 'pending' || !due || due.getTime() > Date.now()) {
+        return null;
+      }
+      const attempts = (data.attempts ?? 0) + 1;
+      tx.update(ref, { attempts, nextAttemptAt: new Date(Date.now() + leaseMs) });
+      return { ...data, attempts };
+    });
+    if (!claimed) return;
+
+    const endpointSnap = await this.endpoints().doc(claimed.userId).get();
+    const endpoint = endpointSnap.exists ? (endpointSnap.data() as Record<string, any>) : null;
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!endpoint || endpoint.enabled === false) {
+      error = 'Webhook endpoint was removed or disabled';
+    } else {
+      try {
+        responseStatus = await this.post(endpoint.url, endpoint.secret, claimed.event, deliveryId, claimed.payload);
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Endpoint responded with status ${responseStatus}`;
+        }
+      } catch (postError: any) {
+        error = String(postError?.message ?? postError).slice(0, MAX_ERROR_LENGTH);
+      }
+    }
+
+    const now = new Date();
+    const delivered = error === null;
+    const exhausted = !endpoint || endpoint.enabled === false || claimed.attempts >= config.webhooks.maxAttempts;
+    const status: WebhookDeliveryStatus = delivered ? 'delivered' : exhausted ? 'failed' : 'pending';
+    const { retryBaseSeconds, retryMaxSeconds } = config.webhooks;
+    const nextAttemptAt =
+      status === 'pending'
+        ? new Date(now.getTime() + webhookRetryDelaySeconds(claimed.attempts, retryBaseSeconds, retryMaxSeconds) * 1000)
+        : null;
+    const entry: WebhookDeliveryAttempt = {
+      attempt: claimed.attempts,
+      at: now,
+      responseStatus,
+      durationMs: now.getTime() - startedAt,
+      error,
+    };
+
+    await ref.update({
+      status,
+      nextAttemptAt,
+      lastAttemptAt: now,
+      responseStatus,
+      error,
+      log: [...(Array.isArray(claimed.log) ? claimed.log : []), entry].slice(-config.webhooks.maxAttempts),
+      deliveredAt: delivered ? now : null,
+      updatedAt: now,
+    });
+
+    const context = {
+      deliveryId,
+      userId: claimed.userId,
+      event: claimed.event,
+      attempt: claimed.attempts,
+      responseStatus,
+    };
+    if (delivered) {
+      logger.info(context, 'Webhook delivered');
+    } else if (status === 'failed') {
+      logger.warn({ ...context, error }, 'Webhook delivery failed permanently');
+    } else {
+      logger.warn({ ...context, error, nextAttemptAt }, 'Webhook delivery failed, will retry');
+    }
+  }
+
+  /**
+   * POST the signed payload. Redirects are not followed; the response body is ignored.
+   */
+  private post(
+    rawUrl: string,
+    secret: string,
+    event: WebhookEvent,
+    deliveryId: string,
+    payload: Record<string, any>
+  ): Promise<number> {
+    const url = new URL(rawUrl);
+    const body = JSON.stringify(payload);
+    const client = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = client.request(
+        url,
+        {
+          method: 'POST',
+          lookup: safeLookup,
+          timeout: config.webhooks.timeoutMs,
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            'User-Agent': 'ai-or-real-webhooks/1.0',
+            [WEBHOOK_EVENT_HEADER]: event,
+            [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body, Math.floor(Date.now() / 1000)),
+          },
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode || 0);
+        }
+      );
+      req.on('timeout', () => req.destroy(new Error(`Timed out after ${config.webhooks.timeoutMs} ms`)));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,163 @@
+export type MediaType = 'image' | 'video' | 'audio';
+
+export type FindingStatus = 'alert' | 'secure';
+
+export interface AnalysisFinding {
+  title: string;
+  description: string;
+  type: string;
+  status: FindingStatus;
+}
+
+export interface ProbabilityBreakdown {
+  gan: number;
+  diffusion: number;
+  organic: number;
+}
+
+export interface TechnicalSpecs {
+  dimensions: string;
+  colorSpace: string;
+  modelId: string;
+  entropy: string;
+  camera?: string;
+  software?: string;
+  contentCredentials?: 'present' | 'absent';
+  metadataAiSignals?: number;
+}
+
+// Coordinates are fractions (0-1) of the analyzed image, origin top-left; scores are 0-100 AI likelihood.
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+  label?: string;
+}
+
+// Row-major per-tile scores; `scores.length === rows * cols`.
+export interface RegionGrid {
+  rows: number;
+  cols: number;
+  scores: number[];
+}
+
+export interface RegionAnnotations {
+  boxes?: RegionBox[];
+  grid?: RegionGrid;
+}
+
+export interface AnalysisResult {
+  isAI: boolean;
+  confidenceScore: number;
+  detectedModel: string;
+  verdict: string;
+  findings: AnalysisFinding[];
+  probabilityBreakdown: ProbabilityBreakdown;
+  // Image schemas only; voice analyses carry server-measured specs on the history item instead.
+  technicalSpecs?: TechnicalSpecs;
+  // Only present when the provider could localize artifacts.
+  regions?: RegionAnnotations;
+  // The model's own verdict and score when `confidenceScore` has been calibrated.
+  rawIsAI?: boolean;
+  rawConfidenceScore?: number;
+  calibration?: CalibrationInfo;
+}
+
+// Image analyses always report technical specs; only voice results leave them out.
+export interface ImageAnalysisResult extends AnalysisResult {
+  technicalSpecs: TechnicalSpecs;
+}
+
+export interface CalibrationInfo {
+  method: 'platt' | 'isotonic';
+  // Version of the parameters file that produced the calibrated score.
+  version: number;
+}
+
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface InlineAudio {
+  mimeType: string;
+  data: string;
+}
+
+export interface DetectorInput {
+  requestId: string;
+  userId?: string;
+  // Exactly one of `image` and `audio` is set.
+  image?: InlineImage;
+  audio?: InlineAudio;
+  language: string;
+  prompt: string;
+  schema: Record<string, any>;
+}
+
+export interface DetectorOutput {
+  provider: string;
+  model: string;
+  result: AnalysisResult;
+}
+
+export interface DetectorProvider {
+  readonly name: string;
+  readonly model: string;
+  // Media the provider can judge; images only when omitted. Video is analyzed as image frames.
+  readonly mediaTypes?: MediaType[];
+  isConfigured(): boolean;
+  detect(input: DetectorInput): Promise<DetectorOutput>;
+}
+
+export type EnsembleStrategy = 'weighted_average' | 'majority_vote' | 'max_confidence';
+
+export interface ProviderVerdict {
+  provider: string;
+  model: string;
+  weight: number;
+  status: 'fulfilled' | 'rejected';
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface EnsembleOutcome {
+  strategy: EnsembleStrategy;
+  verdicts: ProviderVerdict[];
+}
+
+export interface DetectionOutcome extends DetectorOutput {
+  ensemble: EnsembleOutcome | null;
+}
+
+// One sampled frame of a video analysis.
+export interface FrameVerdict {
+  index: number;
+  timestampSeconds: number;
+  status: 'fulfilled' | 'rejected';
+  isAI?: boolean;
+  confidenceScore?: number;
+  // 0-100 likelihood that the frame is AI-generated, regardless of the verdict direction.
+  aiScore?: number;
+  detectedModel?: string;
+  error?: string;
+}
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJobRecord {
+  id: string;
+  userId: string;
+  requestId: string;
+  status: AnalysisJobStatus;
+  analysisId: string | null;
+  result: AnalysisResult | null;
+  error: { code: string; message: string } | null;
+  sourceImageUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
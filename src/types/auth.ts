@@ -27,6 +27,21 @@ export interface Session {
   userAgent?: string;
 }
 
+export type ApiKeyScope = 'analysis:write' | 'history:read';
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  secretHash: string;
+  // Last characters of the key, so owners can tell keys apart in listings.
+  hint: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
 export interface DeviceInfo {
   os?: string;
   model?: string;
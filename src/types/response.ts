@@ -24,6 +24,16 @@ export interface PaginatedResponse<T = any> extends StandardResponse<T[]> {
   };
 }
 
+// Cursor-paginated lists have no page numbers; `nextCursor` is opaque and null on the last page.
+export interface CursorPaginatedResponse<T = any> extends StandardResponse<T[]> {
+  pagination?: {
+    limit: number;
+    total: number;
+    hasNext: boolean;
+    nextCursor: string | null;
+  };
+}
+
 export class ResponseBuilder {
   static success<T>(data: T, message?: string): StandardResponse<T> {
     return {
@@ -76,4 +86,26 @@ export class ResponseBuilder {
       },
     };
   }
+
+  static cursorPaginated<T>(
+    data: T[],
+    limit: number,
+    total: number,
+    nextCursor: string | null
+  ): CursorPaginatedResponse<T> {
+    return {
+      success: true,
+      data,
+      pagination: {
+        limit,
+        total,
+        hasNext: Boolean(nextCursor),
+        nextCursor,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: process.env.API_VERSION || 'v1',
+      },
+    };
+  }
 }
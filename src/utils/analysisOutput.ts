@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import {
+  AnalysisResult,
+  ProbabilityBreakdown,
+  RegionAnnotations,
+  RegionBox,
+  RegionGrid,
+} from '../types/analysis';
+
+export type ModelOutputParse =
+  | { ok: true; result: AnalysisResult }
+  | { ok: false; issues: string[] };
+
+const MAX_ISSUES = 10;
+const MAX_REGION_BOXES = 20;
+const MAX_GRID_SIZE = 32;
+
+/**
+ * Build a zod validator from a Gemini-style response schema (OBJECT/ARRAY/STRING/NUMBER/
+ * BOOLEAN, `enum`, `required`). Unknown keys are stripped.
+ */
+export const toZodSchema = (definition: any): z.ZodTypeAny => {
+  switch (String(definition?.type || '').toUpperCase()) {
+    case 'OBJECT': {
+      const required: string[] = Array.isArray(definition.required) ? definition.required : [];
+      const shape = Object.fromEntries(
+        Object.entries(definition.properties || {}).map(([key, property]) => {
+          const field = toZodSchema(property);
+          return [key, required.includes(key) ? field : field.optional()];
+        })
+      );
+      return z.object(shape);
+    }
+    case 'ARRAY':
+      return z.array(toZodSchema(definition.items));
+    case 'STRING':
+      return Array.isArray(definition.enum) && definition.enum.length
+        ? z.enum(definition.enum as [string, ...string[]])
+        : z.string();
+    case 'NUMBER':
+    case 'INTEGER':
+      return z.number().finite();
+    case 'BOOLEAN':
+      return z.boolean();
+    default:
+      return z.any();
+  }
+};
+
+const validators = new WeakMap<object, z.ZodTypeAny>();
+
+const getValidator = (definition: Record<string, any>) => {
+  let validator = validators.get(definition);
+  if (!validator) {
+    validator = toZodSchema(definition);
+    validators.set(definition, validator);
+  }
+  return validator;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Scale the breakdown so it sums to exactly 100; rounding drift goes to the largest share.
+ * An all-zero breakdown falls back to the verdict direction.
+ */
+export const normalizeBreakdown = (
+  breakdown: ProbabilityBreakdown,
+  isAI: boolean
+): ProbabilityBreakdown => {
+  const gan = Math.max(0, breakdown.gan);
+  const diffusion = Math.max(0, breakdown.diffusion);
+  const organic = Math.max(0, breakdown.organic);
+  const total = gan + diffusion + organic;
+  if (!total) {
+    return isAI ? { gan: 0, diffusion: 100, organic: 0 } : { gan: 0, diffusion: 0, organic: 100 };
+  }
+
+  const scaled: ProbabilityBreakdown = {
+    gan: round((gan / total) * 100),
+    diffusion: round((diffusion / total) * 100),
+    organic: round((organic / total) * 100),
+  };
+  const drift = round(100 - scaled.gan - scaled.diffusion - scaled.organic);
+  if (drift) {
+    const largest = (Object.keys(scaled) as Array<keyof ProbabilityBreakdown>).reduce((best, key) =>
+      scaled[key] > scaled[best] ? key : best
+    );
+    scaled[largest] = round(scaled[largest] + drift);
+  }
+  return scaled;
+};
+
+const normalizeBox = (box: RegionBox): RegionBox | null => {
+  const x = clamp(box.x, 0, 1);
+  const y = clamp(box.y, 0, 1);
+  const width = clamp(box.width, 0, 1 - x);
+  const height = clamp(box.height, 0, 1 - y);
+  if (!width || !height) return null;
+  const normalized: RegionBox = {
+    x: round4(x),
+    y: round4(y),
+    width: round4(width),
+    height: round4(height),
+    score: round(clamp(box.score, 0, 100)),
+  };
+  if (typeof box.label === 'string' && box.label.trim()) {
+    normalized.label = box.label.trim().slice(0, 80);
+  }
+  return normalized;
+};
+
+const normalizeGrid = (grid: RegionGrid): RegionGrid | null => {
+  const { rows, cols, scores } = grid;
+  const validSize = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_GRID_SIZE;
+  if (!validSize(rows) || !validSize(cols) || !Array.isArray(scores) || scores.length !== rows * cols) {
+    return null;
+  }
+  return { rows, cols, scores: scores.map((score) => round(clamp(score, 0, 100))) };
+};
+
+/**
+ * Clamp region annotations into the image and drop anything unusable. Returns undefined
+ * when nothing is left so the field is omitted rather than stored empty.
+ */
+export const normalizeRegions = (regions?: RegionAnnotations): RegionAnnotations | undefined => {
+  if (!regions) return undefined;
+  const boxes = (regions.boxes || [])
+    .map(normalizeBox)
+    .filter((box): box is RegionBox => box !== null)
+    .slice(0, MAX_REGION_BOXES);
+  const grid = regions.grid ? normalizeGrid(regions.grid) : null;
+  if (!boxes.length && !grid) return undefined;
+  return { ...(boxes.length ? { boxes } : {}), ...(grid ? { grid } : {}) };
+};
+
+export const normalizeAnalysisResult = ({ regions, ...result }: AnalysisResult): AnalysisResult => {
+  const normalizedRegions = normalizeRegions(regions);
+  return {
+    ...result,
+    confidenceScore: round(clamp(result.confidenceScore, 0, 100)),
+    probabilityBreakdown: result.probabilityBreakdown
+      ? normalizeBreakdown(result.probabilityBreakdown, result.isAI)
+      : result.probabilityBreakdown,
+    ...(normalizedRegions ? { regions: normalizedRegions } : {}),
+  };
+};
+
+// Models sometimes wrap JSON in a markdown fence despite the JSON response mode.
+const stripCodeFence = (text: string) => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text.trim();
+};
+
+/**
+ * Parse and validate raw model text against the response schema, then clamp and
+ * normalize the numeric fields. Never throws; problems are returned as readable issues.
+ */
+export const parseModelOutput = (text: string, definition: Record<string, any>): ModelOutputParse => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch (error: any) {
+    return { ok: false, issues: [`Response is not valid JSON: ${error?.message ?? 'parse error'}`] };
+  }
+
+  const validation = getValidator(definition).safeParse(parsed);
+  if (!validation.success) {
+    return {
+      ok: false,
+      issues: validation.error.issues
+        .slice(0, MAX_ISSUES)
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  return { ok: true, result: normalizeAnalysisResult(validation.data as AnalysisResult) };
+};
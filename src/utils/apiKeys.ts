@@ -0,0 +1,39 @@
+import type { ApiKeyScope } from '../types/auth';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['analysis:write', 'history:read'];
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+const API_KEY_PREFIX = 'aor_';
+const API_KEY_PATTERN = /^aor_([0-9a-f]{16})_([0-9a-f]{64})$/;
+
+/**
+ * `aor_<key id>_<secret>`. The id locates the stored hash so a key is verified with a
+ * single lookup; only the secret part is secret.
+ */
+export const formatApiKey = (id: string, secret: string): string => `${API_KEY_PREFIX}${id}_${secret}`;
+
+export const parseApiKey = (value: unknown): { id: string; secret: string } | null => {
+  if (typeof value !== 'string') return null;
+  const match = API_KEY_PATTERN.exec(value.trim());
+  return match ? { id: match[1], secret: match[2] } : null;
+};
+
+/**
+ * Keys travel in `X-API-Key` or as a Bearer token; a Bearer value is only treated as a key
+ * when it has the key prefix, so JWTs keep their own path.
+ */
+export const readApiKey = (authorization: unknown, header: unknown): string | null => {
+  if (typeof header === 'string' && header.trim()) return header.trim();
+  if (typeof authorization !== 'string') return null;
+  const [scheme, token] = authorization.trim().split(/\s+/);
+  if (scheme?.toLowerCase() !== 'bearer' || !token?.startsWith(API_KEY_PREFIX)) return null;
+  return token;
+};
+
+/** Scopes must be listed explicitly; unlike webhook events there is no "all" default. */
+export const parseApiKeyScopes = (value: unknown): ApiKeyScope[] | null => {
+  if (!Array.isArray(value) || !value.length) return null;
+  if (!value.every((scope) => API_KEY_SCOPES.includes(scope as ApiKeyScope))) return null;
+  return Array.from(new Set(value as ApiKeyScope[]));
+};
@@ -0,0 +1,247 @@
+import type { AnalysisResult, MediaType } from '../types/analysis';
+import type { DatasetManifestRecord, ProviderPrediction } from './feedbackDataset';
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+// One labeled observation: the raw AI probability (0-1) and whether the media really was AI.
+export interface CalibrationSample {
+  probability: number;
+  isAI: boolean;
+}
+
+export interface IsotonicPoint {
+  x: number;
+  y: number;
+}
+
+export type CalibrationMapping =
+  | { method: 'platt'; a: number; b: number }
+  | { method: 'isotonic'; points: IsotonicPoint[] };
+
+// Contents of one `templates/calibration/<provider>/<file>.json` parameters file.
+export type CalibrationParameters = CalibrationMapping & {
+  provider: string;
+  model: string;
+  mediaType: MediaType;
+  version: number;
+  fittedAt: string | null;
+  samples: number;
+};
+
+// Calibrated probabilities never claim certainty; the feedback behind them is finite.
+const PROBABILITY_FLOOR = 0.01;
+const PROBABILITY_CEILING = 0.99;
+const LOGIT_EPSILON = 1e-4;
+const NEWTON_ITERATIONS = 100;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const logit = (probability: number) => {
+  const p = clamp(probability, LOGIT_EPSILON, 1 - LOGIT_EPSILON);
+  return Math.log(p / (1 - p));
+};
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Platt scaling on the log-odds of the raw probability: `q = sigmoid(a * logit(p) + b)`.
+ * Targets are smoothed as in Platt's paper so a perfectly separated set does not push the
+ * slope to infinity; the fit is Newton's method on the cross-entropy.
+ */
+export const fitPlatt = (samples: CalibrationSample[]): { method: 'platt'; a: number; b: number } => {
+  const positives = samples.filter((sample) => sample.isAI).length;
+  const negatives = samples.length - positives;
+  const highTarget = (positives + 1) / (positives + 2);
+  const lowTarget = 1 / (negatives + 2);
+  const points = samples.map((sample) => ({
+    f: logit(sample.probability),
+    t: sample.isAI ? highTarget : lowTarget,
+  }));
+
+  let a = 1;
+  let b = 0;
+  for (let iteration = 0; iteration < NEWTON_ITERATIONS; iteration++) {
+    let gA = 0;
+    let gB = 0;
+    // Small ridge keeps the Hessian invertible when every raw score is identical.
+    let hAA = 1e-6;
+    let hAB = 0;
+    let hBB = 1e-6;
+    for (const { f, t } of points) {
+      const q = sigmoid(a * f + b);
+      const d = q - t;
+      const w = q * (1 - q);
+      gA += d * f;
+      gB += d;
+      hAA += w * f * f;
+      hAB += w * f;
+      hBB += w;
+    }
+    const determinant = hAA * hBB - hAB * hAB;
+    if (!determinant) break;
+    const stepA = (hBB * gA - hAB * gB) / determinant;
+    const stepB = (hAA * gB - hAB * gA) / determinant;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-9 && Math.abs(stepB) < 1e-9) break;
+  }
+
+  return { method: 'platt', a: round4(a), b: round4(b) };
+};
+
+/**
+ * Isotonic regression with pool-adjacent-violators. Each pooled block becomes a point at
+ * its mean raw probability; `calibrateProbability` interpolates between them.
+ */
+export const fitIsotonic = (samples: CalibrationSample[]): { method: 'isotonic'; points: IsotonicPoint[] } => {
+  const sorted = [...samples].sort((left, right) => left.probability - right.probability);
+  const blocks: Array<{ sumX: number; sumY: number; count: number }> = [];
+  for (const sample of sorted) {
+    blocks.push({ sumX: sample.probability, sumY: sample.isAI ? 1 : 0, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sumY / previous.count < last.sumY / last.count) break;
+      blocks.pop();
+      previous.sumX += last.sumX;
+      previous.sumY += last.sumY;
+      previous.count += last.count;
+    }
+  }
+  return {
+    method: 'isotonic',
+    points: blocks.map((block) => ({ x: round4(block.sumX / block.count), y: round4(block.sumY / block.count) })),
+  };
+};
+
+/**
+ * Map a raw AI probability (0-1) through a fitted mapping. Isotonic points interpolate
+ * linearly and hold their end values outside the fitted range.
+ */
+export const calibrateProbability = (mapping: CalibrationMapping, probability: number): number => {
+  const p = clamp(probability, 0, 1);
+  let calibrated: number;
+  if (mapping.method === 'platt') {
+    calibrated = sigmoid(mapping.a * logit(p) + mapping.b);
+  } else {
+    const { points } = mapping;
+    if (!points.length) {
+      calibrated = p;
+    } else if (p <= points[0].x) {
+      calibrated = points[0].y;
+    } else if (p >= points[points.length - 1].x) {
+      calibrated = points[points.length - 1].y;
+    } else {
+      const upper = points.findIndex((point) => point.x >= p);
+      const left = points[upper - 1];
+      const right = points[upper];
+      const span = right.x - left.x;
+      calibrated = span ? left.y + ((p - left.x) / span) * (right.y - left.y) : right.y;
+    }
+  }
+  return clamp(calibrated, PROBABILITY_FLOOR, PROBABILITY_CEILING);
+};
+
+/**
+ * Re-derive the verdict from the calibrated AI probability, as the ensemble does with its
+ * merged score, so `confidenceScore` never falls below 50. The model's own verdict and
+ * number are kept as `rawIsAI` and `rawConfidenceScore`.
+ */
+export const calibrateResult = (result: AnalysisResult, parameters: CalibrationParameters): AnalysisResult => {
+  const rawIsAI = result.rawIsAI ?? result.isAI;
+  const rawConfidenceScore = result.rawConfidenceScore ?? result.confidenceScore;
+  const rawAiProbability = (rawIsAI ? rawConfidenceScore : 100 - rawConfidenceScore) / 100;
+  const aiProbability = calibrateProbability(parameters, rawAiProbability);
+  const isAI = aiProbability >= 0.5;
+  const confidence = isAI ? aiProbability : 1 - aiProbability;
+  return {
+    ...result,
+    isAI,
+    confidenceScore: Math.round(confidence * 10000) / 100,
+    rawIsAI,
+    rawConfidenceScore,
+    calibration: { method: parameters.method, version: parameters.version },
+  };
+};
+
+/**
+ * Validate a parameters file; returns null when it cannot be used.
+ */
+export const parseCalibrationParameters = (raw: any): CalibrationParameters | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.provider !== 'string' || typeof raw.model !== 'string' || !Number.isInteger(raw.version)) {
+    return null;
+  }
+  const mediaType: MediaType = raw.mediaType === 'audio' ? 'audio' : 'image';
+  const base = {
+    provider: raw.provider,
+    model: raw.model,
+    mediaType,
+    version: raw.version,
+    fittedAt: typeof raw.fittedAt === 'string' ? raw.fittedAt : null,
+    samples: Number.isInteger(raw.samples) ? raw.samples : 0,
+  };
+  if (raw.method === 'platt' && Number.isFinite(raw.a) && Number.isFinite(raw.b)) {
+    return { ...base, method: 'platt', a: raw.a, b: raw.b };
+  }
+  if (
+    raw.method === 'isotonic' &&
+    Array.isArray(raw.points) &&
+    raw.points.length > 0 &&
+    raw.points.every(
+      (point: any, index: number) =>
+        Number.isFinite(point?.x) &&
+        Number.isFinite(point?.y) &&
+        (index === 0 || (point.x >= raw.points[index - 1].x && point.y >= raw.points[index - 1].y))
+    )
+  ) {
+    return {
+      ...base,
+      method: 'isotonic',
+      points: raw.points.map((point: any) => ({ x: point.x, y: point.y })),
+    };
+  }
+  return null;
+};
+
+/**
+ * Labeled samples for one provider and model version from feedback export lines.
+ * Records exported before per-provider predictions were stored fall back to the
+ * top-level prediction when it came from that provider alone.
+ */
+export const samplesFromManifest = (
+  records: DatasetManifestRecord[],
+  provider: string,
+  model: string,
+  mediaType: MediaType
+): CalibrationSample[] =>
+  records.flatMap((record) => {
+    if ((record.mediaType || 'image') !== mediaType || (record.label !== 'ai' && record.label !== 'real')) {
+      return [];
+    }
+    const predicted = record.predicted;
+    const candidates: ProviderPrediction[] = predicted?.providers?.length
+      ? predicted.providers
+      : predicted?.provider && predicted.model && typeof predicted.isAI === 'boolean'
+        ? [
+            {
+              provider: predicted.provider,
+              model: predicted.model,
+              isAI: predicted.rawIsAI ?? predicted.isAI,
+              rawConfidenceScore: (predicted.rawConfidenceScore ?? predicted.confidenceScore) as number,
+            },
+          ]
+        : [];
+    return candidates
+      .filter(
+        (candidate) =>
+          candidate.provider === provider &&
+          candidate.model === model &&
+          Number.isFinite(candidate.rawConfidenceScore)
+      )
+      .map((candidate) => ({
+        probability: (candidate.isAI ? candidate.rawConfidenceScore : 100 - candidate.rawConfidenceScore) / 100,
+        isAI: record.label === 'ai',
+      }));
+  });
@@ -0,0 +1,11 @@
+/**
+ * Normalize a stored date: Firestore `Timestamp`, `Date`, ISO string or epoch millis.
+ * Returns null for missing or unparseable values.
+ */
+export const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
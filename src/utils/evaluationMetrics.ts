@@ -0,0 +1,153 @@
+import type { GroundTruthLabel } from './feedbackDataset';
+
+export interface SamplePrediction {
+  id: string;
+  label: GroundTruthLabel;
+  status: 'ok' | 'error';
+  predictedLabel?: GroundTruthLabel;
+  // 0-100 likelihood that the sample is AI-generated, regardless of the verdict direction.
+  aiScore?: number;
+  confidenceScore?: number;
+  detectedModel?: string;
+  error?: string;
+}
+
+// "ai" is the positive class.
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+}
+
+// Ratios are null when their denominator is zero.
+export interface ClassificationMetrics {
+  samples: number;
+  evaluated: number;
+  errors: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  specificity: number | null;
+  f1: number | null;
+  falsePositiveRate: number | null;
+  falseNegativeRate: number | null;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  // Mean predicted AI probability (0-1) of the samples in the bin.
+  meanPredicted: number | null;
+  // Share of the samples in the bin that really are AI-generated.
+  observedAiRate: number | null;
+}
+
+export interface CalibrationReport {
+  bins: CalibrationBin[];
+  expectedCalibrationError: number | null;
+  brierScore: number | null;
+}
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator ? round4(numerator / denominator) : null;
+
+const evaluated = (predictions: SamplePrediction[]) =>
+  predictions.filter(
+    (prediction): prediction is SamplePrediction & { predictedLabel: GroundTruthLabel; aiScore: number } =>
+      prediction.status === 'ok' && Boolean(prediction.predictedLabel) && typeof prediction.aiScore === 'number'
+  );
+
+export const computeConfusionMatrix = (predictions: SamplePrediction[]): ConfusionMatrix =>
+  evaluated(predictions).reduce(
+    (matrix, { label, predictedLabel }) => {
+      if (label === 'ai' && predictedLabel === 'ai') matrix.truePositive += 1;
+      else if (label === 'ai') matrix.falseNegative += 1;
+      else if (predictedLabel === 'ai') matrix.falsePositive += 1;
+      else matrix.trueNegative += 1;
+      return matrix;
+    },
+    { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 }
+  );
+
+export const computeClassificationMetrics = (predictions: SamplePrediction[]): ClassificationMetrics => {
+  const { truePositive: tp, falsePositive: fp, trueNegative: tn, falseNegative: fn } =
+    computeConfusionMatrix(predictions);
+  const total = tp + fp + tn + fn;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return {
+    samples: predictions.length,
+    evaluated: total,
+    errors: predictions.length - total,
+    accuracy: ratio(tp + tn, total),
+    precision,
+    recall,
+    specificity: ratio(tn, tn + fp),
+    f1: precision !== null && recall !== null && precision + recall > 0
+      ? round4((2 * precision * recall) / (precision + recall))
+      : null,
+    falsePositiveRate: ratio(fp, fp + tn),
+    falseNegativeRate: ratio(fn, fn + tp),
+  };
+};
+
+/**
+ * Reliability diagram over equal-width bins of the predicted AI probability, with the
+ * expected calibration error (count-weighted gap per bin) and the Brier score.
+ */
+export const computeCalibration = (predictions: SamplePrediction[], binCount = 10): CalibrationReport => {
+  const scored = evaluated(predictions);
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: round4(index / binCount),
+    upper: round4((index + 1) / binCount),
+    probabilities: [] as number[],
+    positives: 0,
+  }));
+
+  let squaredError = 0;
+  for (const { label, aiScore } of scored) {
+    const probability = Math.min(1, Math.max(0, aiScore / 100));
+    const actual = label === 'ai' ? 1 : 0;
+    const bin = bins[Math.min(binCount - 1, Math.floor(probability * binCount))];
+    bin.probabilities.push(probability);
+    bin.positives += actual;
+    squaredError += (probability - actual) ** 2;
+  }
+
+  let gap = 0;
+  const report = bins.map(({ lower, upper, probabilities, positives }) => {
+    const count = probabilities.length;
+    if (!count) {
+      return { lower, upper, count, meanPredicted: null, observedAiRate: null };
+    }
+    const meanPredicted = probabilities.reduce((sum, value) => sum + value, 0) / count;
+    const observedAiRate = positives / count;
+    gap += count * Math.abs(meanPredicted - observedAiRate);
+    return { lower, upper, count, meanPredicted: round4(meanPredicted), observedAiRate: round4(observedAiRate) };
+  });
+
+  return {
+    bins: report,
+    expectedCalibrationError: scored.length ? round4(gap / scored.length) : null,
+    brierScore: scored.length ? round4(squaredError / scored.length) : null,
+  };
+};
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <Row extends { [Column in keyof Row]: CsvValue }>(
+  columns: Array<keyof Row & string>,
+  rows: Row[]
+): string =>
+  [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))].join('\n') +
+  '\n';
@@ -0,0 +1,166 @@
+export type FeedbackVerdict = 'correct' | 'incorrect';
+export type GroundTruthLabel = 'ai' | 'real';
+
+export interface VerdictFeedback {
+  verdict: FeedbackVerdict;
+  trueLabel: GroundTruthLabel;
+  // `user` when the label was given explicitly, `inferred` when derived from the verdict.
+  labelSource: 'user' | 'inferred';
+  comment: string | null;
+}
+
+// One provider's uncalibrated verdict on the labeled media; the input for fitting calibration.
+export interface ProviderPrediction {
+  provider: string;
+  model: string;
+  isAI: boolean;
+  rawConfidenceScore: number;
+}
+
+export type FeedbackParse = { ok: true; feedback: VerdictFeedback } | { ok: false; message: string };
+
+// One line of the exported JSONL manifest.
+export interface DatasetManifestRecord {
+  feedbackId: string;
+  analysisId: string;
+  userId: string;
+  mediaType: string;
+  storagePath: string | null;
+  uri: string | null;
+  sha256: string | null;
+  label: GroundTruthLabel;
+  labelSource: 'user' | 'inferred';
+  verdict: FeedbackVerdict;
+  predicted: {
+    isAI: boolean | null;
+    confidenceScore: number | null;
+    rawIsAI: boolean | null;
+    rawConfidenceScore: number | null;
+    detectedModel: string | null;
+    provider: string | null;
+    model: string | null;
+    promptVersion: string | null;
+    schemaVersion: string | null;
+    providers: ProviderPrediction[];
+  };
+  comment: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+const VERDICTS: FeedbackVerdict[] = ['correct', 'incorrect'];
+const LABELS: GroundTruthLabel[] = ['ai', 'real'];
+
+const toIso = (value: any): string | null => {
+  if (!value) return null;
+  const date = typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Validate user feedback against the stored prediction. Labels are binary, so the true
+ * label follows from the verdict when omitted; a label that contradicts it is rejected.
+ */
+export const parseFeedback = (
+  input: { verdict?: unknown; trueLabel?: unknown; comment?: unknown },
+  predictedIsAI: boolean
+): FeedbackParse => {
+  if (!VERDICTS.includes(input.verdict as FeedbackVerdict)) {
+    return { ok: false, message: 'verdict must be "correct" or "incorrect"' };
+  }
+  const verdict = input.verdict as FeedbackVerdict;
+  if (input.trueLabel !== undefined && input.trueLabel !== null && !LABELS.includes(input.trueLabel as GroundTruthLabel)) {
+    return { ok: false, message: 'trueLabel must be "ai" or "real"' };
+  }
+  if (input.comment !== undefined && input.comment !== null && typeof input.comment !== 'string') {
+    return { ok: false, message: 'comment must be a string' };
+  }
+  const comment = typeof input.comment === 'string' ? input.comment.trim() : '';
+  if (comment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+    return { ok: false, message: `comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters` };
+  }
+
+  const predicted: GroundTruthLabel = predictedIsAI ? 'ai' : 'real';
+  const implied: GroundTruthLabel = verdict === 'correct' ? predicted : predicted === 'ai' ? 'real' : 'ai';
+  const given = (input.trueLabel ?? null) as GroundTruthLabel | null;
+  if (given && given !== implied) {
+    return { ok: false, message: `trueLabel "${given}" contradicts a verdict marked ${verdict}` };
+  }
+
+  return {
+    ok: true,
+    feedback: { verdict, trueLabel: implied, labelSource: given ? 'user' : 'inferred', comment: comment || null },
+  };
+};
+
+const toProviderPrediction = (value: any): ProviderPrediction | null => {
+  const score = value?.rawConfidenceScore ?? value?.confidenceScore;
+  const isAI = value?.rawIsAI ?? value?.isAI;
+  if (
+    typeof value?.provider !== 'string' ||
+    typeof value?.model !== 'string' ||
+    typeof isAI !== 'boolean' ||
+    typeof score !== 'number'
+  ) {
+    return null;
+  }
+  return { provider: value.provider, model: value.model, isAI, rawConfidenceScore: score };
+};
+
+/**
+ * Every provider's uncalibrated verdict on a stored analysis: the successful ensemble
+ * members, or the single provider that produced the result.
+ */
+export const providerPredictions = (analysis: Record<string, any>): ProviderPrediction[] => {
+  const verdicts = analysis.ensemble?.verdicts;
+  const candidates = Array.isArray(verdicts)
+    ? verdicts
+        .filter((verdict: any) => verdict?.status === 'fulfilled' && verdict.result)
+        .map((verdict: any) => ({ provider: verdict.provider, model: verdict.model, ...verdict.result }))
+    : [{ provider: analysis.provider, model: analysis.model, ...(analysis.result || {}) }];
+  return candidates
+    .map(toProviderPrediction)
+    .filter((prediction): prediction is ProviderPrediction => prediction !== null);
+};
+
+export const toManifestRecord = (
+  id: string,
+  data: Record<string, any>,
+  bucketName: string | null
+): DatasetManifestRecord => {
+  const predicted = data.predicted || {};
+  const storagePath = typeof data.storagePath === 'string' && data.storagePath ? data.storagePath : null;
+  return {
+    feedbackId: id,
+    analysisId: data.analysisId,
+    userId: data.userId,
+    mediaType: data.mediaType || 'image',
+    storagePath,
+    uri: storagePath && bucketName ? `gs://${bucketName}/${storagePath}` : null,
+    sha256: data.sha256 ?? null,
+    label: data.trueLabel,
+    labelSource: data.labelSource,
+    verdict: data.verdict,
+    predicted: {
+      isAI: typeof predicted.isAI === 'boolean' ? predicted.isAI : null,
+      confidenceScore: typeof predicted.confidenceScore === 'number' ? predicted.confidenceScore : null,
+      rawIsAI: typeof predicted.rawIsAI === 'boolean' ? predicted.rawIsAI : null,
+      rawConfidenceScore: typeof predicted.rawConfidenceScore === 'number' ? predicted.rawConfidenceScore : null,
+      detectedModel: predicted.detectedModel ?? null,
+      provider: predicted.provider ?? null,
+      model: predicted.model ?? null,
+      promptVersion: predicted.promptVersion ?? null,
+      schemaVersion: predicted.schemaVersion ?? null,
+      providers: Array.isArray(predicted.providers)
+        ? predicted.providers
+            .map(toProviderPrediction)
+            .filter((prediction: ProviderPrediction | null): prediction is ProviderPrediction => prediction !== null)
+        : [],
+    },
+    comment: data.comment ?? null,
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+};
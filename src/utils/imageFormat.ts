@@ -0,0 +1,67 @@
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'heic' | 'gif';
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  gif: 'image/gif',
+};
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  heic: 'heic',
+  gif: 'gif',
+};
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_CONTAINER_BRANDS = ['mif1', 'msf1'];
+
+const isHeic = (buffer: Buffer) => {
+  if (buffer.length < 16 || buffer.toString('ascii', 4, 8) !== 'ftyp') return false;
+  const major = buffer.toString('ascii', 8, 12);
+  if (HEIF_BRANDS.includes(major)) return true;
+  if (!HEIF_CONTAINER_BRANDS.includes(major)) return false;
+  // Generic HEIF containers (also used by AVIF) list the codec among the compatible brands.
+  const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    if (HEIF_BRANDS.includes(buffer.toString('ascii', offset, offset + 4))) return true;
+  }
+  return false;
+};
+
+/**
+ * Identify the image format from its leading bytes; the client-supplied MIME type is never trusted.
+ */
+export const sniffImageFormat = (buffer: Buffer): ImageFormat | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+    return 'png';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+    return 'gif';
+  }
+  if (isHeic(buffer)) {
+    return 'heic';
+  }
+  return null;
+};
+
+/**
+ * HEIC dimensions from the first `ispe` (image spatial extents) property. Good enough for
+ * limit checks; the primary item is listed first by every encoder we have seen.
+ */
+export const readHeicDimensions = (buffer: Buffer): { width: number; height: number } | null => {
+  const index = buffer.indexOf('ispe', 0, 'ascii');
+  if (index < 4 || index + 16 > buffer.length) return null;
+  const width = buffer.readUInt32BE(index + 8);
+  const height = buffer.readUInt32BE(index + 12);
+  return width && height ? { width, height } : null;
+};
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import { createCanvas, loadImage } from 'canvas';
+import { logger } from './logger';
+
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+export const sha256Hex = (buffer: Buffer): string =>
+  createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * 64-bit difference hash: the image is reduced to 9x8 grayscale and each bit records
+ * whether a pixel is brighter than its right-hand neighbour. Returned as 16 hex chars,
+ * or null when the image cannot be decoded.
+ */
+export const computeDHash = async (buffer: Buffer): Promise<string | null> => {
+  try {
+    const image = await loadImage(buffer);
+    const canvas = createCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+
+    const gray = (x: number, y: number) => {
+      const offset = (y * DHASH_WIDTH + x) * 4;
+      return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    };
+
+    let hash = 0n;
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        hash = (hash << 1n) | (gray(x, y) > gray(x + 1, y) ? 1n : 0n);
+      }
+    }
+    return hash.toString(16).padStart(16, '0');
+  } catch (error) {
+    logger.warn({ err: error }, 'Failed to compute perceptual hash');
+    return null;
+  }
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+};
+
+// `array-contains-any` takes at most 30 values, so at most 30 bands can be queried at once.
+export const MAX_BANDED_DISTANCE = 29;
+
+/**
+ * Split a 64-bit hash into `maxDistance + 1` tagged bands of contiguous bits. Two hashes
+ * within Hamming distance `maxDistance` always leave one band untouched (pigeonhole), so
+ * an `array-contains-any` query on the bands finds every near-duplicate candidate without
+ * scanning every document. Tags carry the band count, so hashes banded for another
+ * distance never match.
+ */
+export const toHashBands = (hash: string, maxDistance: number): string[] => {
+  const bandCount = Math.min(Math.max(0, Math.floor(maxDistance)), MAX_BANDED_DISTANCE) + 1;
+  const bits = BigInt(`0x${hash}`).toString(2).padStart(64, '0');
+  return Array.from({ length: bandCount }, (_, band) => {
+    const start = Math.floor((band * 64) / bandCount);
+    const end = Math.floor(((band + 1) * 64) / bandCount);
+    return `${bandCount}.${band}:${bits.slice(start, end)}`;
+  });
+};
@@ -0,0 +1,463 @@
+import { inflateSync } from 'zlib';
+import type { AnalysisFinding, AnalysisResult, ImageAnalysisResult, TechnicalSpecs } from '../types/analysis';
+
+export type MetadataSignalSource = 'exif' | 'xmp' | 'iptc' | 'png' | 'c2pa';
+
+export interface MetadataSignal {
+  source: MetadataSignalSource;
+  field: string;
+  value: string;
+}
+
+export interface ImageMetadataReport {
+  format: 'jpeg' | 'png' | 'webp' | 'unknown';
+  width: number | null;
+  height: number | null;
+  exif: Record<string, string | number>;
+  xmp: Record<string, string>;
+  iptc: Record<string, string>;
+  png: Record<string, string>;
+  c2pa: { present: boolean; claimGenerator: string | null };
+  aiSignals: MetadataSignal[];
+}
+
+const MAX_VALUE_LENGTH = 256;
+
+// Lower-case substrings that identify generative tools in software/creator fields.
+const AI_GENERATOR_PATTERNS = [
+  'midjourney',
+  'dall-e',
+  'dall·e',
+  'stable diffusion',
+  'stablediffusion',
+  'stability ai',
+  'automatic1111',
+  'comfyui',
+  'invokeai',
+  'novelai',
+  'dreamstudio',
+  'firefly',
+  'imagen',
+  'gemini',
+  'openai',
+  'chatgpt',
+  'leonardo.ai',
+  'ideogram',
+  'flux',
+  'runway',
+  'bing image creator',
+  'trainedalgorithmicmedia',
+  'compositewithtrainedalgorithmicmedia',
+  'algorithmicmedia',
+];
+
+// Free-text fields (captions, keywords) are ignored to avoid matching ordinary prose.
+const SIGNAL_FIELDS: Record<'exif' | 'iptc', string[]> = {
+  exif: ['Make', 'Model', 'Software', 'Artist'],
+  iptc: ['ByLine', 'Credit', 'Source'],
+};
+
+// PNG text keywords written by popular diffusion front-ends.
+const AI_PNG_KEYWORDS = ['parameters', 'prompt', 'workflow', 'sd-metadata', 'invokeai_metadata', 'dream'];
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0xa001: 'ColorSpace',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  25: 'Keywords',
+  80: 'ByLine',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption',
+};
+
+const XMP_FIELDS = [
+  'xmp:CreatorTool',
+  'Iptc4xmpExt:DigitalSourceType',
+  'photoshop:Credit',
+  'photoshop:Source',
+  'tiff:Make',
+  'tiff:Model',
+  'exif:DateTimeOriginal',
+  'xmpMM:History',
+  'dc:creator',
+];
+
+const clip = (value: string) => value.replace(/\0+$/, '').trim().slice(0, MAX_VALUE_LENGTH);
+
+const matchesAiPattern = (value: string) => {
+  const normalized = value.toLowerCase();
+  return AI_GENERATOR_PATTERNS.some((pattern) => normalized.includes(pattern));
+};
+
+const parseTiff = (buffer: Buffer, start: number, target: Record<string, string | number>) => {
+  const littleEndian = buffer.toString('ascii', start, start + 2) === 'II';
+  const read16 = (offset: number) =>
+    littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  const read32 = (offset: number) =>
+    littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+  const readIfd = (ifdOffset: number, depth: number) => {
+    const base = start + ifdOffset;
+    if (depth > 1 || base + 2 > buffer.length) return;
+    const count = read16(base);
+    for (let i = 0; i < count; i++) {
+      const entry = base + 2 + i * 12;
+      if (entry + 12 > buffer.length) return;
+      const tag = read16(entry);
+      const type = read16(entry + 2);
+      const valueCount = read32(entry + 4);
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(read32(entry + 8), depth + 1);
+        continue;
+      }
+      const name = EXIF_TAGS[tag];
+      if (!name) continue;
+
+      if (type === 2) {
+        const dataOffset = valueCount <= 4 ? entry + 8 : start + read32(entry + 8);
+        if (dataOffset + valueCount <= buffer.length) {
+          target[name] = clip(buffer.toString('latin1', dataOffset, dataOffset + valueCount));
+        }
+      } else if (type === 3) {
+        target[name] = read16(entry + 8);
+      } else if (type === 4) {
+        target[name] = read32(entry + 8);
+      }
+    }
+  };
+
+  readIfd(read32(start + 4), 0);
+};
+
+const parseXmp = (xml: string, target: Record<string, string>) => {
+  XMP_FIELDS.forEach((field) => {
+    const escaped = field.replace(':', '\\:');
+    const attribute = xml.match(new RegExp(`${escaped}="([^"]*)"`));
+    const element = xml.match(new RegExp(`<${escaped}>([\\s\\S]*?)</${escaped}>`));
+    const raw = attribute?.[1] ?? element?.[1];
+    if (raw) {
+      target[field] = clip(raw.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' '));
+    }
+  });
+};
+
+const parseIptc = (data: Buffer, target: Record<string, string>) => {
+  let offset = 0;
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    const size = data.readUInt16BE(offset + 3);
+    const value = data.subarray(offset + 5, offset + 5 + size);
+    const name = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+    if (name) {
+      const text = clip(value.toString('utf8'));
+      target[name] = target[name] ? clip(`${target[name]}, ${text}`) : text;
+    }
+    offset += 5 + size;
+  }
+};
+
+// Photoshop image resource blocks; resource 0x0404 carries the IPTC-IIM payload.
+const parsePhotoshopResources = (data: Buffer, target: Record<string, string>) => {
+  let offset = 0;
+  while (offset + 12 <= data.length && data.toString('ascii', offset, offset + 4) === '8BIM') {
+    const resourceId = data.readUInt16BE(offset + 4);
+    const nameLength = data[offset + 6];
+    const nameBlock = (nameLength + 2) & ~1;
+    const sizeOffset = offset + 6 + nameBlock;
+    if (sizeOffset + 4 > data.length) return;
+    const size = data.readUInt32BE(sizeOffset);
+    const payload = data.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+    if (resourceId === 0x0404) {
+      parseIptc(payload, target);
+    }
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+};
+
+const inspectC2pa = (payload: Buffer, report: ImageMetadataReport) => {
+  report.c2pa.present = true;
+  const text = payload.toString('latin1');
+  const generator = text.match(/claim_generator[^A-Za-z0-9]{1,4}([A-Za-z0-9_./ -]{2,80})/);
+  if (generator?.[1] && !report.c2pa.claimGenerator) {
+    report.c2pa.claimGenerator = clip(generator[1]);
+  }
+  if (/trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia/i.test(text)) {
+    report.aiSignals.push({ source: 'c2pa', field: 'digitalSourceType', value: 'trainedAlgorithmicMedia' });
+  }
+};
+
+const parseJpeg = (buffer: Buffer, report: ImageMetadataReport) => {
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && segment.toString('ascii', 0, 6) === 'Exif\0\0') {
+      parseTiff(segment, 6, report.exif);
+    } else if (marker === 0xe1 && segment.toString('ascii', 0, 28) === 'http://ns.adobe.com/xap/1.0/') {
+      parseXmp(segment.subarray(29).toString('utf8'), report.xmp);
+    } else if (marker === 0xed && segment.toString('ascii', 0, 14) === 'Photoshop 3.0\0') {
+      parsePhotoshopResources(segment.subarray(14), report.iptc);
+    } else if (marker === 0xeb && segment.includes('c2pa')) {
+      inspectC2pa(segment, report);
+    } else if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      report.height = segment.readUInt16BE(1);
+      report.width = segment.readUInt16BE(3);
+    }
+    offset += 2 + length;
+  }
+};
+
+const parsePngText = (type: string, data: Buffer): [string, string] | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd <= 0) return null;
+  const keyword = data.toString('latin1', 0, keywordEnd);
+  if (type === 'tEXt') {
+    return [keyword, data.toString('latin1', keywordEnd + 1)];
+  }
+  if (type === 'zTXt') {
+    return [keyword, inflateSync(data.subarray(keywordEnd + 2)).toString('latin1')];
+  }
+  // iTXt: keyword\0 flag method language\0 translated\0 text
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  const body = data.subarray(translatedEnd + 1);
+  return [keyword, (compressed ? inflateSync(body) : body).toString('utf8')];
+};
+
+const parsePng = (buffer: Buffer, report: ImageMetadataReport) => {
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      report.width = data.readUInt32BE(0);
+      report.height = data.readUInt32BE(4);
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      const entry = parsePngText(type, data);
+      if (entry) {
+        const [keyword, text] = entry;
+        if (keyword === 'XML:com.adobe.xmp') {
+          parseXmp(text, report.xmp);
+        } else {
+          report.png[keyword] = clip(text);
+        }
+      }
+    } else if (type === 'eXIf') {
+      parseTiff(data, 0, report.exif);
+    } else if (type === 'caBX') {
+      inspectC2pa(data, report);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+};
+
+const parseWebp = (buffer: Buffer, report: ImageMetadataReport) => {
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const data = buffer.subarray(offset + 8, offset + 8 + size);
+
+    if (type === 'VP8X' && data.length >= 10) {
+      report.width = 1 + data.readUIntLE(4, 3);
+      report.height = 1 + data.readUIntLE(7, 3);
+    } else if (type === 'VP8 ' && report.width === null && data.length >= 10) {
+      report.width = data.readUInt16LE(6) & 0x3fff;
+      report.height = data.readUInt16LE(8) & 0x3fff;
+    } else if (type === 'VP8L' && report.width === null && data.length >= 5) {
+      const bits = data.readUInt32LE(1);
+      report.width = 1 + (bits & 0x3fff);
+      report.height = 1 + ((bits >> 14) & 0x3fff);
+    } else if (type === 'EXIF') {
+      parseTiff(data, data.toString('ascii', 0, 6) === 'Exif\0\0' ? 6 : 0, report.exif);
+    } else if (type === 'XMP ') {
+      parseXmp(data.toString('utf8'), report.xmp);
+    } else if (type === 'C2PA') {
+      inspectC2pa(data, report);
+    }
+    offset += 8 + size + (size % 2);
+  }
+};
+
+const collectAiSignals = (report: ImageMetadataReport) => {
+  const check = (
+    source: MetadataSignalSource,
+    values: Record<string, string | number>,
+    fields?: string[]
+  ) => {
+    Object.entries(values).forEach(([field, value]) => {
+      if (fields && !fields.includes(field)) return;
+      if (typeof value === 'string' && matchesAiPattern(value)) {
+        report.aiSignals.push({ source, field, value });
+      }
+    });
+  };
+
+  check('exif', report.exif, SIGNAL_FIELDS.exif);
+  check('xmp', report.xmp);
+  check('iptc', report.iptc, SIGNAL_FIELDS.iptc);
+  Object.entries(report.png).forEach(([keyword, value]) => {
+    if (AI_PNG_KEYWORDS.includes(keyword.toLowerCase()) || matchesAiPattern(value)) {
+      report.aiSignals.push({ source: 'png', field: keyword, value: clip(value) });
+    }
+  });
+  if (report.c2pa.claimGenerator && matchesAiPattern(report.c2pa.claimGenerator)) {
+    report.aiSignals.push({ source: 'c2pa', field: 'claim_generator', value: report.c2pa.claimGenerator });
+  }
+};
+
+/**
+ * Parse EXIF, XMP, IPTC, PNG text chunks and C2PA markers from raw image bytes.
+ * Malformed segments are skipped; whatever was read before the damage is kept.
+ */
+export const extractImageMetadata = (buffer: Buffer): ImageMetadataReport => {
+  const report: ImageMetadataReport = {
+    format: 'unknown',
+    width: null,
+    height: null,
+    exif: {},
+    xmp: {},
+    iptc: {},
+    png: {},
+    c2pa: { present: false, claimGenerator: null },
+    aiSignals: [],
+  };
+
+  try {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      report.format = 'jpeg';
+      parseJpeg(buffer, report);
+    } else if (buffer.length >= 8 && buffer.toString('latin1', 1, 4) === 'PNG') {
+      report.format = 'png';
+      parsePng(buffer, report);
+    } else if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      report.format = 'webp';
+      parseWebp(buffer, report);
+    }
+  } catch {
+    // Truncated or malformed metadata: keep what was parsed so far.
+  }
+
+  collectAiSignals(report);
+  return report;
+};
+
+const buildMetadataFindings = (report: ImageMetadataReport): AnalysisFinding[] => {
+  const findings: AnalysisFinding[] = [];
+
+  if (report.aiSignals.length) {
+    findings.push({
+      title: 'AI generator metadata',
+      description: report.aiSignals
+        .slice(0, 5)
+        .map((signal) => `${signal.source}:${signal.field} = ${signal.value}`)
+        .join('; '),
+      type: 'metadata',
+      status: 'alert',
+    });
+  }
+
+  if (report.c2pa.present) {
+    findings.push({
+      title: 'Content Credentials (C2PA) manifest',
+      description: report.c2pa.claimGenerator
+        ? `Manifest present, claim generator: ${report.c2pa.claimGenerator}`
+        : 'Manifest present',
+      type: 'metadata',
+      status: report.aiSignals.some((signal) => signal.source === 'c2pa') ? 'alert' : 'secure',
+    });
+  }
+
+  const camera = [report.exif.Make, report.exif.Model].filter(Boolean).join(' ');
+  if (camera && !report.aiSignals.length) {
+    findings.push({
+      title: 'Camera EXIF data',
+      description: `Captured with ${camera}${report.exif.DateTimeOriginal ? ` on ${report.exif.DateTimeOriginal}` : ''}`,
+      type: 'metadata',
+      status: 'secure',
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Merge deterministic metadata evidence into a model result without mutating it.
+ */
+export const applyMetadataEvidence = (
+  result: AnalysisResult,
+  report: ImageMetadataReport
+): ImageAnalysisResult => {
+  const camera = [report.exif.Make, report.exif.Model].filter(Boolean).join(' ');
+  const software = report.exif.Software ?? report.xmp['xmp:CreatorTool'];
+  return {
+    ...result,
+    findings: [...(result.findings || []), ...buildMetadataFindings(report)],
+    technicalSpecs: {
+      ...(result.technicalSpecs as TechnicalSpecs),
+      ...(report.width && report.height ? { dimensions: `${report.width}x${report.height}` } : {}),
+      ...(camera ? { camera } : {}),
+      ...(software ? { software: String(software) } : {}),
+      contentCredentials: report.c2pa.present ? 'present' : 'absent',
+      metadataAiSignals: report.aiSignals.length,
+    },
+  };
+};
+
+/**
+ * One-line summary of the parsed evidence, appended to the model prompt.
+ * Metadata strings are attacker-controlled, so only derived flags and parser-defined
+ * source names reach the prompt; raw values and field names never do.
+ */
+export const describeMetadataForPrompt = (report: ImageMetadataReport): string => {
+  const parts: string[] = [];
+  parts.push(`camera=${report.exif.Make || report.exif.Model ? 'present' : 'absent'}`);
+  const software = report.exif.Software ?? report.xmp['xmp:CreatorTool'];
+  if (software) {
+    parts.push(`software=${typeof software === 'string' && matchesAiPattern(software) ? 'ai_generator' : 'other'}`);
+  } else {
+    parts.push('software=absent');
+  }
+  parts.push(`c2pa=${report.c2pa.present ? 'present' : 'absent'}`);
+  if (report.aiSignals.length) {
+    const sources = Array.from(new Set(report.aiSignals.map((signal) => signal.source)));
+    parts.push(`aiSignals=${sources.join(',')}`);
+  }
+  return `Server-side metadata evidence (${report.format}): ${parts.join('; ')}.`;
+};
@@ -0,0 +1,96 @@
+import dns, { LookupAddress } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254), CGNAT,
+// documentation, benchmarking, multicast and reserved ranges.
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// Unique-local (incl. fd00:ec2::254), link-local, multicast, NAT64, discard and documentation.
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const blockList = new BlockList();
+BLOCKED_IPV4.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv6'));
+
+const IPV4_MAPPED = /^::ffff:(?:0:)?(\d{1,3}(?:\.\d{1,3}){3})$/i;
+const IPV4_MAPPED_HEX = /^::ffff:(?:0:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i;
+
+/**
+ * Unwrap IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`, `::ffff:a00:1`) so they are
+ * checked against the IPv4 ranges.
+ */
+const unwrapMappedIpv4 = (address: string): string => {
+  const dotted = address.match(IPV4_MAPPED);
+  if (dotted) return dotted[1];
+  const hex = address.match(IPV4_MAPPED_HEX);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  }
+  return address;
+};
+
+/**
+ * True when the address must never be contacted by server-side fetches.
+ * Anything that does not parse as an IP address is treated as blocked.
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const normalized = unwrapMappedIpv4(address.replace(/^\[|\]$/g, '').split('%')[0]);
+  const family = isIP(normalized);
+  if (family === 4) return blockList.check(normalized, 'ipv4');
+  if (family === 6) return blockList.check(normalized, 'ipv6');
+  return true;
+};
+
+/**
+ * DNS lookup for `http.request({ lookup })` that refuses private, loopback and metadata
+ * addresses. It runs inside the socket connect, so the address that was checked is the
+ * one we connect to (no rebinding window). `blockedError` is what the request fails with.
+ */
+export const createSafeLookup =
+  (blockedError: () => Error): LookupFunction =>
+  (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, []);
+        return;
+      }
+      const list = addresses as LookupAddress[];
+      if (!list.length || list.some((entry) => isBlockedAddress(entry.address))) {
+        callback(blockedError(), []);
+        return;
+      }
+      if (options.all) {
+        callback(null, list);
+        return;
+      }
+      callback(null, list[0].address, list[0].family);
+    });
+  };
@@ -0,0 +1,86 @@
+import { sniffImageFormat } from './imageFormat';
+
+export type VideoFormat = 'mp4' | 'mov' | 'webm' | 'gif';
+
+export const VIDEO_MIME_TYPES: Record<VideoFormat, string> = {
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  gif: 'image/gif',
+};
+
+export const VIDEO_EXTENSIONS: Record<VideoFormat, string> = {
+  mp4: 'mp4',
+  mov: 'mov',
+  webm: 'webm',
+  gif: 'gif',
+};
+
+const EBML_MAGIC = 0x1a45dfa3;
+
+/**
+ * Identify a clip container from its leading bytes. ISO-BMFF files that are really HEIC
+ * stills are rejected; QuickTime is told apart by its `qt  ` major brand.
+ */
+export const sniffVideoFormat = (buffer: Buffer): VideoFormat | null => {
+  const image = sniffImageFormat(buffer);
+  if (image === 'gif') return 'gif';
+  if (image) return null;
+
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === EBML_MAGIC) {
+    return 'webm';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    return buffer.toString('ascii', 8, 12) === 'qt  ' ? 'mov' : 'mp4';
+  }
+  return null;
+};
+
+export type AudioFormat = 'mp3' | 'wav' | 'ogg' | 'flac' | 'm4a' | 'webm';
+
+export const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+};
+
+export const AUDIO_EXTENSIONS: Record<AudioFormat, string> = {
+  mp3: 'mp3',
+  wav: 'wav',
+  ogg: 'ogg',
+  flac: 'flac',
+  m4a: 'm4a',
+  webm: 'webm',
+};
+
+const M4A_BRANDS = ['M4A ', 'M4B '];
+
+// MPEG audio frame sync: 11 set bits, and a layer field of 00 is reserved (ADTS AAC uses it).
+const isMpegFrameSync = (buffer: Buffer) =>
+  buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0 && (buffer[1] & 0x06) !== 0;
+
+/**
+ * Identify a voice clip container from its leading bytes. WebM is accepted as audio here
+ * because browser recorders emit audio-only WebM; the probe later confirms an audio stream.
+ */
+export const sniffAudioFormat = (buffer: Buffer): AudioFormat | null => {
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (buffer.length >= 4) {
+    const magic = buffer.toString('ascii', 0, 4);
+    if (magic === 'OggS') return 'ogg';
+    if (magic === 'fLaC') return 'flac';
+    if (buffer.readUInt32BE(0) === EBML_MAGIC) return 'webm';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    return M4A_BRANDS.includes(buffer.toString('ascii', 8, 12)) ? 'm4a' : null;
+  }
+  if ((buffer.length >= 3 && buffer.toString('ascii', 0, 3) === 'ID3') || isMpegFrameSync(buffer)) {
+    return 'mp3';
+  }
+  return null;
+};
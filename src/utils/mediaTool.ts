@@ -0,0 +1,74 @@
+import { spawn } from 'child_process';
+import { logger } from './logger';
+
+export type MediaToolFailure = 'unavailable' | 'timeout' | 'output_too_large' | 'failed';
+
+export class MediaToolError extends Error {
+  reason: MediaToolFailure;
+  // Only meaningful for `unavailable`: the binary is missing rather than failing to start.
+  missing: boolean;
+
+  constructor(reason: MediaToolFailure, message: string, missing = false) {
+    super(message);
+    this.reason = reason;
+    this.missing = missing;
+  }
+}
+
+export interface MediaToolOptions {
+  timeoutMs: number;
+  maxOutputBytes: number;
+}
+
+/**
+ * Run ffmpeg/ffprobe and collect stdout. The process is killed on timeout or when the
+ * output grows past `maxOutputBytes`; stderr is only kept (truncated) for logging.
+ */
+export const runMediaTool = (binary: string, args: string[], options: MediaToolOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let stderr = '';
+    let settled = false;
+
+    const finish = (error: Error | null, output?: Buffer) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        child.kill('SIGKILL');
+        reject(error);
+      } else {
+        resolve(output as Buffer);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      finish(new MediaToolError('timeout', `${binary} timed out`));
+    }, options.timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > options.maxOutputBytes) {
+        finish(new MediaToolError('output_too_large', `${binary} output is too large`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf8')).slice(-2000);
+    });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      logger.error({ err: error, binary }, 'Failed to start media tool');
+      finish(new MediaToolError('unavailable', `${binary} could not be started`, error.code === 'ENOENT'));
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        finish(null, Buffer.concat(chunks));
+        return;
+      }
+      logger.warn({ binary, code, stderr }, 'Media tool exited with an error');
+      finish(new MediaToolError('failed', `${binary} exited with code ${code}`));
+    });
+  });
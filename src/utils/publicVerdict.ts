@@ -0,0 +1,59 @@
+import { AnalysisFinding, AnalysisResult, ProbabilityBreakdown } from '../types/analysis';
+
+export interface PublicVerdict {
+  shareId: string;
+  analyzedAt: string | null;
+  language: string | null;
+  isAI: boolean;
+  confidenceScore: number;
+  verdict: string;
+  detectedModel: string | null;
+  probabilityBreakdown: ProbabilityBreakdown | null;
+  findings: AnalysisFinding[];
+  dimensions: string | null;
+  contentCredentials: 'present' | 'absent' | null;
+  thumbnail: { url: string; expiresAt: string } | null;
+}
+
+const toIso = (value: any): string | null => {
+  if (!value) return null;
+  const date = typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Allowlist the fields of a stored analysis that are safe to publish. Owner identity, the
+ * chat title and message, source URLs, hashes and raw image metadata (camera, software,
+ * GPS) never leave the account. Metadata findings quote those values, so they are dropped too.
+ */
+export const toPublicVerdict = (
+  shareId: string,
+  analysis: Record<string, any>,
+  thumbnail: PublicVerdict['thumbnail'] = null
+): PublicVerdict => {
+  const result = (analysis.result || {}) as Partial<AnalysisResult>;
+  return {
+    shareId,
+    analyzedAt: toIso(analysis.createdAt),
+    language: typeof analysis.language === 'string' ? analysis.language : null,
+    isAI: Boolean(result.isAI),
+    confidenceScore: typeof result.confidenceScore === 'number' ? result.confidenceScore : 0,
+    verdict: typeof result.verdict === 'string' ? result.verdict : '',
+    detectedModel: typeof result.detectedModel === 'string' ? result.detectedModel : null,
+    probabilityBreakdown: result.probabilityBreakdown
+      ? {
+          gan: result.probabilityBreakdown.gan,
+          diffusion: result.probabilityBreakdown.diffusion,
+          organic: result.probabilityBreakdown.organic,
+        }
+      : null,
+    findings: Array.isArray(result.findings)
+      ? result.findings
+          .filter((finding) => finding.type !== 'metadata')
+          .map(({ title, description, type, status }) => ({ title, description, type, status }))
+      : [],
+    dimensions: result.technicalSpecs?.dimensions ?? null,
+    contentCredentials: result.technicalSpecs?.contentCredentials ?? null,
+    thumbnail,
+  };
+};
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from './logger';
+import { buildFallbackChain, normalizeLocale } from '../services/promptCatalogService';
+
+export type ReportLabels = Record<string, string>;
+
+export interface ResolvedReportLabels {
+  locale: string;
+  labels: ReportLabels;
+}
+
+const labelsRoot = path.join(__dirname, '../templates/reports/forensic');
+
+const loadCatalog = (): Map<string, ResolvedReportLabels> => {
+  const catalog = new Map<string, ResolvedReportLabels>();
+  if (!fs.existsSync(labelsRoot)) {
+    logger.warn({ root: labelsRoot }, 'Report label directory not found');
+    return catalog;
+  }
+  fs.readdirSync(labelsRoot)
+    .filter((file) => file.endsWith('.json'))
+    .forEach((file) => {
+      const filePath = path.join(labelsRoot, file);
+      try {
+        const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const locale = normalizeLocale(raw.locale ?? path.basename(file, '.json'));
+        if (!locale || !raw.labels || typeof raw.labels !== 'object') {
+          logger.warn({ filePath }, 'Skipping invalid report labels');
+          return;
+        }
+        catalog.set(locale.toLowerCase(), { locale, labels: raw.labels });
+      } catch (error) {
+        logger.warn({ filePath, err: error }, 'Failed to load report labels');
+      }
+    });
+  return catalog;
+};
+
+const catalog = loadCatalog();
+
+/**
+ * Labels for the requested locale, walking the same fallback chain as prompts. Keys missing
+ * from a translation fall back to English so a partial catalog never renders blanks.
+ */
+export const resolveReportLabels = (requested?: unknown): ResolvedReportLabels => {
+  const english = catalog.get('en')?.labels ?? {};
+  const chain = buildFallbackChain(normalizeLocale(requested), config.analysis.prompts.defaultLocale);
+  for (const locale of chain) {
+    const entry = catalog.get(locale.toLowerCase());
+    if (entry) {
+      return { locale: entry.locale, labels: { ...english, ...entry.labels } };
+    }
+  }
+  return { locale: 'en', labels: english };
+};
+
+export const reportLocales = (): string[] => Array.from(catalog.values()).map((entry) => entry.locale);
@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import { isBlockedAddress } from './ipRanges';
+
+export type WebhookEvent = 'analysis.completed' | 'analysis.failed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['analysis.completed', 'analysis.failed'];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-AIOrReal-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-AIOrReal-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-AIOrReal-Delivery';
+
+export type WebhookUrlParse = { ok: true; url: string } | { ok: false; message: string };
+
+/**
+ * Callback URLs must be absolute https URLs (http only when allowed, for local testing)
+ * without credentials or a literal private address. Hostnames are checked again at
+ * delivery time, when they are resolved.
+ */
+export const parseWebhookUrl = (value: unknown, allowHttp: boolean): WebhookUrlParse => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { ok: false, message: 'url is required' };
+  }
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return { ok: false, message: 'url is not a valid URL' };
+  }
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return { ok: false, message: allowHttp ? 'url must use http or https' : 'url must use https' };
+  }
+  if (url.username || url.password) {
+    return { ok: false, message: 'url must not contain credentials' };
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || (isIP(host) && isBlockedAddress(host))) {
+    return { ok: false, message: 'url points to a disallowed address' };
+  }
+  url.hash = '';
+  return { ok: true, url: url.toString() };
+};
+
+export const parseWebhookEvents = (value: unknown): WebhookEvent[] | null => {
+  if (value === undefined || value === null) return [...WEBHOOK_EVENTS];
+  if (!Array.isArray(value) || !value.length) return null;
+  if (!value.every((event) => WEBHOOK_EVENTS.includes(event as WebhookEvent))) return null;
+  return Array.from(new Set(value as WebhookEvent[]));
+};
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers recompute the HMAC
+ * over the raw body and reject old timestamps to stop replays.
+ */
+export const signWebhookPayload = (secret: string, body: string, timestamp: number): string => {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+};
+
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000)
+): boolean => {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const given = Buffer.from(parts.v1, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+/**
+ * Delay before retry number `attempt` (1 = the first retry): quadruples from `baseSeconds`
+ * up to `maxSeconds`.
+ */
+export const webhookRetryDelaySeconds = (attempt: number, baseSeconds: number, maxSeconds: number): number =>
+  Math.min(maxSeconds, baseSeconds * 4 ** Math.max(0, attempt - 1));
@@ -0,0 +1,127 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('canvas', () => ({}));
+jest.mock('../src/middleware/authMiddleware', () => {
+  const asUser = (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'user-1', email: 'user@example.com' };
+    next();
+  };
+  return {
+    authenticateToken: asUser,
+    authenticateTokenOrApiKey: () => asUser,
+    requireAdmin: asUser,
+    isAdminUser: () => false,
+  };
+});
+jest.mock('../src/middleware/rateLimits', () => ({
+  aiUserLimiter: (_req: any, _res: any, next: () => void) => next(),
+}));
+jest.mock('../src/services/detectorService', () => ({
+  DetectorError: class DetectorError extends Error {},
+  detectorService: { resolveAll: () => [{ name: 'stub' }] },
+}));
+jest.mock('../src/services/webhookService', () => ({
+  webhookService: { dispatch: jest.fn() },
+}));
+jest.mock('../src/services/quotaService', () => ({
+  quotaService: {
+    reserveUsage: jest.fn(),
+    commitUsage: jest.fn(),
+    rollbackUsage: jest.fn(),
+    getQuotaSnapshot: jest.fn(),
+  },
+}));
+
+import { analysisService } from '../src/services/analysisService';
+import { quotaService } from '../src/services/quotaService';
+import { createAnalysisRouter } from '../src/routes/analysis';
+import { config } from '../src/config';
+
+const reserveUsage = quotaService.reserveUsage as jest.Mock<any>;
+const commitUsage = quotaService.commitUsage as jest.Mock<any>;
+const rollbackUsage = quotaService.rollbackUsage as jest.Mock<any>;
+
+const app = express();
+app.use(express.json());
+app.use('/analysis', createAnalysisRouter());
+
+const postBatch = (items: unknown[]) =>
+  request(app).post('/analysis/batch').set('X-Request-Id', 'batch-1').send({ items });
+
+describe('Batch analysis', () => {
+  let analyzeImage: jest.SpiedFunction<typeof analysisService.analyzeImage>;
+
+  beforeEach(() => {
+    reserveUsage.mockResolvedValue({ allowed: true, status: 'reserved', remaining: 10, walletId: 'user-1' });
+    (quotaService.getQuotaSnapshot as jest.Mock<any>).mockResolvedValue(null);
+    // Only the analysis itself is faked; reservation settlement runs for real.
+    analyzeImage = jest.spyOn(analysisService, 'analyzeImage').mockImplementation(async (params) => {
+      if (params.imageBase64 === 'broken') {
+        throw new Error('provider timeout');
+      }
+      return { analysisId: `analysis-${params.requestId}`, result: { isAI: false }, cached: false } as any;
+    });
+  });
+
+  it('should reserve per item and roll back only the failed item', async () => {
+    const response = await postBatch([
+      { imageBase64: 'a' },
+      { imageBase64: 'broken' },
+      { imageBase64: 'c' },
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(reserveUsage.mock.calls.map((call) => call[1]).sort()).toEqual([
+      'batch-1:0',
+      'batch-1:1',
+      'batch-1:2',
+    ]);
+    expect(rollbackUsage).toHaveBeenCalledTimes(1);
+    expect(rollbackUsage).toHaveBeenCalledWith('user-1', 'batch-1:1');
+    expect(commitUsage.mock.calls.map((call) => call[1]).sort()).toEqual(['batch-1:0', 'batch-1:2']);
+
+    const { results, failures } = response.body.data;
+    expect(results.map((item: any) => item.index)).toEqual([0, 2]);
+    expect(failures).toEqual([
+      {
+        index: 1,
+        requestId: 'batch-1:1',
+        status: 'failed',
+        error: { code: 'analysis_failed', message: 'Failed to analyze image' },
+      },
+    ]);
+  });
+
+  it('should report items over quota without analysing them', async () => {
+    reserveUsage
+      .mockResolvedValueOnce({ allowed: true, status: 'reserved', remaining: 0, walletId: 'user-1' })
+      .mockResolvedValueOnce({ allowed: false, status: 'rejected', remaining: 0, walletId: 'user-1' });
+
+    const response = await postBatch([{ imageBase64: 'a' }, { imageBase64: 'b' }]);
+
+    expect(analyzeImage).toHaveBeenCalledTimes(1);
+    expect(response.body.data.failures).toEqual([
+      expect.objectContaining({ index: 1, error: expect.objectContaining({ code: 'QUOTA_EXCEEDED' }) }),
+    ]);
+  });
+
+  it('should fail items without an image without reserving quota', async () => {
+    const response = await postBatch([{ title: 'no image' }]);
+
+    expect(reserveUsage).not.toHaveBeenCalled();
+    expect(response.body.data.failures[0].error.code).toBe('invalid_request');
+  });
+
+  it('should reject empty and oversized batches', async () => {
+    const empty = await postBatch([]);
+    expect(empty.status).toBe(400);
+
+    const tooMany = Array.from({ length: config.analysis.batch.maxItems + 1 }, () => ({ imageBase64: 'a' }));
+    const oversized = await postBatch(tooMany);
+    expect(oversized.status).toBe(400);
+    expect(oversized.body.error.code).toBe('batch_too_large');
+    expect(reserveUsage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('canvas', () => ({}));
+jest.mock('../src/services/cacheService', () => {
+  const entries = new Map<string, unknown>();
+  return {
+    cacheService: {
+      entries,
+      get: async (key: string) => entries.get(key) ?? null,
+      set: async (key: string, value: unknown) => {
+        entries.set(key, value);
+        return true;
+      },
+    },
+  };
+});
+jest.mock('../src/services/calibrationService', () => ({
+  calibrationService: { versionFor: jest.fn() },
+}));
+jest.mock('../src/services/quotaService', () => ({
+  quotaService: { commitUsage: jest.fn(), rollbackUsage: jest.fn() },
+}));
+jest.mock('../src/services/webhookService', () => ({
+  webhookService: { dispatch: jest.fn() },
+}));
+
+import { analysisCacheService, AnalysisCacheContext, CachedAnalysis } from '../src/services/analysisCacheService';
+import { cacheService } from '../src/services/cacheService';
+import { calibrationService } from '../src/services/calibrationService';
+import { quotaService } from '../src/services/quotaService';
+import { analysisService } from '../src/services/analysisService';
+import { ANALYSIS_QUOTA_CONFIG } from '../src/config/quotaConfig';
+import { config } from '../src/config';
+
+const versionFor = calibrationService.versionFor as jest.Mock<any>;
+const provider = (name: string, model: string) => ({ name, model }) as any;
+
+const baseContext: AnalysisCacheContext = {
+  userId: 'user-1',
+  promptVersion: 'forensic/en@3',
+  schemaVersion: 'forensic@2',
+  providers: [provider('gemini', 'gemini-3-flash-preview'), provider('openai', 'gpt-4o')],
+  strategy: 'weighted_average',
+};
+const hashes = { sha256: 'abc123', dhash: null };
+const entry = { analysisId: 'analysis-1', userId: 'user-1' } as CachedAnalysis;
+
+const hitsAfterStore = async (lookupContext: Partial<AnalysisCacheContext>) => {
+  await analysisCacheService.store(baseContext, hashes, entry);
+  return (await analysisCacheService.lookup({ ...baseContext, ...lookupContext }, hashes)) !== null;
+};
+
+describe('Analysis result cache keys', () => {
+  const scope = config.analysis.cache.scope;
+
+  beforeEach(() => {
+    (cacheService as any).entries.clear();
+    versionFor.mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    config.analysis.cache.scope = scope;
+  });
+
+  it('should only share results within the same user unless the scope is global', async () => {
+    config.analysis.cache.scope = 'user';
+    expect(await hitsAfterStore({})).toBe(true);
+    expect(await hitsAfterStore({ userId: 'user-2' })).toBe(false);
+
+    config.analysis.cache.scope = 'global';
+    expect(await hitsAfterStore({ userId: 'user-2' })).toBe(true);
+  });
+
+  it('should miss when the prompt locale, prompt version or schema version changes', async () => {
+    expect(await hitsAfterStore({ promptVersion: 'forensic/tr@3' })).toBe(false);
+    expect(await hitsAfterStore({ promptVersion: 'forensic/en@4' })).toBe(false);
+    expect(await hitsAfterStore({ schemaVersion: 'forensic@3' })).toBe(false);
+  });
+
+  it('should key on the provider set regardless of order', async () => {
+    expect(await hitsAfterStore({ providers: [...baseContext.providers].reverse() })).toBe(true);
+    expect(await hitsAfterStore({ providers: [provider('gemini', 'gemini-3-flash-preview')] })).toBe(false);
+    expect(
+      await hitsAfterStore({ providers: [provider('gemini', 'gemini-3-pro'), provider('openai', 'gpt-4o')] })
+    ).toBe(false);
+    expect(await hitsAfterStore({ strategy: 'majority_vote' })).toBe(false);
+  });
+
+  it('should miss after new calibration parameters are deployed', async () => {
+    await analysisCacheService.store(baseContext, hashes, entry);
+    versionFor.mockImplementation((name: any) => (name === 'gemini' ? 2 : null));
+    expect(await analysisCacheService.lookup(baseContext, hashes)).toBeNull();
+
+    await analysisCacheService.store(baseContext, hashes, entry);
+    expect(await analysisCacheService.lookup(baseContext, hashes)).not.toBeNull();
+    versionFor.mockImplementation((name: any) => (name === 'gemini' ? 3 : null));
+    expect(await analysisCacheService.lookup(baseContext, hashes)).toBeNull();
+  });
+});
+
+describe('Cache hit quota settlement', () => {
+  const consumes = ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota;
+
+  afterEach(() => {
+    ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota = consumes;
+  });
+
+  const runCached = async () => {
+    jest
+      .spyOn(analysisService, 'analyzeImage')
+      .mockResolvedValue({ analysisId: 'analysis-1', result: { isAI: true }, cached: true } as any);
+    await analysisService.runReserved({ requestId: 'req-1', userId: 'user-1', providers: [] } as any);
+  };
+
+  it('should release the reservation for cache hits when they are free', async () => {
+    ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota = false;
+    await runCached();
+    expect(quotaService.rollbackUsage).toHaveBeenCalledWith('user-1', 'req-1');
+    expect(quotaService.commitUsage).not.toHaveBeenCalled();
+  });
+
+  it('should commit the reservation for cache hits by default', async () => {
+    ANALYSIS_QUOTA_CONFIG.cacheHitConsumesQuota = true;
+    await runCached();
+    expect(quotaService.commitUsage).toHaveBeenCalledWith('user-1', 'req-1');
+    expect(quotaService.rollbackUsage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+jest.mock('../src/firebase', () => {
+  const fake = jest.requireActual('./helpers/fakeFirestore') as typeof import('./helpers/fakeFirestore');
+  return { db: new fake.FakeFirestore() };
+});
+jest.mock('../src/services/shareService', () => ({
+  shareService: { removeForAnalysis: jest.fn() },
+}));
+
+import {
+  analysisHistoryService,
+  decodeCursor,
+  encodeCursor,
+  HistoryError,
+} from '../src/services/analysisHistoryService';
+import { ResponseBuilder } from '../src/types/response';
+import { db } from '../src/firebase';
+
+const fakeDb = db as unknown as FakeFirestore;
+
+describe('Analysis history query parsing', () => {
+  it('should parse verdict, confidence, date, favorites and language filters', () => {
+    const filters = analysisHistoryService.parseFilters({
+      isAI: 'true',
+      minConfidence: '40',
+      maxConfidence: '90',
+      from: '2026-01-01T00:00:00Z',
+      favorites: 'false',
+      language: 'pt-BR',
+    });
+
+    expect(filters).toMatchObject({
+      isAI: true,
+      minConfidence: 40,
+      maxConfidence: 90,
+      favorites: false,
+      language: 'pt-BR',
+    });
+    expect(filters.from?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(filters.includeDeleted).toBeUndefined();
+  });
+
+  it('should reject invalid filters', () => {
+    expect(() => analysisHistoryService.parseFilters({ isAI: 'maybe' })).toThrow(HistoryError);
+    expect(() => analysisHistoryService.parseFilters({ minConfidence: '120' })).toThrow('minConfidence');
+    expect(() => analysisHistoryService.parseFilters({ minConfidence: '80', maxConfidence: '20' })).toThrow(
+      'must not exceed'
+    );
+    expect(() => analysisHistoryService.parseFilters({ from: 'yesterday' })).toThrow('ISO date');
+  });
+
+  it('should clamp the page size', () => {
+    expect(analysisHistoryService.parseLimit(undefined)).toBe(50);
+    expect(analysisHistoryService.parseLimit('500')).toBe(100);
+    expect(analysisHistoryService.parseLimit('-3')).toBe(50);
+  });
+
+  it('should round-trip cursors and reject garbage', () => {
+    expect(decodeCursor(encodeCursor('abc123'))).toBe('abc123');
+    expect(decodeCursor(undefined)).toBeNull();
+    expect(() => decodeCursor('not-a-cursor')).toThrow(HistoryError);
+  });
+
+  it('should expose the next cursor in paginated responses', () => {
+    const response = ResponseBuilder.cursorPaginated([{ id: 1 }], 1, 5, 'next');
+    expect(response.pagination).toEqual({ limit: 1, total: 5, hasNext: true, nextCursor: 'next' });
+
+    const last = ResponseBuilder.cursorPaginated([], 1, 5, null);
+    expect(last.pagination).toMatchObject({ hasNext: false, nextCursor: null });
+    expect(last.pagination).not.toHaveProperty('page');
+
+    expect(ResponseBuilder.paginated([], 1, 10, 30).pagination).not.toHaveProperty('nextCursor');
+  });
+});
+
+describe('Analysis history updates', () => {
+  it('should reject invalid title and favorite values before touching storage', async () => {
+    await expect(analysisHistoryService.update('user-1', 'a1', {})).rejects.toMatchObject({
+      code: 'invalid_request',
+      status: 400,
+    });
+    await expect(analysisHistoryService.update('user-1', 'a1', { favorite: 'yes' })).rejects.toThrow(
+      'favorite must be a boolean'
+    );
+    await expect(analysisHistoryService.update('user-1', 'a1', { title: 'x'.repeat(201) })).rejects.toThrow(
+      'at most 200'
+    );
+  });
+});
+
+describe('Analysis history pages', () => {
+  const userId = 'user-1';
+
+  const storeItems = async (count: number, extra: Record<string, unknown> = {}) => {
+    const history = fakeDb.collection('users').doc(userId).collection('analyze1');
+    for (let i = 0; i < count; i++) {
+      await history.doc(`a${i}`).set({
+        userId,
+        deleted: false,
+        createdAt: new Date(Date.UTC(2026, 0, 1 + i)),
+        result: { isAI: true, confidenceScore: 50 + i },
+        ...extra,
+      });
+    }
+  };
+
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it('should not return a cursor when the last page fills exactly', async () => {
+    await storeItems(4);
+
+    const first = await analysisHistoryService.list(userId, {}, 2);
+    expect(first.items.map((item) => item.analysisId)).toEqual(['a3', 'a2']);
+    expect(first.nextCursor).not.toBeNull();
+    expect(first.total).toBe(4);
+
+    const last = await analysisHistoryService.list(userId, {}, 2, first.nextCursor);
+    expect(last.items.map((item) => item.analysisId)).toEqual(['a1', 'a0']);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('should look past the page for a next item when filtering by confidence', async () => {
+    await storeItems(4);
+
+    const page = await analysisHistoryService.list(userId, { minConfidence: 52 }, 2);
+    expect(page.items.map((item) => item.analysisId)).toEqual(['a3', 'a2']);
+    expect(page.nextCursor).not.toBeNull();
+
+    const rest = await analysisHistoryService.list(userId, { minConfidence: 52 }, 2, page.nextCursor);
+    expect(rest.items).toEqual([]);
+    expect(rest.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+jest.mock('canvas', () => ({}));
+jest.mock('../src/firebase', () => {
+  const fake = jest.requireActual('./helpers/fakeFirestore') as typeof import('./helpers/fakeFirestore');
+  return { db: new fake.FakeFirestore() };
+});
+jest.mock('../src/middleware/authMiddleware', () => {
+  const asUser = (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'user-1', email: 'user@example.com' };
+    next();
+  };
+  return {
+    authenticateToken: asUser,
+    authenticateTokenOrApiKey: () => asUser,
+    requireAdmin: asUser,
+    isAdminUser: () => false,
+  };
+});
+jest.mock('../src/middleware/rateLimits', () => ({
+  aiUserLimiter: (_req: any, _res: any, next: () => void) => next(),
+}));
+jest.mock('../src/services/detectorService', () => ({
+  DetectorError: class DetectorError extends Error {},
+  detectorService: { resolveAll: () => [{ name: 'stub' }] },
+}));
+jest.mock('../src/services/analysisService', () => ({
+  analysisService: { runReserved: jest.fn(), describeFailure: jest.fn() },
+}));
+jest.mock('../src/services/quotaService', () => ({
+  quotaService: { reserveUsage: jest.fn(), rollbackUsage: jest.fn() },
+}));
+jest.mock('../src/services/webhookService', () => ({
+  webhookService: { dispatch: jest.fn() },
+}));
+jest.mock('../src/services/websocketService', () => ({
+  getWebSocketService: () => null,
+}));
+
+import { db } from '../src/firebase';
+import { analysisService } from '../src/services/analysisService';
+import { quotaService } from '../src/services/quotaService';
+import { webhookService } from '../src/services/webhookService';
+import { analysisJobService } from '../src/services/analysisJobService';
+import { createAnalysisRouter } from '../src/routes/analysis';
+import { config } from '../src/config';
+
+const fakeDb = db as unknown as FakeFirestore;
+const runReserved = analysisService.runReserved as jest.Mock<any>;
+const reserveUsage = quotaService.reserveUsage as jest.Mock<any>;
+const rollbackUsage = quotaService.rollbackUsage as jest.Mock<any>;
+
+const app = express();
+app.use(express.json());
+app.use('/analysis', createAnalysisRouter());
+
+// The worker starts on `setImmediate`; let it and its awaited writes finish.
+const drainWorker = async () => {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+const FAILED_JOB_ID = '00000000-0000-4000-8000-000000000003';
+const BROKEN_JOB_ID = '00000000-0000-4000-8000-000000000004';
+const LATE_JOB_ID = '00000000-0000-4000-8000-000000000005';
+
+const params = (requestId: string) => ({
+  requestId,
+  userId: 'user-1',
+  imageBase64: 'aGVsbG8=',
+  providers: [],
+});
+
+describe('Analysis jobs', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    (analysisService.describeFailure as jest.Mock<any>).mockImplementation((error: any) => ({
+      status: 500,
+      code: 'ANALYSIS_FAILED',
+      message: error.message,
+    }));
+    rollbackUsage.mockResolvedValue('rolled_back');
+  });
+
+  it('should answer 202 with the queued job and finish it in the background', async () => {
+    reserveUsage.mockResolvedValue({ allowed: true, status: 'reserved', remaining: 4, walletId: 'user-1' });
+    runReserved.mockResolvedValue({ analysisId: 'analysis-1', result: { isAI: true }, cached: false });
+
+    const response = await request(app)
+      .post('/analysis/jobs')
+      .set('X-Request-Id', 'req-1')
+      .send({ imageBase64: 'aGVsbG8=' });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toMatchObject({ requestId: 'req-1', status: 'queued', remaining: 4 });
+    const { jobId } = response.body.data;
+
+    await drainWorker();
+    const polled = await request(app).get(`/analysis/jobs/${jobId}`);
+    expect(polled.body.data).toMatchObject({ status: 'completed', analysisId: 'analysis-1', error: null });
+    expect(rollbackUsage).not.toHaveBeenCalled();
+  });
+
+  it('should release the reservation when the job cannot be queued', async () => {
+    reserveUsage.mockResolvedValue({ allowed: true, status: 'reserved', remaining: 4, walletId: 'user-1' });
+    jest.spyOn(analysisJobService, 'createJob').mockRejectedValueOnce(new Error('firestore down'));
+
+    const response = await request(app)
+      .post('/analysis/jobs')
+      .set('X-Request-Id', 'req-2')
+      .send({ imageBase64: 'aGVsbG8=' });
+
+    expect(response.status).toBe(500);
+    expect(rollbackUsage).toHaveBeenCalledWith('user-1', 'req-2');
+  });
+
+  it('should mark failed jobs and announce them', async () => {
+    runReserved.mockRejectedValue(new Error('provider timeout'));
+
+    const job = await analysisJobService.createJob(params('req-3') as any, FAILED_JOB_ID);
+    expect(job.status).toBe('queued');
+    await drainWorker();
+
+    expect(fakeDb.data('analysis_jobs', FAILED_JOB_ID)).toMatchObject({
+      status: 'failed',
+      error: { code: 'ANALYSIS_FAILED', message: 'provider timeout' },
+    });
+    expect(webhookService.dispatch).toHaveBeenCalledWith(
+      'user-1',
+      'analysis.failed',
+      expect.objectContaining({ jobId: FAILED_JOB_ID, requestId: 'req-3' })
+    );
+  });
+
+  it('should roll back the reservation when the job fails before the analysis runs', async () => {
+    const realCollection = fakeDb.collection.bind(fakeDb);
+    jest.spyOn(fakeDb, 'collection').mockImplementation((name: string) => {
+      const collection = realCollection(name);
+      return {
+        ...collection,
+        doc: (id: string) => ({
+          ...collection.doc(id),
+          update: async () => {
+            throw new Error('write failed');
+          },
+        }),
+      };
+    });
+
+    await analysisJobService.createJob(params('req-4') as any, BROKEN_JOB_ID);
+    await drainWorker();
+
+    expect(runReserved).not.toHaveBeenCalled();
+    expect(rollbackUsage).toHaveBeenCalledWith('user-1', 'req-4');
+  });
+
+  it('should fail stalled jobs and release their quota', async () => {
+    const stale = '2026-10-19T10:00:00.000Z';
+    const jobs = fakeDb.collection('analysis_jobs');
+    await jobs.doc('stalled').set({
+      id: 'stalled',
+      userId: 'user-1',
+      requestId: 'req-5',
+      status: 'running',
+      updatedAt: stale,
+    });
+    await jobs.doc('fresh').set({
+      id: 'fresh',
+      userId: 'user-1',
+      requestId: 'req-6',
+      status: 'queued',
+      updatedAt: '2026-10-19T11:59:00.000Z',
+    });
+    await jobs.doc('done').set({
+      id: 'done',
+      userId: 'user-1',
+      requestId: 'req-7',
+      status: 'completed',
+      updatedAt: stale,
+    });
+
+    const failed = await analysisJobService.failStaleJobs(new Date('2026-10-19T12:00:00.000Z'));
+
+    expect(failed).toBe(1);
+    expect(fakeDb.data('analysis_jobs', 'stalled')).toMatchObject({
+      status: 'failed',
+      error: { code: 'JOB_STALLED' },
+    });
+    expect(fakeDb.data('analysis_jobs', 'fresh')?.status).toBe('queued');
+    expect(rollbackUsage).toHaveBeenCalledTimes(1);
+    expect(rollbackUsage).toHaveBeenCalledWith('user-1', 'req-5');
+  });
+
+  it('should not complete a job that was failed as stalled while it ran', async () => {
+    let finish: (value: unknown) => void = () => undefined;
+    runReserved.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+    await analysisJobService.createJob(params('req-8') as any, LATE_JOB_ID);
+    await drainWorker();
+    expect(fakeDb.data('analysis_jobs', LATE_JOB_ID)?.status).toBe('running');
+
+    const later = new Date(Date.now() + (config.analysis.jobs.staleAfterSeconds + 60) * 1000);
+    expect(await analysisJobService.failStaleJobs(later)).toBe(1);
+
+    finish({ analysisId: 'analysis-8', result: { isAI: true }, cached: false });
+    await drainWorker();
+
+    expect(fakeDb.data('analysis_jobs', LATE_JOB_ID)).toMatchObject({
+      status: 'failed',
+      error: { code: 'JOB_STALLED' },
+    });
+    expect(fakeDb.data('analysis_jobs', LATE_JOB_ID)?.analysisId).toBeNull();
+  });
+});
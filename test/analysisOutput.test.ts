@@ -0,0 +1,134 @@
+import { describe, it, expect } from '@jest/globals';
+import { ANALYSIS_SCHEMAS } from '../src/config/analysisRegistry';
+import { detectWithRepair, ModelOutputError } from '../src/services/detectorService';
+import { normalizeBreakdown, normalizeRegions, parseModelOutput } from '../src/utils/analysisOutput';
+import type { DetectorInput, DetectorProvider } from '../src/types/analysis';
+
+const schema = ANALYSIS_SCHEMAS[0].definition;
+
+const validOutput = {
+  isAI: true,
+  confidenceScore: 140,
+  detectedModel: 'Midjourney',
+  verdict: 'Synthetic',
+  findings: [{ title: 'Texture', description: 'Smooth skin', type: 'texture', status: 'alert' }],
+  probabilityBreakdown: { gan: 10, diffusion: 60, organic: 10 },
+  technicalSpecs: { dimensions: '1024x1024', colorSpace: 'sRGB', modelId: 'mj', entropy: '7.1' },
+};
+
+describe('Model output validation', () => {
+  it('should clamp confidence and normalize the breakdown', () => {
+    const parsed = parseModelOutput(JSON.stringify(validOutput), schema);
+
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.result.confidenceScore).toBe(100);
+    expect(parsed.result.probabilityBreakdown).toEqual({ gan: 12.5, diffusion: 75, organic: 12.5 });
+  });
+
+  it('should accept fenced JSON', () => {
+    const parsed = parseModelOutput('```json\n' + JSON.stringify(validOutput) + '\n```', schema);
+    expect(parsed.ok).toBe(true);
+  });
+
+  it('should report malformed and schema-violating output', () => {
+    const truncated = parseModelOutput(JSON.stringify(validOutput).slice(0, 40), schema);
+    expect(truncated).toEqual({ ok: false, issues: [expect.stringContaining('not valid JSON')] });
+
+    const invalid = parseModelOutput(
+      JSON.stringify({ ...validOutput, isAI: 'yes', findings: [{ title: 'x', status: 'maybe' }] }),
+      schema
+    );
+    expect(invalid.ok).toBe(false);
+    if (invalid.ok) return;
+    expect(invalid.issues.some((issue) => issue.startsWith('isAI:'))).toBe(true);
+    expect(invalid.issues.some((issue) => issue.startsWith('findings.0.status:'))).toBe(true);
+  });
+
+  it('should keep normalized breakdowns summing to 100', () => {
+    const breakdown = normalizeBreakdown({ gan: 1, diffusion: 1, organic: 1 }, false);
+    expect(breakdown.gan + breakdown.diffusion + breakdown.organic).toBeCloseTo(100, 5);
+    expect(normalizeBreakdown({ gan: 0, diffusion: 0, organic: 0 }, true)).toEqual({
+      gan: 0,
+      diffusion: 100,
+      organic: 0,
+    });
+  });
+});
+
+describe('Region annotations', () => {
+  const regionSchema = ANALYSIS_SCHEMAS.find((entry) => entry.version === 2)!.definition;
+
+  it('should keep regions optional and clamp boxes into the image', () => {
+    const withoutRegions = parseModelOutput(JSON.stringify(validOutput), regionSchema);
+    expect(withoutRegions.ok).toBe(true);
+    if (withoutRegions.ok) expect(withoutRegions.result).not.toHaveProperty('regions');
+
+    const parsed = parseModelOutput(
+      JSON.stringify({
+        ...validOutput,
+        regions: { boxes: [{ x: 0.8, y: -0.2, width: 0.5, height: 0.4, score: 130, label: ' hands ' }] },
+      }),
+      regionSchema
+    );
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.result.regions).toEqual({
+      boxes: [{ x: 0.8, y: 0, width: 0.2, height: 0.4, score: 100, label: 'hands' }],
+    });
+  });
+
+  it('should drop grids whose scores do not match rows * cols', () => {
+    expect(normalizeRegions({ grid: { rows: 2, cols: 2, scores: [10, 20, 30] } })).toBeUndefined();
+    expect(normalizeRegions({ grid: { rows: 1, cols: 2, scores: [-5, 55.555] } })).toEqual({
+      grid: { rows: 1, cols: 2, scores: [0, 55.56] },
+    });
+    expect(normalizeRegions({ boxes: [{ x: 1, y: 1, width: 0.1, height: 0.1, score: 50 }] })).toBeUndefined();
+  });
+});
+
+describe('Model output repair', () => {
+  const input: DetectorInput = {
+    requestId: 'repair-request',
+    image: { mimeType: 'image/png', data: 'aGVsbG8=' },
+    language: 'en',
+    prompt: 'Analyze',
+    schema,
+  };
+
+  const scriptedProvider = (responses: string[], prompts: string[]): DetectorProvider => ({
+    name: 'scripted',
+    model: 'scripted-v1',
+    isConfigured: () => true,
+    detect: async (detectorInput) => {
+      prompts.push(detectorInput.prompt);
+      const text = responses.shift() || '';
+      const parsed = parseModelOutput(text, detectorInput.schema);
+      if (!parsed.ok) throw new ModelOutputError(parsed.issues, text);
+      return { provider: 'scripted', model: 'scripted-v1', result: parsed.result };
+    },
+  });
+
+  it('should retry once with a repair prompt', async () => {
+    const prompts: string[] = [];
+    const provider = scriptedProvider(['{"isAI": true', JSON.stringify(validOutput)], prompts);
+
+    const output = await detectWithRepair(provider, input);
+
+    expect(output.result.detectedModel).toBe('Midjourney');
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('did not match the required JSON schema');
+    expect(prompts[1]).toContain('{"isAI": true');
+  });
+
+  it('should fail with model_output_invalid after the repair attempt', async () => {
+    const prompts: string[] = [];
+    const provider = scriptedProvider(['nope', '{}'], prompts);
+
+    const error = await detectWithRepair(provider, input).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ModelOutputError);
+    expect(error).toMatchObject({ code: 'model_output_invalid', status: 502 });
+    expect(prompts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { config } from '../src/config';
+import { ANALYSIS_PROFILES } from '../src/config/analysisRegistry';
+import { analysisRegistryService } from '../src/services/analysisRegistryService';
+import { DetectorError } from '../src/services/detectorService';
+
+describe('Analysis registry', () => {
+  const defaults = { ...config.analysis.profiles };
+  const registeredProfiles = ANALYSIS_PROFILES.length;
+
+  afterEach(() => {
+    config.analysis.profiles.default = defaults.default;
+    config.analysis.profiles.experiment = defaults.experiment;
+    ANALYSIS_PROFILES.splice(registeredProfiles);
+  });
+
+  it('should resolve the default profile with prompt and schema versions', () => {
+    const resolved = analysisRegistryService.resolve('user-1', 'pt-BR');
+
+    expect(resolved).toMatchObject({
+      profile: 'forensic-v2',
+      promptVersion: 'forensic/pt-BR@1',
+      schemaVersion: 'forensic@2',
+      experimentBucket: null,
+    });
+    expect(resolved.schema.definition.required).toContain('isAI');
+    expect(resolved.schema.definition.required).not.toContain('regions');
+  });
+
+  it('should assign experiment variants by a stable user bucket', () => {
+    ANALYSIS_PROFILES.push({ name: 'forensic-exp', promptTemplate: 'forensic', schema: { name: 'forensic', version: 1 } });
+    config.analysis.profiles.experiment = { 'forensic-exp': 100 };
+
+    const first = analysisRegistryService.resolve('user-1', 'en');
+    expect(first.profile).toBe('forensic-exp');
+    expect(first.experimentBucket).toEqual(analysisRegistryService.resolve('user-1', 'tr').experimentBucket);
+
+    config.analysis.profiles.experiment = { 'forensic-exp': 0 };
+    expect(analysisRegistryService.resolve('user-1', 'en').profile).toBe('forensic-v2');
+  });
+
+  it('should fail with a config error when the default profile is unknown', () => {
+    config.analysis.profiles.default = 'missing';
+    expect(() => analysisRegistryService.resolve('user-1')).toThrow(DetectorError);
+  });
+});
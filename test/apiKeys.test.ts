@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatApiKey, parseApiKey, parseApiKeyScopes, readApiKey } from '../src/utils/apiKeys';
+
+const ID = '0123456789abcdef';
+const SECRET = 'a'.repeat(64);
+
+describe('API keys', () => {
+  it('should round-trip the key id and secret', () => {
+    const key = formatApiKey(ID, SECRET);
+    expect(key).toBe(`aor_${ID}_${SECRET}`);
+    expect(parseApiKey(` ${key} `)).toEqual({ id: ID, secret: SECRET });
+    expect(parseApiKey(`aor_${ID}_${SECRET.slice(1)}`)).toBeNull();
+    expect(parseApiKey(`aor_${ID.toUpperCase()}_${SECRET}`)).toBeNull();
+    expect(parseApiKey(undefined)).toBeNull();
+  });
+
+  it('should only treat prefixed Bearer tokens as keys so JWTs keep their path', () => {
+    const key = formatApiKey(ID, SECRET);
+    expect(readApiKey(undefined, key)).toBe(key);
+    expect(readApiKey(`Bearer ${key}`, undefined)).toBe(key);
+    expect(readApiKey(`bearer ${key}`, undefined)).toBe(key);
+    expect(readApiKey('Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig', undefined)).toBeNull();
+    expect(readApiKey(undefined, '  ')).toBeNull();
+    expect(readApiKey(undefined, undefined)).toBeNull();
+  });
+
+  it('should require an explicit list of known scopes', () => {
+    expect(parseApiKeyScopes(['history:read', 'analysis:write', 'history:read'])).toEqual([
+      'history:read',
+      'analysis:write',
+    ]);
+    expect(parseApiKeyScopes(undefined)).toBeNull();
+    expect(parseApiKeyScopes([])).toBeNull();
+    expect(parseApiKeyScopes(['history:write'])).toBeNull();
+  });
+});
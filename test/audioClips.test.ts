@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { sniffAudioFormat } from '../src/utils/mediaFormat';
+
+const ftyp = (brand: string) => {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(24, 0);
+  buffer.write('ftyp', 4, 'ascii');
+  buffer.write(brand, 8, 'ascii');
+  return buffer;
+};
+
+describe('Audio clip sniffing', () => {
+  it('should recognize voice clip containers from their magic bytes', () => {
+    expect(sniffAudioFormat(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'binary'))).toBe('wav');
+    expect(sniffAudioFormat(Buffer.from('ID3\x04\x00\x00', 'binary'))).toBe('mp3');
+    expect(sniffAudioFormat(Buffer.from([0xff, 0xfb, 0x90, 0x64]))).toBe('mp3');
+    expect(sniffAudioFormat(Buffer.from('OggS\x00\x02', 'binary'))).toBe('ogg');
+    expect(sniffAudioFormat(Buffer.from('fLaC\x00\x00', 'binary'))).toBe('flac');
+    expect(sniffAudioFormat(ftyp('M4A '))).toBe('m4a');
+    expect(sniffAudioFormat(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01]))).toBe('webm');
+  });
+
+  it('should reject video, images and ADTS streams', () => {
+    expect(sniffAudioFormat(ftyp('isom'))).toBeNull();
+    expect(sniffAudioFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBeNull();
+    expect(sniffAudioFormat(Buffer.from([0xff, 0xf1, 0x50, 0x80]))).toBeNull();
+    expect(sniffAudioFormat(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'binary'))).toBeNull();
+    expect(sniffAudioFormat(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calibrateProbability,
+  calibrateResult,
+  CalibrationParameters,
+  CalibrationSample,
+  fitIsotonic,
+  fitPlatt,
+  parseCalibrationParameters,
+  samplesFromManifest,
+} from '../src/utils/calibration';
+import { DatasetManifestRecord, providerPredictions } from '../src/utils/feedbackDataset';
+import type { AnalysisResult } from '../src/types/analysis';
+
+// Overconfident detector: says ~90% AI, but only 60% of those really are AI.
+const overconfident: CalibrationSample[] = [
+  ...Array.from({ length: 60 }, () => ({ probability: 0.9, isAI: true })),
+  ...Array.from({ length: 40 }, () => ({ probability: 0.9, isAI: false })),
+  ...Array.from({ length: 10 }, () => ({ probability: 0.1, isAI: true })),
+  ...Array.from({ length: 90 }, () => ({ probability: 0.1, isAI: false })),
+];
+
+const result = (isAI: boolean, confidenceScore: number): AnalysisResult => ({
+  isAI,
+  confidenceScore,
+  detectedModel: 'Unknown',
+  verdict: 'test',
+  findings: [],
+  probabilityBreakdown: { gan: 0, diffusion: 50, organic: 50 },
+});
+
+const parameters = (mapping: Record<string, unknown>): CalibrationParameters =>
+  parseCalibrationParameters({ provider: 'gemini', model: 'm1', version: 3, ...mapping }) as CalibrationParameters;
+
+describe('Confidence calibration', () => {
+  it('should pull overconfident scores towards observed rates with Platt scaling', () => {
+    const mapping = fitPlatt(overconfident);
+    expect(calibrateProbability(mapping, 0.9)).toBeCloseTo(0.6, 1);
+    expect(calibrateProbability(mapping, 0.1)).toBeCloseTo(0.1, 1);
+    expect(calibrateProbability(mapping, 0.5)).toBeGreaterThan(calibrateProbability(mapping, 0.2));
+  });
+
+  it('should fit a monotonic isotonic mapping and interpolate between points', () => {
+    const mapping = fitIsotonic([
+      { probability: 0.2, isAI: false },
+      { probability: 0.4, isAI: true },
+      { probability: 0.5, isAI: false },
+      { probability: 0.8, isAI: true },
+    ]);
+    expect(mapping.points).toEqual([
+      { x: 0.2, y: 0 },
+      { x: 0.45, y: 0.5 },
+      { x: 0.8, y: 1 },
+    ]);
+    expect(calibrateProbability(mapping, 0.1)).toBe(0.01);
+    expect(calibrateProbability(mapping, 0.625)).toBeCloseTo(0.75, 4);
+    expect(calibrateProbability(mapping, 0.95)).toBe(0.99);
+  });
+
+  it('should keep the raw score and calibrate in the verdict direction', () => {
+    const isotonic = parameters({ method: 'isotonic', points: [{ x: 0, y: 0 }, { x: 1, y: 0.6 }] });
+    expect(calibrateResult(result(true, 90), isotonic)).toMatchObject({
+      isAI: true,
+      confidenceScore: 54,
+      rawConfidenceScore: 90,
+      calibration: { method: 'isotonic', version: 3 },
+    });
+    // Calibrated "real" confidence is the complement of the calibrated AI probability.
+    expect(calibrateResult(result(false, 80), isotonic)).toMatchObject({
+      isAI: false,
+      confidenceScore: 88,
+      rawConfidenceScore: 80,
+    });
+  });
+
+  it('should re-derive the verdict from the calibrated AI probability', () => {
+    const isotonic = parameters({ method: 'isotonic', points: [{ x: 0, y: 0 }, { x: 1, y: 0.6 }] });
+    const flipped = calibrateResult(result(true, 60), isotonic);
+    expect(flipped).toMatchObject({ isAI: false, confidenceScore: 64, rawIsAI: true, rawConfidenceScore: 60 });
+    // Calibrating again starts from the model's own verdict, not the flipped one.
+    expect(calibrateResult(flipped, isotonic)).toEqual(flipped);
+    expect(providerPredictions({ provider: 'gemini', model: 'm1', result: flipped })).toEqual([
+      { provider: 'gemini', model: 'm1', isAI: true, rawConfidenceScore: 60 },
+    ]);
+  });
+
+  it('should reject unusable parameter files', () => {
+    expect(parseCalibrationParameters({ provider: 'gemini', model: 'm1', version: 1, method: 'platt', a: 1 })).toBeNull();
+    expect(
+      parseCalibrationParameters({
+        provider: 'gemini',
+        model: 'm1',
+        version: 1,
+        method: 'isotonic',
+        points: [{ x: 0.2, y: 0.5 }, { x: 0.8, y: 0.3 }],
+      })
+    ).toBeNull();
+    expect(parameters({ method: 'platt', a: 0.5, b: -0.2, mediaType: 'audio' })).toMatchObject({
+      mediaType: 'audio',
+      samples: 0,
+    });
+  });
+
+  it('should collect per-provider raw scores from analyses and feedback exports', () => {
+    const analysis = {
+      provider: 'ensemble',
+      ensemble: {
+        verdicts: [
+          { provider: 'gemini', model: 'm1', status: 'fulfilled', result: result(true, 70) },
+          { provider: 'openai', model: 'gpt-4o', status: 'fulfilled', result: { ...result(false, 60), rawConfidenceScore: 80 } },
+          { provider: 'stub', model: 'stub', status: 'rejected', error: 'down' },
+        ],
+      },
+    };
+    const providers = providerPredictions(analysis);
+    expect(providers).toEqual([
+      { provider: 'gemini', model: 'm1', isAI: true, rawConfidenceScore: 70 },
+      { provider: 'openai', model: 'gpt-4o', isAI: false, rawConfidenceScore: 80 },
+    ]);
+
+    const records = [
+      { mediaType: 'image', label: 'real', predicted: { providers } },
+      // Exported before per-provider predictions were stored.
+      { mediaType: 'image', label: 'ai', predicted: { provider: 'gemini', model: 'm1', isAI: false, confidenceScore: 55 } },
+      { mediaType: 'audio', label: 'ai', predicted: { provider: 'gemini', model: 'm1', isAI: true, confidenceScore: 90 } },
+    ] as unknown as DatasetManifestRecord[];
+    expect(samplesFromManifest(records, 'gemini', 'm1', 'image')).toEqual([
+      { probability: 0.7, isAI: false },
+      { probability: 0.45, isAI: true },
+    ]);
+    expect(samplesFromManifest(records, 'openai', 'gpt-4o', 'image')).toEqual([{ probability: 0.2, isAI: false }]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from '@jest/globals';
+import { DetectorError, detectorService } from '../src/services/detectorService';
+import { ANALYSIS_SCHEMAS } from '../src/config/analysisRegistry';
+import { mergeVerdicts } from '../src/services/ensembleService';
+import type { DetectorProvider } from '../src/types/analysis';
+
+describe('Detector providers', () => {
+  const input = {
+    requestId: 'test-request',
+    userId: 'test-user',
+    image: { mimeType: 'image/png', data: Buffer.from('fake-image-bytes').toString('base64') },
+    language: 'en',
+    prompt: 'Analyze',
+    schema: ANALYSIS_SCHEMAS[0].definition,
+  };
+
+  it('should register the built-in providers', () => {
+    expect(detectorService.list()).toEqual(expect.arrayContaining(['gemini', 'openai', 'stub']));
+  });
+
+  it('should return a deterministic normalized result from the stub provider', async () => {
+    const provider = detectorService.resolve('stub');
+    const first = await provider.detect(input);
+    const second = await provider.detect(input);
+
+    expect(first).toEqual(second);
+    expect(first.provider).toBe('stub');
+    const { gan, diffusion, organic } = first.result.probabilityBreakdown;
+    expect(gan + diffusion + organic).toBe(100);
+    expect(first.result.confidenceScore).toBeGreaterThanOrEqual(0);
+    expect(first.result.confidenceScore).toBeLessThanOrEqual(100);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => detectorService.resolve('does-not-exist')).toThrow(DetectorError);
+  });
+
+  it('should allow custom providers to be registered', async () => {
+    const custom: DetectorProvider = {
+      name: 'custom',
+      model: 'custom-v1',
+      isConfigured: () => true,
+      detect: async () => (await detectorService.resolve('stub').detect(input)),
+    };
+    detectorService.register(custom);
+    try {
+      expect(detectorService.resolve('custom')).toBe(custom);
+    } finally {
+      detectorService.unregister('custom');
+    }
+  });
+
+  it('should only route audio to providers that support it', async () => {
+    const imageOnly: DetectorProvider = {
+      name: 'image-only',
+      model: 'image-only-v1',
+      isConfigured: () => true,
+      detect: async () => (await detectorService.resolve('stub').detect(input)),
+    };
+    detectorService.register(imageOnly);
+    try {
+      expect(() => detectorService.resolveAll(['image-only'], 'audio')).toThrow(DetectorError);
+      expect(detectorService.resolveAll(['image-only', 'stub'])).toHaveLength(2);
+      expect(detectorService.resolveAll(['stub'], 'audio').map((provider) => provider.name)).toEqual(['stub']);
+    } finally {
+      detectorService.unregister('image-only');
+    }
+
+    const { image, ...rest } = input;
+    const voice = await detectorService.resolve('stub').detect({
+      ...rest,
+      audio: { mimeType: 'audio/mpeg', data: image.data },
+    });
+    expect(voice.result.technicalSpecs).toBeUndefined();
+    expect(voice.result.regions).toBeUndefined();
+  });
+});
+
+describe('Ensemble verdicts', () => {
+  const base = {
+    detectedModel: 'Model',
+    verdict: 'verdict',
+    findings: [],
+    technicalSpecs: { dimensions: '1x1', colorSpace: 'sRGB', modelId: 'x', entropy: '1' },
+  };
+  const aiResult = {
+    ...base,
+    isAI: true,
+    confidenceScore: 90,
+    probabilityBreakdown: { gan: 10, diffusion: 80, organic: 10 },
+  };
+  const realResult = {
+    ...base,
+    isAI: false,
+    confidenceScore: 60,
+    probabilityBreakdown: { gan: 0, diffusion: 20, organic: 80 },
+  };
+
+  it('should merge by weighted average of the AI probability', () => {
+    const merged = mergeVerdicts(
+      [
+        { result: aiResult, weight: 1 },
+        { result: realResult, weight: 1 },
+      ],
+      'weighted_average'
+    );
+    expect(merged.isAI).toBe(true);
+    expect(merged.confidenceScore).toBe(65);
+    expect(merged.probabilityBreakdown).toEqual({ gan: 5, diffusion: 50, organic: 45 });
+  });
+
+  it('should merge by weighted majority vote', () => {
+    const merged = mergeVerdicts(
+      [
+        { result: aiResult, weight: 1 },
+        { result: realResult, weight: 2 },
+      ],
+      'majority_vote'
+    );
+    expect(merged.isAI).toBe(false);
+    expect(merged.confidenceScore).toBe(60);
+    expect(merged.probabilityBreakdown).toEqual(realResult.probabilityBreakdown);
+  });
+
+  it('should pick the most confident verdict', () => {
+    const merged = mergeVerdicts(
+      [
+        { result: realResult, weight: 5 },
+        { result: aiResult, weight: 1 },
+      ],
+      'max_confidence'
+    );
+    expect(merged).toEqual(aiResult);
+  });
+
+  it('should take regions only from a provider that agrees with the merged verdict', () => {
+    const regions = { boxes: [{ x: 0.1, y: 0.1, width: 0.2, height: 0.2, score: 90 }] };
+    const merged = mergeVerdicts(
+      [
+        { result: { ...aiResult, confidenceScore: 70 }, weight: 1 },
+        { result: { ...aiResult, confidenceScore: 60, regions }, weight: 1 },
+        { result: { ...realResult, regions: { grid: { rows: 1, cols: 1, scores: [5] } } }, weight: 1 },
+      ],
+      'weighted_average'
+    );
+    expect(merged.regions).toEqual(regions);
+
+    const unlocalized = mergeVerdicts([{ result: aiResult, weight: 1 }], 'majority_vote');
+    expect(unlocalized).not.toHaveProperty('regions');
+  });
+});
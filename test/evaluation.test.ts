@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  computeCalibration,
+  computeClassificationMetrics,
+  computeConfusionMatrix,
+  SamplePrediction,
+  toCsv,
+} from '../src/utils/evaluationMetrics';
+import { RecordedDetectorProvider } from '../src/services/recordedDetectorProvider';
+import { DetectorError } from '../src/services/detectorService';
+
+const prediction = (
+  id: string,
+  label: 'ai' | 'real',
+  aiScore: number | null
+): SamplePrediction =>
+  aiScore === null
+    ? { id, label, status: 'error', error: 'provider_unavailable' }
+    : { id, label, status: 'ok', predictedLabel: aiScore >= 50 ? 'ai' : 'real', aiScore };
+
+describe('Evaluation metrics', () => {
+  const predictions = [
+    prediction('a', 'ai', 95),
+    prediction('b', 'ai', 80),
+    prediction('c', 'ai', 30),
+    prediction('d', 'real', 10),
+    prediction('e', 'real', 60),
+    prediction('f', 'real', 5),
+    prediction('g', 'real', null),
+  ];
+
+  it('should count the confusion matrix with AI as the positive class', () => {
+    expect(computeConfusionMatrix(predictions)).toEqual({
+      truePositive: 2,
+      falsePositive: 1,
+      trueNegative: 2,
+      falseNegative: 1,
+    });
+  });
+
+  it('should derive classification metrics and keep errors out of them', () => {
+    expect(computeClassificationMetrics(predictions)).toEqual({
+      samples: 7,
+      evaluated: 6,
+      errors: 1,
+      accuracy: 0.6667,
+      precision: 0.6667,
+      recall: 0.6667,
+      specificity: 0.6667,
+      f1: 0.6667,
+      falsePositiveRate: 0.3333,
+      falseNegativeRate: 0.3333,
+    });
+    expect(computeClassificationMetrics([]).accuracy).toBeNull();
+  });
+
+  it('should bin predicted probabilities for the reliability curve', () => {
+    const calibration = computeCalibration(predictions, 2);
+    expect(calibration.bins).toEqual([
+      { lower: 0, upper: 0.5, count: 3, meanPredicted: 0.15, observedAiRate: 0.3333 },
+      { lower: 0.5, upper: 1, count: 3, meanPredicted: 0.7833, observedAiRate: 0.6667 },
+    ]);
+    expect(calibration.expectedCalibrationError).toBe(0.15);
+    expect(calibration.brierScore).toBe(0.1508);
+    expect(computeCalibration([prediction('x', 'ai', 100)], 10).bins[9].count).toBe(1);
+  });
+
+  it('should quote CSV cells that need it', () => {
+    expect(toCsv(['id', 'note'], [{ id: 'a', note: 'says "hi", twice' }, { id: 'b' }])).toBe(
+      'id,note\na,"says ""hi"", twice"\nb,\n'
+    );
+  });
+});
+
+describe('Recorded detector provider', () => {
+  const result = {
+    isAI: true,
+    confidenceScore: 88,
+    detectedModel: 'Model',
+    verdict: 'verdict',
+    findings: [],
+    probabilityBreakdown: { gan: 0, diffusion: 100, organic: 0 },
+  };
+  const provider = new RecordedDetectorProvider('gemini', [
+    { sampleId: 'ai/1.png', provider: 'gemini', model: 'gemini-x', result, recordedAt: '2026-01-01T00:00:00Z' },
+    { sampleId: 'ai/1.png', provider: 'openai', model: 'gpt-x', result, recordedAt: '2026-01-01T00:00:00Z' },
+  ]);
+  const input = (requestId: string) => ({
+    requestId,
+    image: { mimeType: 'image/png', data: '' },
+    language: 'en',
+    prompt: 'Analyze',
+    schema: {},
+  });
+
+  it('should replay the response recorded for a sample under the provider name', async () => {
+    expect(provider.model).toBe('gemini-x');
+    await expect(provider.detect(input('eval:ai/1.png'))).resolves.toEqual({
+      provider: 'gemini',
+      model: 'gemini-x',
+      result,
+    });
+  });
+
+  it('should fail samples that were never recorded', async () => {
+    await expect(provider.detect(input('eval:real/2.png'))).rejects.toBeInstanceOf(DetectorError);
+    await expect(provider.detect(input('live-request'))).rejects.toBeInstanceOf(DetectorError);
+  });
+});
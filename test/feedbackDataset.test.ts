@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseFeedback, toManifestRecord } from '../src/utils/feedbackDataset';
+
+describe('Verdict feedback', () => {
+  it('should infer the true label from the verdict when it is omitted', () => {
+    expect(parseFeedback({ verdict: 'correct' }, true)).toEqual({
+      ok: true,
+      feedback: { verdict: 'correct', trueLabel: 'ai', labelSource: 'inferred', comment: null },
+    });
+    expect(parseFeedback({ verdict: 'incorrect', comment: '  my own photo ' }, true)).toEqual({
+      ok: true,
+      feedback: { verdict: 'incorrect', trueLabel: 'real', labelSource: 'inferred', comment: 'my own photo' },
+    });
+    expect(parseFeedback({ verdict: 'incorrect', trueLabel: 'ai' }, false)).toMatchObject({
+      ok: true,
+      feedback: { trueLabel: 'ai', labelSource: 'user' },
+    });
+  });
+
+  it('should reject invalid or contradictory feedback', () => {
+    expect(parseFeedback({}, true).ok).toBe(false);
+    expect(parseFeedback({ verdict: 'maybe' }, true).ok).toBe(false);
+    expect(parseFeedback({ verdict: 'correct', trueLabel: 'fake' }, true).ok).toBe(false);
+    expect(parseFeedback({ verdict: 'correct', trueLabel: 'real' }, true).ok).toBe(false);
+    expect(parseFeedback({ verdict: 'correct', comment: 'x'.repeat(1001) }, true).ok).toBe(false);
+    expect(parseFeedback({ verdict: 'correct', comment: 42 }, true).ok).toBe(false);
+  });
+
+  it('should build manifest records with a storage URI', () => {
+    const record = toManifestRecord(
+      'user-1_analysis-1',
+      {
+        userId: 'user-1',
+        analysisId: 'analysis-1',
+        storagePath: 'forensic/user-1/analysis-1.jpg',
+        sha256: 'abc',
+        trueLabel: 'real',
+        labelSource: 'inferred',
+        verdict: 'incorrect',
+        predicted: { isAI: true, confidenceScore: 91, provider: 'gemini' },
+        createdAt: new Date('2026-01-02T03:04:05.000Z'),
+      },
+      'bucket'
+    );
+    expect(record).toMatchObject({
+      mediaType: 'image',
+      uri: 'gs://bucket/forensic/user-1/analysis-1.jpg',
+      label: 'real',
+      predicted: { isAI: true, confidenceScore: 91, provider: 'gemini', model: null },
+      comment: null,
+      createdAt: '2026-01-02T03:04:05.000Z',
+      updatedAt: null,
+    });
+    expect(toManifestRecord('id', { storagePath: 'a.jpg' }, null).uri).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('canvas', () => ({}));
+jest.mock('../src/middleware/authMiddleware', () => {
+  const asAdmin = (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'admin-1', email: 'admin@example.com' };
+    next();
+  };
+  return {
+    authenticateToken: asAdmin,
+    authenticateTokenOrApiKey: () => asAdmin,
+    requireAdmin: asAdmin,
+    isAdminUser: () => true,
+  };
+});
+jest.mock('../src/middleware/rateLimits', () => ({
+  aiUserLimiter: (_req: any, _res: any, next: () => void) => next(),
+}));
+jest.mock('../src/services/detectorService', () => ({
+  DetectorError: class DetectorError extends Error {},
+  detectorService: { resolveAll: () => [{ name: 'stub' }] },
+}));
+
+import { feedbackService } from '../src/services/feedbackService';
+import { createAnalysisRouter } from '../src/routes/analysis';
+
+const app = express();
+app.use('/analysis', createAnalysisRouter());
+
+const record = (feedbackId: string) => ({ feedbackId, label: 'ai' }) as any;
+
+describe('Feedback dataset export', () => {
+  it('should stream one JSON record per line', async () => {
+    jest.spyOn(feedbackService, 'manifest').mockImplementation(async function* () {
+      yield record('f1');
+      yield record('f2');
+    });
+
+    const response = await request(app).get('/analysis/feedback/export');
+
+    expect(response.status).toBe(200);
+    expect(response.text.trim().split('\n').map((line) => JSON.parse(line).feedbackId)).toEqual(['f1', 'f2']);
+  });
+
+  it('should abort the transfer when the export fails after the first row', async () => {
+    jest.spyOn(feedbackService, 'manifest').mockImplementation(async function* () {
+      yield record('f1');
+      throw new Error('firestore down');
+    });
+
+    await expect(request(app).get('/analysis/feedback/export')).rejects.toThrow();
+  });
+
+  it('should answer JSON when the export fails before any row', async () => {
+    jest.spyOn(feedbackService, 'manifest').mockImplementation(async function* () {
+      throw new Error('firestore down');
+    });
+
+    const response = await request(app).get('/analysis/feedback/export');
+
+    expect(response.status).toBe(500);
+    expect(response.body.error.code).toBe('EXPORT_FAILED');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Just enough of the Firestore admin API for service tests: documents and subcollections,
+ * collection groups, `where` (`==`, `in`, `<`, `<=`, `>=`, `array-contains-any`), `orderBy`,
+ * `startAfter`, `limit`, `select`, `count`, `get` and transactions that apply their writes on commit.
+ */
+type DocData = Record<string, any>;
+type Filter = { field: string; op: string; value: any };
+type QueryState = {
+  filters: Filter[];
+  max: number;
+  order?: { field: string; direction: 'asc' | 'desc' };
+  // Id of the document the results start after.
+  after?: string;
+};
+
+const readField = (data: DocData, field: string) =>
+  field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+
+const matches = (data: DocData, { field, op, value }: Filter) => {
+  const actual = readField(data, field);
+  switch (op) {
+    case '==':
+      return actual === value;
+    case 'in':
+      return (value as any[]).includes(actual);
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+    case '>=':
+      return actual >= value;
+    case 'array-contains-any':
+      return Array.isArray(actual) && (value as any[]).some((item) => actual.includes(item));
+    default:
+      throw new Error(`Unsupported operator ${op}`);
+  }
+};
+
+export class FakeFirestore {
+  readonly collections = new Map<string, Map<string, DocData>>();
+
+  collection(name: string) {
+    if (!this.collections.has(name)) this.collections.set(name, new Map());
+    const docs = this.collections.get(name)!;
+    const docRef = (id: string) => ({
+      id,
+      collection: (sub: string) => this.collection(`${name}/${id}/${sub}`),
+      get: async () => ({ id, exists: docs.has(id), data: () => docs.get(id) }),
+      set: async (data: DocData) => {
+        docs.set(id, { ...data });
+      },
+      update: async (data: DocData) => {
+        if (!docs.has(id)) throw new Error(`No document ${name}/${id}`);
+        docs.set(id, { ...docs.get(id), ...data });
+      },
+    });
+    return {
+      doc: docRef,
+      ...this.query([name], { filters: [], max: Infinity }),
+    };
+  }
+
+  collectionGroup(name: string) {
+    const paths = Array.from(this.collections.keys()).filter(
+      (path) => path === name || path.endsWith(`/${name}`)
+    );
+    return this.query(paths, { filters: [], max: Infinity });
+  }
+
+  private query(paths: string[], state: QueryState): any {
+    const run = () => {
+      let docs = paths
+        .flatMap((path) =>
+          Array.from(this.collections.get(path)?.entries() ?? []).map(([id, data]) => ({ path, id, data }))
+        )
+        .filter(({ data }) => state.filters.every((filter) => matches(data, filter)));
+      if (state.order) {
+        const { field, direction } = state.order;
+        const sign = direction === 'desc' ? -1 : 1;
+        docs = docs.sort((a, b) => {
+          const left = readField(a.data, field);
+          const right = readField(b.data, field);
+          return left < right ? -sign : left > right ? sign : 0;
+        });
+      }
+      if (state.after !== undefined) {
+        docs = docs.slice(docs.findIndex(({ id }) => id === state.after) + 1);
+      }
+      return docs;
+    };
+    return {
+      where: (field: string, op: string, value: any) =>
+        this.query(paths, { ...state, filters: [...state.filters, { field, op, value }] }),
+      orderBy: (field: string, direction: 'asc' | 'desc' = 'asc') =>
+        this.query(paths, { ...state, order: { field, direction } }),
+      startAfter: (doc: { id: string }) => this.query(paths, { ...state, after: doc.id }),
+      limit: (n: number) => this.query(paths, { ...state, max: n }),
+      select: () => this.query(paths, state),
+      count: () => ({
+        get: async () => ({ data: () => ({ count: run().length }) }),
+      }),
+      get: async () => {
+        const docs = run()
+          .slice(0, state.max)
+          .map(({ path, id, data }) => ({ id, ref: this.collection(path).doc(id), data: () => data }));
+        return { docs, size: docs.length };
+      },
+    };
+  }
+
+  async runTransaction<T>(run: (tx: any) => Promise<T>): Promise<T> {
+    // Writes are applied when the transaction commits, after `run` has finished.
+    const writes: Array<() => Promise<void>> = [];
+    const result = await run({
+      get: (ref: { get: () => Promise<unknown> }) => ref.get(),
+      update: (ref: { update: (data: DocData) => Promise<void> }, data: DocData) => {
+        writes.push(() => ref.update(data));
+      },
+    });
+    for (const write of writes) await write();
+    return result;
+  }
+
+  data(collection: string, id: string): DocData | undefined {
+    return this.collections.get(collection)?.get(id);
+  }
+
+  reset(): void {
+    this.collections.clear();
+  }
+}
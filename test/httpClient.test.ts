@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  parseRetryAfter,
+  ProviderUnavailableError,
+  ResilientHttpClient,
+} from '../src/services/httpClient';
+
+const policy = {
+  timeoutMs: 1000,
+  maxRetries: 2,
+  baseDelayMs: 5,
+  maxDelayMs: 50,
+  failureThreshold: 2,
+  resetTimeoutMs: 60000,
+};
+
+describe('Resilient HTTP client', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const script: Record<string, Array<{ status: number; headers?: Record<string, string> }>> = {};
+  const hits: Record<string, number> = {};
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const path = req.url || '/';
+      hits[path] = (hits[path] || 0) + 1;
+      const next = script[path]?.shift() || { status: 200 };
+      res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+      res.end(JSON.stringify({ path }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should retry throttled and unavailable responses', async () => {
+    script['/flaky'] = [{ status: 503 }, { status: 429, headers: { 'Retry-After': '0' } }];
+    const client = new ResilientHttpClient('flaky', policy);
+
+    const response = await client.get<{ path: string }>(`${baseUrl}/flaky`);
+
+    expect(response.data.path).toBe('/flaky');
+    expect(hits['/flaky']).toBe(3);
+    expect(client.snapshot().state).toBe('closed');
+  });
+
+  it('should not retry client errors', async () => {
+    script['/bad'] = [{ status: 400 }];
+    const client = new ResilientHttpClient('bad', policy);
+
+    await expect(client.get(`${baseUrl}/bad`)).rejects.toMatchObject({ response: { status: 400 } });
+    expect(hits['/bad']).toBe(1);
+    expect(client.snapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('should give up when Retry-After exceeds the maximum delay', async () => {
+    script['/slow'] = [{ status: 503, headers: { 'Retry-After': '120' } }];
+    const client = new ResilientHttpClient('slow', policy);
+
+    await expect(client.get(`${baseUrl}/slow`)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(hits['/slow']).toBe(1);
+  });
+
+  it('should open the breaker and fail fast with provider_unavailable', async () => {
+    script['/down'] = Array.from({ length: 6 }, () => ({ status: 502 }));
+    const client = new ResilientHttpClient('down', policy);
+
+    await expect(client.get(`${baseUrl}/down`)).rejects.toBeDefined();
+    await expect(client.get(`${baseUrl}/down`)).rejects.toBeDefined();
+    expect(hits['/down']).toBe(6);
+    expect(client.snapshot().state).toBe('open');
+
+    const error = await client.get(`${baseUrl}/down`).catch((err) => err);
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error).toMatchObject({ code: 'provider_unavailable', status: 503, provider: 'down' });
+    expect(hits['/down']).toBe(6);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { readHeicDimensions, sniffImageFormat } from '../src/utils/imageFormat';
+
+const ftyp = (major: string, compatible: string[]) => {
+  const brands = Buffer.from([major, '\0\0\0\0', ...compatible].join(''), 'ascii');
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + brands.length, 0);
+  header.write('ftyp', 4, 'ascii');
+  return Buffer.concat([header, brands]);
+};
+
+describe('Image format sniffing', () => {
+  it('should detect formats from magic bytes', () => {
+    expect(sniffImageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0]))).toBe('jpeg');
+    expect(sniffImageFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('png');
+    expect(sniffImageFormat(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'ascii'))).toBe('webp');
+    expect(sniffImageFormat(Buffer.from('GIF89a', 'ascii'))).toBe('gif');
+    expect(sniffImageFormat(ftyp('heic', ['mif1', 'heic']))).toBe('heic');
+  });
+
+  it('should only treat generic HEIF containers as HEIC when a HEVC brand is listed', () => {
+    expect(sniffImageFormat(ftyp('mif1', ['mif1', 'heic']))).toBe('heic');
+    expect(sniffImageFormat(ftyp('avif', ['mif1', 'avif']))).toBeNull();
+    expect(sniffImageFormat(ftyp('mif1', ['mif1', 'avif']))).toBeNull();
+  });
+
+  it('should reject unknown payloads', () => {
+    expect(sniffImageFormat(Buffer.alloc(0))).toBeNull();
+    expect(sniffImageFormat(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+
+  it('should read HEIC dimensions from the ispe property', () => {
+    const ispe = Buffer.alloc(20);
+    ispe.writeUInt32BE(20, 0);
+    ispe.write('ispe', 4, 'ascii');
+    ispe.writeUInt32BE(4032, 12);
+    ispe.writeUInt32BE(3024, 16);
+
+    expect(readHeicDimensions(Buffer.concat([ftyp('heic', ['mif1']), ispe]))).toEqual({ width: 4032, height: 3024 });
+    expect(readHeicDimensions(ftyp('heic', ['mif1']))).toBeNull();
+  });
+});
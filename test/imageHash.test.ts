@@ -0,0 +1,206 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+// 9x8 RGBA pixels handed out by the fake canvas; each test sets its own.
+let mockPixels = new Uint8ClampedArray(9 * 8 * 4);
+
+jest.mock('canvas', () => ({
+  loadImage: async (buffer: Buffer) => {
+    if (!buffer.length) throw new Error('Unsupported image type');
+    return {};
+  },
+  createCanvas: () => ({
+    getContext: () => ({
+      drawImage: () => undefined,
+      getImageData: () => ({ data: mockPixels }),
+    }),
+  }),
+}));
+jest.mock('../src/firebase', () => {
+  const fake = jest.requireActual('./helpers/fakeFirestore') as typeof import('./helpers/fakeFirestore');
+  return { db: new fake.FakeFirestore() };
+});
+jest.mock('../src/middleware/authMiddleware', () => {
+  const asAdmin = (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'user-1', email: 'admin@example.com' };
+    next();
+  };
+  return {
+    authenticateToken: asAdmin,
+    authenticateTokenOrApiKey: () => asAdmin,
+    requireAdmin: asAdmin,
+    isAdminUser: () => true,
+  };
+});
+jest.mock('../src/middleware/rateLimits', () => ({
+  aiUserLimiter: (_req: any, _res: any, next: () => void) => next(),
+}));
+jest.mock('../src/services/detectorService', () => ({
+  DetectorError: class DetectorError extends Error {},
+  detectorService: { resolveAll: () => [{ name: 'stub' }] },
+}));
+
+import { db } from '../src/firebase';
+import { computeDHash, hammingDistance, MAX_BANDED_DISTANCE, toHashBands } from '../src/utils/imageHash';
+import { similarityBands, similarityService } from '../src/services/similarityService';
+import { config } from '../src/config';
+import { createAnalysisRouter } from '../src/routes/analysis';
+
+const fakeDb = db as unknown as FakeFirestore;
+
+const grayPixels = (gray: (x: number, y: number) => number) => {
+  const pixels = new Uint8ClampedArray(9 * 8 * 4);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      const offset = (y * 9 + x) * 4;
+      pixels.fill(gray(x, y), offset, offset + 3);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+// Flip the given bit positions (0 is the least significant bit) of a 16-hex-char hash.
+const flipBits = (hash: string, positions: number[]) =>
+  positions
+    .reduce((value, position) => value ^ (1n << BigInt(position)), BigInt(`0x${hash}`))
+    .toString(16)
+    .padStart(16, '0');
+
+describe('Perceptual hashing', () => {
+  it('should set a bit wherever a pixel is brighter than its right-hand neighbour', async () => {
+    mockPixels = grayPixels((x) => 255 - x * 20);
+    expect(await computeDHash(Buffer.from('image'))).toBe('ffffffffffffffff');
+
+    mockPixels = grayPixels((x) => x * 20);
+    expect(await computeDHash(Buffer.from('image'))).toBe('0000000000000000');
+
+    // Only the first row falls from left to right.
+    mockPixels = grayPixels((x, y) => (y === 0 ? 255 - x * 20 : x * 20));
+    expect(await computeDHash(Buffer.from('image'))).toBe('ff00000000000000');
+  });
+
+  it('should return null for images that cannot be decoded', async () => {
+    expect(await computeDHash(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('should count differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('f000000000000001', '7000000000000000')).toBe(2);
+  });
+
+  it('should split the hash into maxDistance + 1 bands covering all 64 bits', () => {
+    const bands = toHashBands('ff00000000000000', 10);
+    expect(bands).toHaveLength(11);
+    expect(bands[0]).toBe('11.0:11111');
+    expect(bands.map((band) => band.split(':')[1]).join('')).toBe(
+      BigInt('0xff00000000000000').toString(2).padStart(64, '0')
+    );
+    expect(toHashBands('ff00000000000000', 64)).toHaveLength(MAX_BANDED_DISTANCE + 1);
+    expect(toHashBands('ff00000000000000', 3)).toEqual([
+      '4.0:1111111100000000',
+      '4.1:0000000000000000',
+      '4.2:0000000000000000',
+      '4.3:0000000000000000',
+    ]);
+  });
+
+  it('should always share a band for hashes within maxDistance', () => {
+    const hash = '9a3c5e7f01b2d4e6';
+    for (const maxDistance of [3, 10, 20]) {
+      for (let seed = 0; seed < 50; seed++) {
+        // maxDistance bits spread evenly over the hash, offset per iteration.
+        const positions = Array.from({ length: maxDistance }, (_, i) => (i * 7 + seed) % 64);
+        const other = flipBits(hash, Array.from(new Set(positions)));
+        const shared = toHashBands(hash, maxDistance).filter((band) =>
+          toHashBands(other, maxDistance).includes(band)
+        );
+        expect(shared.length).toBeGreaterThan(0);
+      }
+    }
+  });
+});
+
+describe('Similar analysis lookup', () => {
+  const userId = 'user-1';
+  const source = '9a3c5e7f01b2d4e6';
+
+  const storeAnalysis = (analysisId: string, dhash: string, owner = userId) =>
+    fakeDb.collection('users').doc(owner).collection('analyze1').doc(analysisId).set({
+      analysisId,
+      userId: owner,
+      deleted: false,
+      imageHash: { sha256: analysisId, dhash, bands: similarityBands(dhash) },
+      result: { isAI: true, confidenceScore: 80, verdict: 'ai' },
+    });
+
+  beforeEach(async () => {
+    fakeDb.reset();
+    await storeAnalysis('source', source);
+  });
+
+  it('should find near-duplicates up to the configured distance and rank them', async () => {
+    const maxDistance = config.analysis.similarity.maxDistance;
+    // Spread the flipped bits across every band so no band of the old four-band scheme survives.
+    await storeAnalysis('edge', flipBits(source, Array.from({ length: maxDistance }, (_, i) => i * 6)));
+    await storeAnalysis('close', flipBits(source, [0, 31]));
+    await storeAnalysis('far', flipBits(source, Array.from({ length: maxDistance + 1 }, (_, i) => i * 5)));
+
+    const matches = await similarityService.findSimilar(userId, 'source');
+
+    expect(matches.map((match) => [match.analysisId, match.distance])).toEqual([
+      ['close', 2],
+      ['edge', maxDistance],
+    ]);
+  });
+
+  it('should not search beyond the distance the stored bands cover', async () => {
+    const maxDistance = config.analysis.similarity.maxDistance;
+    await storeAnalysis('far', flipBits(source, Array.from({ length: maxDistance + 1 }, (_, i) => i * 5)));
+
+    expect(await similarityService.findSimilar(userId, 'source', { maxDistance: 64 })).toEqual([]);
+  });
+
+  it('should search every user only when asked to', async () => {
+    await storeAnalysis('mine', flipBits(source, [3]));
+    await storeAnalysis('theirs', flipBits(source, [7]), 'user-2');
+
+    const own = await similarityService.findSimilar(userId, 'source');
+    expect(own.map((match) => match.analysisId)).toEqual(['mine']);
+
+    const all = await similarityService.findSimilar(userId, 'source', { allUsers: true });
+    expect(all.map((match) => [match.analysisId, match.userId])).toEqual([
+      ['mine', userId],
+      ['theirs', 'user-2'],
+    ]);
+  });
+
+  it('should let admins search every user through the API', async () => {
+    await storeAnalysis('theirs', flipBits(source, [7]), 'user-2');
+    const app = express();
+    app.use('/analysis', createAnalysisRouter());
+
+    const response = await request(app).get('/analysis/similar/source?scope=all');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((match: any) => match.analysisId)).toEqual(['theirs']);
+  });
+
+  it('should ship the array index the cross-user lookup needs', () => {
+    const indexes = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'firestore.indexes.json'), 'utf8'));
+    const bands = indexes.fieldOverrides.find(
+      (override: any) => override.collectionGroup === 'analyze1' && override.fieldPath === 'imageHash.bands'
+    );
+    expect(bands.indexes).toEqual(
+      expect.arrayContaining([
+        { arrayConfig: 'CONTAINS', queryScope: 'COLLECTION' },
+        { arrayConfig: 'CONTAINS', queryScope: 'COLLECTION_GROUP' },
+      ])
+    );
+  });
+});
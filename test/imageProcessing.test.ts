@@ -0,0 +1,47 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Like the real binding, the fake canvas has no WebP decoder.
+jest.mock('canvas', () => ({
+  loadImage: async () => {
+    throw new Error('Unsupported image type');
+  },
+  createCanvas: () => {
+    throw new Error('canvas should not be used');
+  },
+}));
+
+import { imageProcessingService } from '../src/services/imageProcessingService';
+import { config } from '../src/config';
+
+// 1x1 lossless WebP.
+const webp = Buffer.from('UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==', 'base64');
+
+// The same image with the VP8L header claiming the given size.
+const webpSized = (width: number, height: number) => {
+  const resized = Buffer.from(webp);
+  const bits = resized.readUInt32LE(21);
+  resized.writeUInt32LE(((bits & ~0x0fffffff) | (width - 1) | ((height - 1) << 14)) >>> 0, 21);
+  return resized;
+};
+
+describe('Image preparation', () => {
+  it('should pass WebP through undecoded when it needs no normalizing', async () => {
+    const prepared = await imageProcessingService.prepare(webp);
+
+    expect(prepared).toMatchObject({ format: 'webp', mimeType: 'image/webp', width: 1, height: 1, normalized: false });
+    expect(prepared.buffer).toBe(webp);
+  });
+
+  it('should refuse WebP that would need downscaling', async () => {
+    const side = config.analysis.image.maxDimension + 1;
+
+    await expect(imageProcessingService.prepare(webpSized(side, 10))).rejects.toMatchObject({
+      code: 'image_decode_failed',
+      status: 422,
+    });
+    await expect(imageProcessingService.prepare(webpSized(side - 1, 10))).resolves.toMatchObject({
+      width: side - 1,
+      height: 10,
+    });
+  });
+});
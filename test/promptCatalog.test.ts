@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildFallbackChain,
+  normalizeLocale,
+  promptCatalogService,
+} from '../src/services/promptCatalogService';
+
+const FORENSIC_PROMPT_TEMPLATE = 'forensic';
+
+describe('Prompt catalog', () => {
+  it('should normalize locale casing and separators', () => {
+    expect(normalizeLocale('pt_br')).toBe('pt-BR');
+    expect(normalizeLocale(' EN-us ')).toBe('en-US');
+    expect(normalizeLocale('zh-hant-tw')).toBe('zh-Hant-TW');
+    expect(normalizeLocale('')).toBeNull();
+    expect(normalizeLocale(42)).toBeNull();
+  });
+
+  it('should build fallback chains down to the default locale', () => {
+    expect(buildFallbackChain('pt-BR', 'en')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(buildFallbackChain('en-GB', 'en')).toEqual(['en-GB', 'en']);
+    expect(buildFallbackChain(null, 'en')).toEqual(['en']);
+  });
+
+  it('should load the forensic templates from disk', () => {
+    expect(promptCatalogService.locales(FORENSIC_PROMPT_TEMPLATE)).toEqual(
+      expect.arrayContaining(['en', 'tr', 'pt', 'pt-BR'])
+    );
+  });
+
+  it('should resolve the closest available template', () => {
+    expect(promptCatalogService.resolve(FORENSIC_PROMPT_TEMPLATE, 'pt-br').locale).toBe('pt-BR');
+    expect(promptCatalogService.resolve(FORENSIC_PROMPT_TEMPLATE, 'pt-PT').locale).toBe('pt');
+    expect(promptCatalogService.resolve(FORENSIC_PROMPT_TEMPLATE, 'tr-TR').locale).toBe('tr');
+
+    const fallback = promptCatalogService.resolve(FORENSIC_PROMPT_TEMPLATE, 'xx');
+    expect(fallback).toMatchObject({ locale: 'en', requestedLocale: 'xx', version: 1 });
+    expect(fallback.prompt).toContain('ENGLISH');
+  });
+
+  it('should throw for unknown templates', () => {
+    expect(() => promptCatalogService.resolve('missing', 'en')).toThrow('No prompt template');
+  });
+});
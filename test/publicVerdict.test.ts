@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { toPublicVerdict } from '../src/utils/publicVerdict';
+
+const storedAnalysis = {
+  userId: 'user-1',
+  title: 'Photo of my kid at school',
+  lastMessage: 'is this real?',
+  imageUrl: 'https://storage.googleapis.com/bucket/forensic/user-1/a1.jpg?X-Goog-Expires=2100',
+  sourceImageUrl: 'https://example.com/private.jpg',
+  storagePath: 'forensic/user-1/a1.jpg',
+  imageHash: { sha256: 'abc', dhash: 'def' },
+  metadata: { exif: { GPSLatitude: 41.0, Make: 'Apple' } },
+  language: 'tr',
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  result: {
+    isAI: true,
+    confidenceScore: 92,
+    detectedModel: 'Midjourney',
+    verdict: 'Synthetic',
+    findings: [
+      { title: 'Texture', description: 'Smooth skin', type: 'texture', status: 'alert', extra: 'x' },
+      {
+        title: 'Camera EXIF data',
+        description: 'Captured with Apple iPhone 15 on 2026:02:28 18:42:07',
+        type: 'metadata',
+        status: 'secure',
+      },
+      {
+        title: 'AI generator metadata',
+        description: 'png:parameters = portrait of Jane Doe, Steps: 30',
+        type: 'metadata',
+        status: 'alert',
+      },
+    ],
+    probabilityBreakdown: { gan: 10, diffusion: 80, organic: 10 },
+    technicalSpecs: {
+      dimensions: '1024x1024',
+      colorSpace: 'sRGB',
+      modelId: 'mj',
+      entropy: '7.1',
+      camera: 'Apple iPhone 15',
+      software: 'Photos 9.0',
+      contentCredentials: 'absent',
+    },
+  },
+};
+
+describe('Public verdict scrubbing', () => {
+  it('should publish only the verdict and non-identifying specs', () => {
+    const verdict = toPublicVerdict('share-1', storedAnalysis);
+
+    expect(verdict).toMatchObject({
+      shareId: 'share-1',
+      analyzedAt: '2026-03-01T10:00:00.000Z',
+      isAI: true,
+      confidenceScore: 92,
+      dimensions: '1024x1024',
+      contentCredentials: 'absent',
+      thumbnail: null,
+    });
+    expect(verdict.findings).toEqual([
+      { title: 'Texture', description: 'Smooth skin', type: 'texture', status: 'alert' },
+    ]);
+
+    const serialized = JSON.stringify(verdict);
+    [
+      'user-1',
+      'my kid',
+      'is this real',
+      'X-Goog-Expires',
+      'private.jpg',
+      'GPSLatitude',
+      'iPhone',
+      'Photos 9.0',
+      '2026:02:28',
+      'Jane Doe',
+    ].forEach((secret) => expect(serialized).not.toContain(secret));
+  });
+
+  it('should tolerate analyses without a result breakdown', () => {
+    const verdict = toPublicVerdict('share-2', { result: { isAI: false, confidenceScore: 30 } });
+    expect(verdict).toMatchObject({ isAI: false, probabilityBreakdown: null, findings: [], analyzedAt: null });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { reportLocales, resolveReportLabels } from '../src/utils/reportLabels';
+
+const labelsRoot = path.join(__dirname, '../src/templates/reports/forensic');
+const readLabels = (file: string) =>
+  JSON.parse(fs.readFileSync(path.join(labelsRoot, file), 'utf-8')).labels as Record<string, string>;
+
+describe('Report label catalog', () => {
+  it('should translate every English label in each locale', () => {
+    const englishKeys = Object.keys(readLabels('en.json')).sort();
+    fs.readdirSync(labelsRoot)
+      .filter((file) => file.endsWith('.json'))
+      .forEach((file) => {
+        expect({ file, keys: Object.keys(readLabels(file)).sort() }).toEqual({ file, keys: englishKeys });
+      });
+  });
+
+  it('should fall back through the locale chain', () => {
+    expect(reportLocales()).toEqual(expect.arrayContaining(['en', 'tr', 'pt']));
+    expect(resolveReportLabels('pt_BR').locale).toBe('pt');
+    expect(resolveReportLabels('tr-TR').labels.verdict).toBe('Sonuç');
+    expect(resolveReportLabels('xx').locale).toBe('en');
+    expect(resolveReportLabels(undefined).labels.title).toBe('Forensic Image Analysis Report');
+  });
+});
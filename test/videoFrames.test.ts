@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { planFrameTimestamps } from '../src/services/videoFrameService';
+import { sniffVideoFormat } from '../src/utils/mediaFormat';
+import { videoQuotaCost } from '../src/config/quotaConfig';
+
+const ftyp = (brand: string) => {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(24, 0);
+  buffer.write('ftyp', 4, 'ascii');
+  buffer.write(brand, 8, 'ascii');
+  return buffer;
+};
+
+describe('Video frame sampling', () => {
+  it('should spread samples across the clip and cap the frame count', () => {
+    expect(planFrameTimestamps(10, 8, 2)).toEqual([1, 3, 5, 7, 9]);
+    expect(planFrameTimestamps(60, 8, 2)).toHaveLength(8);
+    expect(planFrameTimestamps(60, 8, 2)[0]).toBe(3.75);
+    expect(planFrameTimestamps(0.4, 8, 2)).toEqual([0.2]);
+    expect(planFrameTimestamps(null, 8, 2)).toEqual([0]);
+  });
+
+  it('should sniff clip containers and reject still images', () => {
+    expect(sniffVideoFormat(ftyp('isom'))).toBe('mp4');
+    expect(sniffVideoFormat(ftyp('qt  '))).toBe('mov');
+    expect(sniffVideoFormat(ftyp('heic'))).toBeNull();
+    expect(sniffVideoFormat(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01]))).toBe('webm');
+    expect(sniffVideoFormat(Buffer.from('GIF89a\x01\x00\x01\x00', 'binary'))).toBe('gif');
+    expect(sniffVideoFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBeNull();
+  });
+
+  it('should charge quota per sampled frame with the configured weight', () => {
+    expect(videoQuotaCost(8, 1)).toBe(8);
+    expect(videoQuotaCost(5, 0.5)).toBe(3);
+    expect(videoQuotaCost(3, 0)).toBe(1);
+  });
+});